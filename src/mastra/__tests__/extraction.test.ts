@@ -0,0 +1,114 @@
+import { afterAll, beforeAll, describe, expect, it } from 'vitest';
+import { extractionCacheVariant, loadAndExtractPdf } from '../lib/extraction';
+import { getCachedStage } from '../lib/cache';
+import { extractTextFromPDF } from '../lib/util';
+import type { OcrEngine } from '../lib/ocr';
+import { PdfDownloadError } from '../lib/download';
+import { startPdfServer, type PdfServer } from './pdf-server';
+import { buildPdf } from './fixture-pdf';
+import { blankPdf, samplePdf, samplePdfPages } from './fixtures';
+
+let server: PdfServer;
+
+beforeAll(async () => {
+  server = await startPdfServer({
+    '/sample.pdf': { body: samplePdf },
+    '/blank.pdf': { body: blankPdf },
+    '/page.html': { contentType: 'text/html', body: '<html><body>Not a PDF</body></html>' },
+    '/broken.pdf': { status: 503, body: 'Service unavailable' },
+  });
+});
+
+afterAll(async () => {
+  await server.close();
+});
+
+async function downloadError(url: string): Promise<PdfDownloadError> {
+  const error = await loadAndExtractPdf({ type: 'url', url }, 'bypass').catch(caught => caught);
+  expect(error).toBeInstanceOf(PdfDownloadError);
+  return error;
+}
+
+describe('loadAndExtractPdf', () => {
+  it('extracts the text of every page from a downloaded PDF', async () => {
+    const { extraction, fileSize } = await loadAndExtractPdf({ type: 'url', url: server.url('/sample.pdf') }, 'bypass');
+
+    expect(fileSize).toBe(samplePdf.length);
+    expect(extraction.pagesCount).toBe(2);
+    expect(extraction.pages).toMatchSnapshot();
+  });
+
+  it('extracts the same text from a base64 upload', async () => {
+    const fromUrl = await loadAndExtractPdf({ type: 'url', url: server.url('/sample.pdf') }, 'bypass');
+    const fromUpload = await loadAndExtractPdf({ type: 'base64', data: samplePdf.toString('base64') }, 'bypass');
+
+    expect(fromUpload.contentHash).toBe(fromUrl.contentHash);
+    expect(fromUpload.extraction.extractedText).toBe(fromUrl.extraction.extractedText);
+  });
+
+  it('reuses the cached extraction of the same bytes', async () => {
+    const source = { type: 'base64' as const, data: samplePdf.toString('base64') };
+    const { contentHash } = await loadAndExtractPdf(source, 'refresh');
+    const cached = await loadAndExtractPdf(source, 'read-write');
+
+    expect(cached.extractionHit).toBe(true);
+    expect(cached.extraction.ocrFailed).toBe(false);
+    // OCR is disabled in the tests; an extraction with OCR enabled is cached separately
+    expect(await getCachedStage(contentHash, 'extraction', extractionCacheVariant(null))).not.toBeNull();
+    expect(
+      await getCachedStage(
+        contentHash,
+        'extraction',
+        extractionCacheVariant({ id: 'tesseract-eng', recognize: async () => [] }),
+      ),
+    ).toBeNull();
+  });
+
+  it('fails when the PDF has no text layer and OCR is disabled', async () => {
+    await expect(loadAndExtractPdf({ type: 'url', url: server.url('/blank.pdf') }, 'bypass')).rejects.toThrow(
+      'No text could be extracted from the PDF',
+    );
+  });
+
+  it('reports HTTP errors with their status', async () => {
+    const notFound = await downloadError(server.url('/missing.pdf'));
+    expect(notFound.toJSON()).toMatchObject({ code: 'HTTP_ERROR', status: 404, retryable: false });
+
+    const unavailable = await downloadError(server.url('/broken.pdf'));
+    expect(unavailable.toJSON()).toMatchObject({ code: 'HTTP_ERROR', status: 503, retryable: true });
+  });
+
+  it('rejects responses that are not PDFs', async () => {
+    expect((await downloadError(server.url('/page.html'))).code).toBe('NOT_PDF');
+  });
+
+  it('refuses private hosts that are not allowlisted', async () => {
+    expect((await downloadError('http://10.0.0.1/internal.pdf')).code).toBe('BLOCKED_HOST');
+  });
+});
+
+describe('OCR fallback', () => {
+  const failingEngine: OcrEngine = {
+    id: 'failing',
+    recognize: async () => {
+      throw new Error('Engine crashed');
+    },
+  };
+
+  it('keeps the native pages when OCR of the scanned pages fails', async () => {
+    const { pages, pagesCount, ocrFailed } = await extractTextFromPDF(buildPdf([samplePdfPages[0], []]), {
+      ocrEngine: failingEngine,
+    });
+
+    expect(pagesCount).toBe(2);
+    expect(ocrFailed).toBe(true);
+    expect(pages[0]).toMatchObject({ ocr: false, ocrConfidence: null, text: expect.stringContaining('chloroplasts') });
+    expect(pages[1]).toEqual({ pageNumber: 2, text: '', ocr: false, ocrConfidence: null });
+  });
+
+  it('reports the OCR failure when no page has text', async () => {
+    await expect(extractTextFromPDF(blankPdf, { ocrEngine: failingEngine })).rejects.toThrow(
+      'No text could be extracted from the PDF (OCR failed:',
+    );
+  });
+});
@@ -0,0 +1,53 @@
+// Builds small, deterministic PDFs with a real text layer, so fixtures need no binary files in the repo.
+// Lines starting with "# " are drawn as 18pt bold headings, the rest as 11pt body text.
+export function buildPdf(pages: string[][], title?: string): Buffer {
+  const objects: string[] = [];
+  const add = (body: string) => objects.push(body);
+
+  add('<< /Type /Catalog /Pages 2 0 R >>');
+  add(''); // Page tree, filled in once the page object numbers are known
+  add('<< /Type /Font /Subtype /Type1 /BaseFont /Helvetica >>');
+  add('<< /Type /Font /Subtype /Type1 /BaseFont /Helvetica-Bold >>');
+  if (title) {
+    add(`<< /Title (${escapePdfText(title)}) >>`);
+  }
+
+  const pageRefs = pages.map(lines => {
+    add(contentStream(lines));
+    add(
+      `<< /Type /Page /Parent 2 0 R /MediaBox [0 0 612 792] /Resources << /Font << /F1 3 0 R /F2 4 0 R >> >> /Contents ${objects.length} 0 R >>`,
+    );
+    return `${objects.length} 0 R`;
+  });
+  objects[1] = `<< /Type /Pages /Kids [${pageRefs.join(' ')}] /Count ${pages.length} >>`;
+
+  let pdf = '%PDF-1.4\n';
+  const offsets = objects.map((body, index) => {
+    const offset = pdf.length;
+    pdf += `${index + 1} 0 obj\n${body}\nendobj\n`;
+    return offset;
+  });
+
+  const xrefOffset = pdf.length;
+  pdf += `xref\n0 ${objects.length + 1}\n0000000000 65535 f \n`;
+  pdf += offsets.map(offset => `${String(offset).padStart(10, '0')} 00000 n \n`).join('');
+  pdf += `trailer\n<< /Size ${objects.length + 1} /Root 1 0 R${title ? ' /Info 5 0 R' : ''} >>\n`;
+  pdf += `startxref\n${xrefOffset}\n%%EOF\n`;
+  return Buffer.from(pdf, 'latin1');
+}
+
+function escapePdfText(text: string): string {
+  return text.replace(/[\\()]/g, match => `\\${match}`);
+}
+
+function contentStream(lines: string[]): string {
+  let y = 740;
+  const operations = lines.map(line => {
+    const heading = line.startsWith('# ');
+    const operation = `BT /${heading ? 'F2 18' : 'F1 11'} Tf 72 ${y} Td (${escapePdfText(heading ? line.slice(2) : line)}) Tj ET`;
+    y -= heading ? 30 : 16;
+    return operation;
+  });
+  const stream = operations.join('\n');
+  return `<< /Length ${Buffer.byteLength(stream, 'latin1')} >>\nstream\n${stream}\nendstream`;
+}
@@ -0,0 +1,104 @@
+import { buildPdf } from './fixture-pdf';
+import type { Question } from '../tools/generate-questions-from-text-tool';
+
+// Two pages, one section each, short enough to be summarized in a single chunk
+export const samplePdfPages = [
+  [
+    '# Photosynthesis',
+    'Photosynthesis converts light energy into chemical energy stored in glucose.',
+    'It takes place in the chloroplasts of plant cells.',
+    'Chlorophyll absorbs mostly blue and red light and reflects green light.',
+  ],
+  [
+    '# Cellular Respiration',
+    'Cellular respiration releases the energy stored in glucose as ATP.',
+    'Aerobic respiration takes place in the mitochondria and requires oxygen.',
+    'Its waste products are carbon dioxide and water.',
+  ],
+];
+
+export const samplePdf = buildPdf(samplePdfPages, 'Energy in Cells');
+
+// A valid PDF whose only page has no text layer
+export const blankPdf = buildPdf([[]]);
+
+// The page texts extraction produces for samplePdf: the heading on its own line, the body joined into one
+export const samplePages = samplePdfPages.map(([heading, ...body], index) => ({
+  pageNumber: index + 1,
+  text: `${heading.slice(2)}\n${body.join(' ')}`,
+}));
+
+// A revision of samplePdf: one sentence reworded, one removed, one added, and a new section
+export const revisedPdfPages = [
+  [
+    '# Photosynthesis',
+    'Photosynthesis converts light energy into chemical energy stored in glucose.',
+    'It takes place in the chloroplasts of plant and algae cells.',
+    'Chlorophyll absorbs mostly blue and red light and reflects green light.',
+  ],
+  [
+    '# Cellular Respiration',
+    'Cellular respiration releases the energy stored in glucose as ATP.',
+    'Aerobic respiration takes place in the mitochondria and requires oxygen.',
+    'Anaerobic respiration does not require oxygen and yields less ATP.',
+  ],
+  ['# Fermentation', 'Fermentation regenerates NAD+ so that glycolysis can continue without oxygen.'],
+];
+
+export const revisedPdf = buildPdf(revisedPdfPages, 'Energy in Cells (revised)');
+
+// Questions about samplePdf, one per type, as the question generator returns them
+export const sampleQuestions: Question[] = [
+  {
+    type: 'multiple_choice',
+    stem: 'Where does photosynthesis take place?',
+    options: ['Chloroplasts', 'Mitochondria', 'Nucleus'],
+    correctAnswer: 'Chloroplasts',
+    referenceAnswer: 'Photosynthesis takes place in the chloroplasts of plant cells.',
+    citations: [
+      {
+        page: 1,
+        quote: 'It takes place in the chloroplasts of plant cells.',
+        verified: true,
+      },
+    ],
+    bloomLevel: 'remember',
+    difficulty: 'easy',
+    section: 'Photosynthesis',
+  },
+  {
+    type: 'short_answer',
+    stem: 'What does aerobic respiration require?',
+    options: [],
+    correctAnswer: 'Oxygen',
+    referenceAnswer: 'Aerobic respiration takes place in the mitochondria and requires oxygen.',
+    citations: [
+      {
+        page: 2,
+        quote: 'Aerobic respiration takes place in the mitochondria and requires oxygen.',
+        verified: true,
+      },
+    ],
+    bloomLevel: 'remember',
+    difficulty: 'medium',
+    section: 'Cellular Respiration',
+  },
+  {
+    type: 'essay',
+    stem: 'Explain how photosynthesis and cellular respiration depend on each other.',
+    options: [],
+    correctAnswer: 'Photosynthesis stores energy in glucose, which respiration releases as ATP.',
+    referenceAnswer:
+      'Photosynthesis converts light energy into chemical energy stored in glucose; cellular respiration releases that energy as ATP.',
+    citations: [
+      {
+        page: 2,
+        quote: 'Cellular respiration releases the energy stored in glucose as ATP.',
+        verified: true,
+      },
+    ],
+    bloomLevel: 'analyze',
+    difficulty: 'hard',
+    section: 'Cellular Respiration',
+  },
+];
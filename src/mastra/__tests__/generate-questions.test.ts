@@ -0,0 +1,152 @@
+import { describe, expect, it } from 'vitest';
+import { Mastra } from '@mastra/core/mastra';
+import { RequestContext } from '@mastra/core/di';
+import { generateQuestionsFromTextTool, MAX_QUESTIONS } from '../tools/generate-questions-from-text-tool';
+import { textQuestionAgent } from '../agents/text-question-agent';
+import { callTool } from '../lib/tool-call';
+import { samplePages } from './fixtures';
+import { testModel } from './setup';
+
+const mastra = new Mastra({ agents: { textQuestionAgent }, logger: false });
+
+const extractedText = samplePages.map(page => page.text).join('\n\n');
+
+async function generate(
+  input: Partial<Parameters<NonNullable<typeof generateQuestionsFromTextTool.execute>>[0]> = {},
+  instance: Mastra = mastra,
+) {
+  const result = await callTool(
+    generateQuestionsFromTextTool,
+    { extractedText, pages: samplePages, ...input },
+    { mastra: instance, requestContext: new RequestContext() },
+  );
+  if ('error' in result) {
+    throw new Error(`Invalid tool input: ${result.message}`);
+  }
+  return result;
+}
+
+describe('generateQuestionsFromTextTool', () => {
+  it('cleans up the questions and verifies their citations against the pages', async () => {
+    testModel.replay('energy-in-cells');
+
+    const result = await generate();
+
+    expect(result).toMatchObject({ success: true, questionCount: 3 });
+    // Numbering is stripped, options of non-multiple-choice questions dropped, one-option and too-short questions removed
+    expect(result.questions.map(question => question.stem)).toEqual([
+      'Where in plant cells does photosynthesis take place?',
+      'In what form does cellular respiration release the energy stored in glucose?',
+      'Which color of light does chlorophyll absorb best?',
+    ]);
+    // A quote found on another page is moved there; a quote found nowhere is kept but unverified
+    expect(result.questions.map(question => question.citations)).toEqual([
+      [{ page: 1, quote: 'It takes place in the chloroplasts of plant cells.', verified: true }],
+      [{ page: 2, quote: 'Cellular respiration releases the energy stored in  glucose as ATP.', verified: true }],
+      [{ page: 1, quote: 'Chlorophyll absorbs green light best.', verified: false }],
+    ]);
+    expect(result).toMatchSnapshot();
+  });
+
+  it('sends the page-tagged source text to the model', async () => {
+    testModel.replay('energy-in-cells');
+
+    await generate({ maxQuestions: 4, section: 'Photosynthesis' });
+
+    expect(testModel.prompts).toHaveLength(1);
+    expect(testModel.prompts[0]).toContain('Generate up to 4 questions.');
+    expect(testModel.prompts[0]).toContain('The content is the section "Photosynthesis" of the document');
+    expect(testModel.prompts[0]).toContain('[Page 2]\nCellular Respiration');
+  });
+
+  it('repairs lettered multiple-choice answers and drops answers that are not an option', async () => {
+    const question = (stem: string, correctAnswer: string, quote: string) => ({
+      type: 'multiple_choice',
+      stem,
+      options: ['In the chloroplasts', 'In the mitochondria', 'In the nucleus'],
+      correctAnswer,
+      referenceAnswer: 'See page 1.',
+      citations: [{ page: 1, quote }],
+      bloomLevel: 'remember',
+      difficulty: 'easy',
+    });
+    testModel.on('Generate comprehensive questions', {
+      questions: [
+        question('Where does photosynthesis take place?', 'A)', 'It takes place in the chloroplasts of plant cells.'),
+        question('Where is ATP mostly produced?', ' in the MITOCHONDRIA ', 'plant cells'),
+        question('Where is chlorophyll stored?', 'In the thylakoids', 'It takes place in the chloroplasts.'),
+      ],
+    });
+
+    const result = await generate();
+
+    expect(result.questions.map(({ stem, correctAnswer }) => [stem, correctAnswer])).toEqual([
+      ['Where does photosynthesis take place?', 'In the chloroplasts'],
+      ['Where is ATP mostly produced?', 'In the mitochondria'],
+    ]);
+    // A two-word quote appears on the page but is too short to count as support
+    expect(result.questions[1].citations).toEqual([{ page: 1, quote: 'plant cells', verified: false }]);
+  });
+
+  it('caps the questions at maxQuestions and tags them with the section', async () => {
+    testModel.replay('energy-in-cells');
+
+    const result = await generate({ maxQuestions: 2, section: 'Photosynthesis' });
+
+    expect(result.questions).toHaveLength(2);
+    expect(result.questions.every(question => question.section === 'Photosynthesis')).toBe(true);
+  });
+
+  it('reports the tokens used under the agent model', async () => {
+    testModel.replay('energy-in-cells');
+
+    const result = await generate();
+
+    expect(result.usage).toEqual([
+      expect.objectContaining({ model: 'test/scripted', calls: 1, inputTokens: expect.any(Number) }),
+    ]);
+    expect(result.usage[0].totalTokens).toBe(result.usage[0].inputTokens + result.usage[0].outputTokens);
+  });
+
+  it('refuses more questions than one request may ask for', async () => {
+    await expect(generate({ maxQuestions: MAX_QUESTIONS + 1 })).rejects.toThrow('Invalid tool input');
+    expect(testModel.prompts).toHaveLength(0);
+  });
+
+  it('fails without calling the model when there is no text', async () => {
+    const result = await generate({ extractedText: '  ' });
+
+    expect(result).toEqual({ questions: [], questionCount: 0, success: false, usage: [] });
+    expect(testModel.prompts).toHaveLength(0);
+  });
+
+  it('fails when the model call fails', async () => {
+    testModel.on('Generate comprehensive questions', new Error('Rate limit exceeded'));
+
+    const result = await generate();
+
+    expect(result).toMatchObject({ questions: [], questionCount: 0, success: false });
+  });
+
+  it('fails when the model does not return the question schema', async () => {
+    testModel.on('Generate comprehensive questions', 'Here are some questions: 1. What is ATP?');
+
+    const result = await generate();
+
+    expect(result).toMatchObject({ questions: [], success: false });
+  });
+
+  it('fails when the model returns no usable questions', async () => {
+    testModel.on('Generate comprehensive questions', { questions: [] });
+
+    const result = await generate();
+
+    expect(result).toMatchObject({ questions: [], questionCount: 0, success: false });
+  });
+
+  it('fails when the question agent is not registered', async () => {
+    const result = await generate({}, new Mastra({ logger: false }));
+
+    expect(result).toMatchObject({ questions: [], success: false });
+  });
+});
@@ -0,0 +1,33 @@
+import { describe, expect, it } from 'vitest';
+import { computePageStats, countWords, formatOutline } from '../lib/metadata';
+
+describe('computePageStats', () => {
+  it('counts words and leaves the language unset for short pages', () => {
+    const [page] = computePageStats([{ pageNumber: 3, text: "ATP isn't stored — it's re-made, 40 times a day." }]);
+
+    expect(page).toEqual({ pageNumber: 3, characterCount: 48, wordCount: 9, language: null });
+  });
+
+  it('detects the language of longer pages', () => {
+    const text =
+      'Photosynthesis converts light energy into chemical energy stored in glucose. It takes place in the chloroplasts of plant cells.';
+
+    expect(computePageStats([{ pageNumber: 1, text }])[0].language).toBe('eng');
+    expect(countWords('')).toBe(0);
+  });
+});
+
+describe('formatOutline', () => {
+  it('indents nested bookmarks and leaves out unresolved pages', () => {
+    expect(
+      formatOutline([
+        {
+          title: 'Energy in Cells',
+          page: 1,
+          url: null,
+          items: [{ title: 'Further reading', page: null, url: 'https://example.com', items: [] }],
+        },
+      ]),
+    ).toEqual(['- Energy in Cells (p. 1)', '  - Further reading']);
+  });
+});
@@ -0,0 +1,120 @@
+import { readFileSync } from 'node:fs';
+import { simulateReadableStream } from 'ai';
+import { MockLanguageModelV2 } from 'ai/test';
+
+type CallOptions = Parameters<MockLanguageModelV2['doStream']>[0];
+
+// Objects are sent as JSON text, which is what structured output parses; an Error fails the call like a provider error
+export type ScriptedResponse = string | object | Error | ((prompt: string) => string | object | Error);
+
+interface ScriptRule {
+  match: string | RegExp;
+  response: ScriptedResponse;
+  // Remaining uses; undefined for a rule that answers every matching call
+  times?: number;
+}
+
+// A recorded exchange, as stored in __tests__/recordings/*.json
+interface RecordedResponse {
+  match: string;
+  response: string | object;
+}
+
+export interface ScriptedModel {
+  model: MockLanguageModelV2;
+  // Prompts (system and user text) of every call so far, in order
+  prompts: string[];
+  // Answer calls whose prompt contains `match` with `response`; rules are tried in the order they were added
+  on(match: string | RegExp, response: ScriptedResponse, options?: { times?: number }): void;
+  // Add the rules of a recording from __tests__/recordings
+  replay(name: string): void;
+  reset(): void;
+}
+
+function messageText(messages: CallOptions['prompt']): string {
+  return messages
+    .map(message =>
+      typeof message.content === 'string'
+        ? message.content
+        : message.content.map(part => ('text' in part ? part.text : '')).join('\n'),
+    )
+    .join('\n\n');
+}
+
+// Deterministic stand-in for token counts, at the same ~4 characters per token the summarizer estimates with.
+// Only user messages are counted, so instructions Mastra adds to the prompt do not change the numbers.
+function usageFor(options: CallOptions, text: string) {
+  const inputTokens = Math.ceil(messageText(options.prompt.filter(message => message.role === 'user')).length / 4);
+  const outputTokens = Math.ceil(text.length / 4);
+  return { inputTokens, outputTokens, totalTokens: inputTokens + outputTokens };
+}
+
+// A model that answers from a script instead of a provider, so agents, tools and workflows run offline.
+// Rules are matched against the prompt rather than consumed in call order, so parallel calls stay deterministic.
+export function createScriptedModel(provider = 'test', modelId = 'scripted'): ScriptedModel {
+  const rules: ScriptRule[] = [];
+  const prompts: string[] = [];
+
+  const respond = (options: CallOptions) => {
+    const prompt = messageText(options.prompt);
+    prompts.push(prompt);
+
+    const rule = rules.find(candidate =>
+      typeof candidate.match === 'string' ? prompt.includes(candidate.match) : candidate.match.test(prompt),
+    );
+    if (!rule) {
+      throw new Error(`No scripted response for prompt: ${prompt.slice(0, 200)}`);
+    }
+    if (rule.times !== undefined && --rule.times === 0) {
+      rules.splice(rules.indexOf(rule), 1);
+    }
+
+    const response = typeof rule.response === 'function' ? rule.response(prompt) : rule.response;
+    if (response instanceof Error) {
+      throw response;
+    }
+    const text = typeof response === 'string' ? response : JSON.stringify(response);
+    return { text, usage: usageFor(options, text) };
+  };
+
+  const model = new MockLanguageModelV2({
+    provider,
+    modelId,
+    doGenerate: async options => {
+      const { text, usage } = respond(options);
+      return { content: [{ type: 'text', text }], finishReason: 'stop', usage, warnings: [] };
+    },
+    doStream: async options => {
+      const { text, usage } = respond(options);
+      return {
+        stream: simulateReadableStream({
+          initialDelayInMs: null,
+          chunkDelayInMs: null,
+          chunks: [
+            { type: 'stream-start', warnings: [] },
+            { type: 'text-start', id: '1' },
+            { type: 'text-delta', id: '1', delta: text },
+            { type: 'text-end', id: '1' },
+            { type: 'finish', finishReason: 'stop', usage },
+          ],
+        }),
+      };
+    },
+  });
+
+  return {
+    model,
+    prompts,
+    on: (match, response, options = {}) => rules.push({ match, response, times: options.times }),
+    replay: name => {
+      const recording = JSON.parse(
+        readFileSync(new URL(`./recordings/${name}.json`, import.meta.url), 'utf-8'),
+      ) as RecordedResponse[];
+      recording.forEach(entry => rules.push({ match: entry.match, response: entry.response }));
+    },
+    reset: () => {
+      rules.length = 0;
+      prompts.length = 0;
+    },
+  };
+}
@@ -0,0 +1,165 @@
+import { afterEach, describe, expect, it, vi } from 'vitest';
+import { APICallError } from 'ai';
+import { Agent } from '@mastra/core/agent';
+import {
+  createRoutedModel,
+  describeModelConfiguration,
+  getModelTiers,
+  registerModel,
+  type ModelTier,
+} from '../lib/model';
+import { answeringModelName } from '../lib/usage';
+import { createScriptedModel } from './mock-model';
+
+afterEach(() => {
+  vi.unstubAllEnvs();
+  vi.restoreAllMocks();
+});
+
+function providerError(statusCode: number, message: string, responseHeaders?: Record<string, string>) {
+  return new APICallError({
+    message,
+    url: 'https://provider.test',
+    requestBodyValues: {},
+    statusCode,
+    responseHeaders,
+  });
+}
+
+// Cooldowns are shared by every routed model, so each test registers models under names of its own
+let registered = 0;
+function scriptedModels(...names: string[]) {
+  registered += 1;
+  return names.map(name => {
+    const scripted = createScriptedModel('test', `${name}-${registered}`);
+    registerModel(`test/${name}-${registered}`, scripted.model);
+    return { name: `test/${name}-${registered}`, ...scripted };
+  });
+}
+
+function agentFor(tiers: ModelTier[]) {
+  return new Agent({
+    id: 'routed',
+    name: 'Routed',
+    instructions: 'Answer briefly.',
+    model: createRoutedModel('questions', tiers),
+  });
+}
+
+describe('routed models', () => {
+  it('falls back on a rate limit and reports the model that answered', async () => {
+    const [primary, backup] = scriptedModels('primary', 'backup');
+    primary.on('Hello', providerError(429, 'Rate limit reached', { 'retry-after': '60' }));
+    backup.on('Hello', 'Hi from the backup');
+    const agent = agentFor([{ models: [primary.name, backup.name] }]);
+
+    const first = await agent.generate('Hello');
+    const second = await agent.generate('Hello');
+
+    expect(first.text).toBe('Hi from the backup');
+    expect(answeringModelName('router/questions', first.response)).toBe(backup.name);
+    // The rate-limited model is skipped until its cooldown ends
+    expect(second.text).toBe('Hi from the backup');
+    expect(primary.prompts).toHaveLength(1);
+    expect(backup.prompts).toHaveLength(2);
+  });
+
+  it('falls back on server errors when streaming', async () => {
+    const [primary, backup] = scriptedModels('primary', 'backup');
+    primary.on('Hello', providerError(503, 'Service unavailable'));
+    backup.on('Hello', 'Hi from the backup');
+
+    const stream = await agentFor([{ models: [primary.name, backup.name] }]).stream('Hello');
+
+    expect(await stream.text).toBe('Hi from the backup');
+  });
+
+  it('does not fall back on errors another model would repeat', async () => {
+    const [primary, backup] = scriptedModels('primary', 'backup');
+    primary.on('Hello', providerError(401, 'Invalid API key'));
+    backup.on('Hello', 'Hi from the backup');
+
+    await expect(agentFor([{ models: [primary.name, backup.name] }]).generate('Hello')).rejects.toThrow(
+      'Invalid API key',
+    );
+    expect(backup.prompts).toHaveLength(0);
+  });
+
+  it('moves to the next tier when the prompt exceeds the context window', async () => {
+    const [small, smallBackup, large] = scriptedModels('small', 'small-backup', 'large');
+    small.on('Hello', providerError(400, "This model's maximum context length is 8192 tokens"));
+    smallBackup.on('Hello', 'Hi from the small backup');
+    large.on('Hello', 'Hi from the large model');
+
+    const result = await agentFor([{ models: [small.name, smallBackup.name] }, { models: [large.name] }]).generate(
+      'Hello',
+    );
+
+    expect(result.text).toBe('Hi from the large model');
+    expect(smallBackup.prompts).toHaveLength(0);
+  });
+
+  it('sends prompts larger than a tier straight to the next one', async () => {
+    const [small, large] = scriptedModels('small', 'large');
+    small.on('Hello', 'Hi from the small model');
+    large.on('Hello', 'Hi from the large model');
+    const agent = agentFor([{ models: [small.name], maxInputTokens: 100 }, { models: [large.name] }]);
+
+    const short = await agent.generate('Hello');
+    const long = await agent.generate(`Hello ${'word '.repeat(200)}`);
+
+    expect(short.text).toBe('Hi from the small model');
+    expect(long.text).toBe('Hi from the large model');
+  });
+});
+
+describe('getModelTiers', () => {
+  it('reads a fallback chain from the role variable before MODEL', () => {
+    vi.stubEnv('MODEL_QUESTIONS', 'openai/gpt-4o, anthropic/claude-sonnet-4-5');
+
+    expect(getModelTiers('questions')).toEqual([{ models: ['openai/gpt-4o', 'anthropic/claude-sonnet-4-5'] }]);
+    expect(getModelTiers('judge')).toEqual([{ models: ['test/scripted'] }]);
+  });
+
+  it('reads tiers from JSON and falls back to the defaults when they are invalid', () => {
+    vi.stubEnv(
+      'MODEL_SUMMARIZER',
+      '[{"models": ["openai/gpt-4o-mini"], "maxInputTokens": 100000}, {"models": ["openai/gpt-4.1"]}]',
+    );
+    vi.stubEnv('MODEL_GRADER', '[{"models": []}]');
+    vi.stubEnv('MODEL', '');
+    const warn = vi.spyOn(console, 'warn').mockImplementation(() => {});
+
+    expect(getModelTiers('summarizer')).toEqual([
+      { models: ['openai/gpt-4o-mini'], maxInputTokens: 100_000 },
+      { models: ['openai/gpt-4.1'] },
+    ]);
+    expect(getModelTiers('grader')).toEqual([{ models: ['openai/gpt-4o', 'openai/gpt-4.1'] }]);
+    expect(warn).toHaveBeenCalledWith(expect.stringContaining('MODEL_GRADER'), expect.anything());
+  });
+});
+
+describe('describeModelConfiguration', () => {
+  it('describes a routed model by the chain it routes to', async () => {
+    vi.stubEnv('MODEL_SUMMARIZER', 'openai/gpt-4.1-mini, openai/gpt-4o-mini');
+    const summarizer = new Agent({
+      id: 'summarizer',
+      name: 'Summarizer',
+      instructions: 'Summarize.',
+      model: createRoutedModel('summarizer', getModelTiers('summarizer')),
+    });
+    const model = await summarizer.getModel();
+
+    expect(describeModelConfiguration(model)).toBe('router/summarizer[openai/gpt-4.1-mini,openai/gpt-4o-mini]');
+
+    vi.stubEnv(
+      'MODEL_SUMMARIZER',
+      '[{"models": ["openai/gpt-4o-mini"], "maxInputTokens": 8000}, {"models": ["openai/gpt-4.1"]}]',
+    );
+    expect(describeModelConfiguration(model)).toBe('router/summarizer[openai/gpt-4o-mini<=8000|openai/gpt-4.1]');
+  });
+
+  it('names any other model by provider and id', () => {
+    expect(describeModelConfiguration({ provider: 'openai', modelId: 'gpt-4o' })).toBe('openai/gpt-4o');
+  });
+});
@@ -0,0 +1,54 @@
+import { createServer, type IncomingHttpHeaders } from 'node:http';
+import type { AddressInfo } from 'node:net';
+
+export interface FixtureResponse {
+  status?: number;
+  contentType?: string;
+  // Extra response headers, e.g. Location for a redirect
+  headers?: Record<string, string>;
+  body: Buffer | string;
+}
+
+export interface PdfServer {
+  url(path: string): string;
+  // Paths requested so far, in order
+  requests: string[];
+  // The headers of those requests
+  requestHeaders: IncomingHttpHeaders[];
+  close(): Promise<void>;
+}
+
+// Local stand-in for the web: serves fixture responses by path on a random loopback port, 404 for anything else.
+// Downloads from it need PDF_DOWNLOAD_ALLOWED_HOSTS=127.0.0.1, which the test setup sets.
+export async function startPdfServer(routes: Record<string, FixtureResponse>): Promise<PdfServer> {
+  const requests: string[] = [];
+  const requestHeaders: IncomingHttpHeaders[] = [];
+  const server = createServer((request, response) => {
+    const path = request.url ?? '/';
+    requests.push(path);
+    requestHeaders.push(request.headers);
+    const route = routes[path];
+    if (!route) {
+      response.writeHead(404, { 'content-type': 'text/plain' }).end('Not found');
+      return;
+    }
+    const body = typeof route.body === 'string' ? Buffer.from(route.body) : route.body;
+    response
+      .writeHead(route.status ?? 200, {
+        'content-type': route.contentType ?? 'application/pdf',
+        'content-length': body.length,
+        ...route.headers,
+      })
+      .end(body);
+  });
+
+  await new Promise<void>(resolve => server.listen(0, '127.0.0.1', resolve));
+  const { port } = server.address() as AddressInfo;
+
+  return {
+    url: path => `http://127.0.0.1:${port}${path}`,
+    requests,
+    requestHeaders,
+    close: () => new Promise<void>((resolve, reject) => server.close(error => (error ? reject(error) : resolve()))),
+  };
+}
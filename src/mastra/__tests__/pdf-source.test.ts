@@ -0,0 +1,96 @@
+import { afterAll, afterEach, beforeAll, describe, expect, it, vi } from 'vitest';
+import { mkdir, mkdtemp, rm, symlink, writeFile } from 'node:fs/promises';
+import { tmpdir } from 'node:os';
+import path from 'node:path';
+import { PdfDownloadError } from '../lib/download';
+import { listPdfFilesInFolder, loadPdfSource } from '../lib/pdf-source';
+import { samplePdf } from './fixtures';
+
+let dir: string;
+let root: string;
+
+beforeAll(async () => {
+  dir = await mkdtemp(path.join(tmpdir(), 'pdf-source-'));
+  root = path.join(dir, 'root');
+  await mkdir(root);
+  await writeFile(path.join(root, 'inside.pdf'), samplePdf);
+  await mkdir(path.join(root, 'notes'));
+  await writeFile(path.join(root, 'notes', '..notes.pdf'), samplePdf);
+  await writeFile(path.join(dir, 'outside.pdf'), samplePdf);
+  await symlink(path.join(dir, 'outside.pdf'), path.join(root, 'link.pdf'));
+  await symlink(dir, path.join(root, 'parent'));
+});
+
+afterAll(async () => {
+  await rm(dir, { recursive: true, force: true });
+});
+
+afterEach(() => {
+  vi.unstubAllEnvs();
+});
+
+describe('file sources', () => {
+  it('are refused unless PDF_FILE_ROOT is set', async () => {
+    vi.stubEnv('PDF_FILE_ROOT', '');
+
+    await expect(loadPdfSource({ type: 'file', path: path.join(root, 'inside.pdf') })).rejects.toThrow(
+      'Local file sources are disabled',
+    );
+    await expect(listPdfFilesInFolder(root)).rejects.toThrow('Local file sources are disabled');
+  });
+
+  it('read files inside the root', async () => {
+    vi.stubEnv('PDF_FILE_ROOT', root);
+
+    const buffer = await loadPdfSource({ type: 'file', path: path.join(root, 'inside.pdf') });
+
+    expect(buffer.equals(samplePdf)).toBe(true);
+  });
+
+  it('resolve relative paths from the root and accept names that start with two dots', async () => {
+    vi.stubEnv('PDF_FILE_ROOT', root);
+
+    const buffers = await Promise.all(
+      ['inside.pdf', path.join('notes', '..notes.pdf')].map(sourcePath =>
+        loadPdfSource({ type: 'file', path: sourcePath }),
+      ),
+    );
+
+    expect(buffers.every(buffer => buffer.equals(samplePdf))).toBe(true);
+    await expect(loadPdfSource({ type: 'file', path: path.join('..', 'outside.pdf') })).rejects.toThrow(
+      'outside the allowed directory',
+    );
+  });
+
+  it('refuse files over the size limit', async () => {
+    vi.stubEnv('PDF_FILE_ROOT', root);
+    vi.stubEnv('PDF_MAX_BYTES', String(samplePdf.length - 1));
+
+    const error = await loadPdfSource({ type: 'file', path: 'inside.pdf' }).catch(caught => caught);
+
+    expect(error).toBeInstanceOf(PdfDownloadError);
+    expect(error.code).toBe('TOO_LARGE');
+  });
+
+  it('refuse paths that leave the root, directly or through a symlink', async () => {
+    vi.stubEnv('PDF_FILE_ROOT', root);
+
+    for (const sourcePath of [
+      path.join(dir, 'outside.pdf'),
+      path.join(root, '..', 'outside.pdf'),
+      path.join(root, 'link.pdf'),
+      path.join(root, 'parent', 'outside.pdf'),
+    ]) {
+      await expect(loadPdfSource({ type: 'file', path: sourcePath })).rejects.toThrow('outside the allowed directory');
+    }
+    await expect(listPdfFilesInFolder(path.join(root, 'parent'))).rejects.toThrow('outside the allowed directory');
+  });
+
+  it('list the regular PDF files of a folder inside the root', async () => {
+    vi.stubEnv('PDF_FILE_ROOT', root);
+
+    const sources = await listPdfFilesInFolder(root);
+
+    expect(sources.map(source => (source.type === 'file' ? path.basename(source.path) : null))).toEqual(['inside.pdf']);
+  });
+});
@@ -0,0 +1,87 @@
+import { describe, expect, it } from 'vitest';
+import { randomUUID } from 'node:crypto';
+import {
+  addQuestionsToBank,
+  getBankQuestionHistory,
+  getBankQuestions,
+  searchQuestionBank,
+  updateBankQuestion,
+} from '../lib/question-bank';
+import { createLocalEmbedder } from '../lib/embedder';
+import { sampleQuestions } from './fixtures';
+
+const embedder = createLocalEmbedder();
+
+// The bank lives in the shared test database, so each test saves its questions under tenants of its own
+function tenantIds() {
+  const id = randomUUID();
+  return [`acme-${id}`, `globex-${id}`];
+}
+
+describe('question bank', () => {
+  it('keeps tenants to their own questions', async () => {
+    const [acme, globex] = tenantIds();
+    const { added } = await addQuestionsToBank(embedder, {
+      tenantId: acme,
+      documentHash: 'energy-in-cells',
+      questions: sampleQuestions,
+      tags: ['Biology'],
+    });
+    const ids = added.map(entry => entry.id);
+
+    expect(await getBankQuestions(ids, acme)).toHaveLength(3);
+    expect(await getBankQuestions(ids, globex)).toEqual([]);
+    expect(await getBankQuestions(ids)).toEqual([]);
+    expect(await searchQuestionBank(embedder, { tenantId: globex, topic: 'photosynthesis' })).toEqual([]);
+    expect(await searchQuestionBank(embedder, { tenantId: globex, tags: ['biology'] })).toEqual([]);
+    expect(await getBankQuestionHistory(ids[0], globex)).toEqual([]);
+    await expect(updateBankQuestion(embedder, ids[0], { tags: ['taken'] }, globex)).rejects.toThrow(
+      'is not in the bank',
+    );
+
+    const [found] = await searchQuestionBank(embedder, { tenantId: acme, topic: 'where photosynthesis happens' });
+    expect(found.question.stem).toBe(sampleQuestions[0].stem);
+    expect(found.tags).toEqual(['biology']);
+  });
+
+  it('finds duplicates only among the questions of the same tenant', async () => {
+    const [acme, globex] = tenantIds();
+    const first = await addQuestionsToBank(embedder, { tenantId: acme, documentHash: 'a', questions: sampleQuestions });
+    const again = await addQuestionsToBank(embedder, { tenantId: acme, documentHash: 'a', questions: sampleQuestions });
+    const other = await addQuestionsToBank(embedder, {
+      tenantId: globex,
+      documentHash: 'a',
+      questions: sampleQuestions,
+    });
+
+    expect(again.added).toEqual([]);
+    expect(again.questionIds).toEqual(first.questionIds);
+    expect(other.added).toHaveLength(3);
+    expect(other.questionIds).not.toContain(first.questionIds[0]);
+  });
+
+  it('refuses edits that break a multiple choice question and keeps every version', async () => {
+    const [acme] = tenantIds();
+    const {
+      added: [entry],
+    } = await addQuestionsToBank(embedder, { tenantId: acme, documentHash: 'a', questions: [sampleQuestions[0]] });
+
+    await expect(
+      updateBankQuestion(embedder, entry.id, { edits: { correctAnswer: 'Ribosomes' } }, acme),
+    ).rejects.toThrow('must be one of its options');
+
+    const updated = await updateBankQuestion(
+      embedder,
+      entry.id,
+      { edits: { stem: 'In which organelle does photosynthesis happen?' }, editedBy: 'teacher', note: 'Clearer' },
+      acme,
+    );
+    const history = await getBankQuestionHistory(entry.id, acme);
+
+    expect(updated.version).toBe(2);
+    expect(history.map(version => [version.version, version.question.stem, version.editedBy, version.note])).toEqual([
+      [1, sampleQuestions[0].stem, null, 'created'],
+      [2, 'In which organelle does photosynthesis happen?', 'teacher', 'Clearer'],
+    ]);
+  });
+});
@@ -0,0 +1,109 @@
+import { describe, expect, it } from 'vitest';
+import { randomUUID } from 'node:crypto';
+import { RequestContext } from '@mastra/core/di';
+import { gradeMultipleChoice, nextDifficulty, pickNextQuestion, type QuizSession } from '../lib/quiz';
+import { addQuestionsToBank } from '../lib/question-bank';
+import { createLocalEmbedder } from '../lib/embedder';
+import { TENANT_ID_KEY } from '../lib/tenants';
+import { callTool } from '../lib/tool-call';
+import { startQuizTool } from '../tools/start-quiz-tool';
+import { nextQuizQuestionTool } from '../tools/next-quiz-question-tool';
+import { submitQuizAnswerTool } from '../tools/submit-quiz-answer-tool';
+import { sampleQuestions } from './fixtures';
+
+const [multipleChoice] = sampleQuestions;
+
+// What an agent passes to the tools it calls in a memory thread
+function agentContext(threadId: string, tenantId?: string) {
+  const requestContext = new RequestContext();
+  if (tenantId) {
+    requestContext.set(TENANT_ID_KEY, tenantId);
+  }
+  return {
+    agent: { agentId: 'quizAgent', toolCallId: randomUUID(), messages: [], suspend: async () => {}, threadId },
+    requestContext,
+  };
+}
+
+describe('gradeMultipleChoice', () => {
+  it('accepts the correct option by text or by letter', () => {
+    expect(gradeMultipleChoice(multipleChoice, ' chloroplasts. ').verdict).toBe('correct');
+    expect(gradeMultipleChoice(multipleChoice, 'A').verdict).toBe('correct');
+    expect(gradeMultipleChoice(multipleChoice, '(a)').verdict).toBe('correct');
+    expect(gradeMultipleChoice(multipleChoice, 'b').verdict).toBe('incorrect');
+  });
+
+  it('does not treat a letter past the last option as a choice', () => {
+    expect(gradeMultipleChoice(multipleChoice, 'd')).toMatchObject({ score: 0, verdict: 'incorrect' });
+  });
+});
+
+describe('adaptive difficulty', () => {
+  const correct = gradeMultipleChoice(multipleChoice, 'Chloroplasts');
+  const incorrect = gradeMultipleChoice(multipleChoice, 'Nucleus');
+
+  it('stays within the difficulty range', () => {
+    expect(nextDifficulty('hard', correct)).toBe('hard');
+    expect(nextDifficulty('easy', incorrect)).toBe('easy');
+    expect(nextDifficulty('medium', correct)).toBe('hard');
+  });
+
+  it('never picks a question that was already answered', () => {
+    const session: QuizSession = {
+      threadId: 'thread',
+      questions: sampleQuestions.map(question => ({ ...question, topic: question.section! })),
+      answers: [{ index: 1, answer: 'Oxygen', grade: correct }],
+      currentIndex: null,
+      difficulty: 'medium',
+      startedAt: 0,
+    };
+
+    expect(pickNextQuestion(session)).not.toBe(1);
+    expect(
+      pickNextQuestion({
+        ...session,
+        answers: [0, 1, 2].map(index => ({ index, answer: '', grade: incorrect })),
+      }),
+    ).toBeNull();
+  });
+});
+
+describe('quiz tools', () => {
+  it('keep the answer key out of the question and grade in the thread that started the quiz', async () => {
+    const threadId = randomUUID();
+    await callTool(startQuizTool, { questions: [multipleChoice] }, agentContext(threadId));
+
+    const next = await callTool(nextQuizQuestionTool, {}, agentContext(threadId));
+    expect(next).toMatchObject({ finished: false, question: { stem: multipleChoice.stem } });
+    expect(JSON.stringify(next)).not.toContain(multipleChoice.referenceAnswer);
+    expect(next).not.toHaveProperty('question.correctAnswer');
+
+    await expect(callTool(submitQuizAnswerTool, { answer: 'a' }, agentContext(randomUUID()))).rejects.toThrow(
+      'No quiz in progress',
+    );
+
+    const submitted = await callTool(submitQuizAnswerTool, { answer: 'a' }, agentContext(threadId));
+    expect(submitted).toMatchObject({ grade: { verdict: 'correct' }, progress: { answered: 1, finished: true } });
+
+    // The answered question cannot be graded twice
+    await expect(callTool(submitQuizAnswerTool, { answer: 'a' }, agentContext(threadId))).rejects.toThrow(
+      'No question is waiting for an answer',
+    );
+  });
+
+  it('only start quizzes from bank questions of the same tenant', async () => {
+    const tenantId = `quiz-${randomUUID()}`;
+    const { questionIds } = await addQuestionsToBank(createLocalEmbedder(), {
+      tenantId,
+      documentHash: 'energy-in-cells',
+      questions: sampleQuestions,
+    });
+
+    await expect(
+      callTool(startQuizTool, { bankQuestionIds: questionIds }, agentContext(randomUUID(), 'another-tenant')),
+    ).rejects.toThrow('Not in the question bank');
+    await expect(
+      callTool(startQuizTool, { bankQuestionIds: questionIds }, agentContext(randomUUID(), tenantId)),
+    ).resolves.toMatchObject({ totalQuestions: 3 });
+  });
+});
@@ -0,0 +1,182 @@
+import { describe, expect, it } from 'vitest';
+import { randomUUID } from 'node:crypto';
+import { applyReviewDecisions, createReviewDraft, validateReviewDecisions } from '../lib/review';
+import { getReviewRecords, saveReviewRecords } from '../lib/review-store';
+import { sampleQuestions } from './fixtures';
+
+const draft = createReviewDraft(sampleQuestions, []);
+const decidedAt = new Date('2026-01-05T10:00:00Z');
+
+describe('validateReviewDecisions', () => {
+  it('accepts decisions for questions in the draft', () => {
+    expect(
+      validateReviewDecisions(draft, [
+        {
+          index: 0,
+          action: 'edit',
+          edits: { options: ['Chloroplasts', 'Ribosomes'] },
+        },
+        { index: 1, action: 'reject' },
+        { index: 2, action: 'regenerate', comment: 'Too broad' },
+      ]),
+    ).toEqual([]);
+  });
+
+  it('rejects indexes outside the draft', () => {
+    const errors = validateReviewDecisions(draft, [
+      { index: 3, action: 'approve' },
+      { index: -1, action: 'reject' },
+      { index: 0.5, action: 'reject' },
+    ]);
+
+    expect(errors).toEqual([
+      'Question 3: no such question in the draft (0-2)',
+      'Question -1: no such question in the draft (0-2)',
+      'Question 0.5: no such question in the draft (0-2)',
+    ]);
+  });
+
+  it('rejects conflicting decisions and edits that break a question', () => {
+    const errors = validateReviewDecisions(draft, [
+      { index: 0, action: 'approve' },
+      { index: 0, action: 'reject' },
+      { index: 1, action: 'edit' },
+      {
+        index: 2,
+        action: 'edit',
+        edits: { type: 'multiple_choice', options: ['Oxygen', 'Water'] },
+      },
+    ]);
+
+    expect(errors).toEqual([
+      'Question 0: more than one decision',
+      'Question 1: edit needs `edits`',
+      'Question 2: the correct answer must be one of the options',
+    ]);
+  });
+
+  it('rejects a multiple choice question left with fewer than two options', () => {
+    expect(
+      validateReviewDecisions(draft, [
+        {
+          index: 0,
+          action: 'edit',
+          edits: { options: ['Chloroplasts'], correctAnswer: 'Chloroplasts' },
+        },
+      ]),
+    ).toEqual(['Question 0: a multiple choice question needs at least two options']);
+  });
+});
+
+describe('applyReviewDecisions', () => {
+  it('records every decision with the reviewer and keeps regenerate requests in place', () => {
+    const outcome = applyReviewDecisions(
+      draft,
+      {
+        reviewer: 'teacher@example.edu',
+        decisions: [
+          { index: 0, action: 'reject', comment: 'Too easy' },
+          { index: 2, action: 'regenerate', comment: 'Too broad' },
+        ],
+      },
+      decidedAt,
+    );
+
+    expect(outcome.questions.map(question => question.stem)).toEqual([
+      sampleQuestions[1].stem,
+      sampleQuestions[2].stem,
+    ]);
+    expect(outcome.questions[0].pending).toBe(false);
+    // Positions refer to the surviving questions, after the rejected one is dropped
+    expect(outcome.regenerate).toEqual([{ index: 1, comment: 'Too broad' }]);
+    expect(outcome.records).toEqual([
+      {
+        round: 1,
+        reviewer: 'teacher@example.edu',
+        action: 'reject',
+        stem: sampleQuestions[0].stem,
+        comment: 'Too easy',
+        decidedAt: '2026-01-05T10:00:00.000Z',
+      },
+      {
+        round: 1,
+        reviewer: 'teacher@example.edu',
+        action: 'approve',
+        stem: sampleQuestions[1].stem,
+        decidedAt: '2026-01-05T10:00:00.000Z',
+      },
+      {
+        round: 1,
+        reviewer: 'teacher@example.edu',
+        action: 'regenerate',
+        stem: sampleQuestions[2].stem,
+        comment: 'Too broad',
+        decidedAt: '2026-01-05T10:00:00.000Z',
+      },
+    ]);
+  });
+
+  it('applies edits and clears the options of questions edited into another type', () => {
+    const outcome = applyReviewDecisions(
+      draft,
+      {
+        reviewer: 'teacher@example.edu',
+        decisions: [
+          {
+            index: 0,
+            action: 'edit',
+            edits: { type: 'short_answer', stem: 'Name the organelle.' },
+          },
+        ],
+      },
+      decidedAt,
+    );
+
+    expect(outcome.questions[0]).toMatchObject({
+      type: 'short_answer',
+      stem: 'Name the organelle.',
+      options: [],
+      correctAnswer: 'Chloroplasts',
+      pending: false,
+    });
+  });
+
+  it('leaves questions approved in an earlier round alone', () => {
+    const reviewed = {
+      ...draft,
+      round: 2,
+      questions: draft.questions.map((question, index) => ({
+        ...question,
+        pending: index === 2,
+      })),
+    };
+
+    const outcome = applyReviewDecisions(reviewed, { reviewer: 'teacher@example.edu', decisions: [] }, decidedAt);
+
+    expect(outcome.questions).toHaveLength(3);
+    expect(outcome.records).toEqual([
+      expect.objectContaining({
+        round: 2,
+        action: 'approve',
+        stem: sampleQuestions[2].stem,
+      }),
+    ]);
+  });
+});
+
+describe('review records', () => {
+  it('keep the tenant that submitted each decision next to the reviewer it named', async () => {
+    const { records } = applyReviewDecisions(
+      draft,
+      { reviewer: 'teacher@example.edu', decisions: [{ index: 0, action: 'reject' }] },
+      decidedAt,
+    );
+    const [tenantRun, openRun] = [randomUUID(), randomUUID()];
+
+    await saveReviewRecords(tenantRun, records, 'acme');
+    await saveReviewRecords(openRun, records);
+
+    expect(await getReviewRecords(tenantRun)).toEqual(records.map(record => ({ ...record, tenantId: 'acme' })));
+    expect(await getReviewRecords(openRun)).toEqual(records);
+  });
+});
@@ -0,0 +1,84 @@
+import { describe, expect, it } from 'vitest';
+import type { LayoutBlock, LayoutDocument } from '../lib/layout';
+import { MIN_SECTION_CHARS, allocateSectionQuotas, splitIntoSections, type DocumentSection } from '../lib/sections';
+
+const body = 'Cells turn nutrients into energy. '.repeat(12).trim();
+
+function heading(text: string): LayoutBlock {
+  return { type: 'heading', level: 1, text, lines: [] };
+}
+
+function paragraph(text: string): LayoutBlock {
+  return { type: 'paragraph', text, lines: [] };
+}
+
+function layout(pages: LayoutBlock[][]): LayoutDocument {
+  return {
+    bodyFontSize: 11,
+    pages: pages.map((blocks, index) => ({ pageNumber: index + 1, width: 612, height: 792, columnCount: 1, blocks })),
+  };
+}
+
+function section(characterCount: number): DocumentSection {
+  return { title: 'Section', startPage: 1, endPage: 1, pages: [], characterCount };
+}
+
+describe('splitIntoSections', () => {
+  const document = layout([
+    [paragraph('Lecture notes'), heading('Photosynthesis'), paragraph(body)],
+    [heading('Respiration'), paragraph(body)],
+  ]);
+
+  it('splits at the headings and keeps the text before the first one', () => {
+    const { source, sections } = splitIntoSections(document);
+
+    expect(source).toBe('headings');
+    expect(sections.map(({ title, startPage, endPage }) => [title, startPage, endPage])).toEqual([
+      ['Front matter', 1, 1],
+      ['Photosynthesis', 1, 1],
+      ['Respiration', 2, 2],
+    ]);
+  });
+
+  it('ignores bookmarks that point nowhere or past the last page', () => {
+    const { source, sections } = splitIntoSections(document, [
+      { title: 'Website', page: null, url: 'https://example.com', items: [] },
+      { title: 'Photosynthesis', page: 1, url: null, items: [] },
+      { title: 'Respiration', page: 2, url: null, items: [] },
+      { title: 'Appendix', page: 99, url: null, items: [] },
+    ]);
+
+    expect(source).toBe('outline');
+    expect(sections.map(({ title }) => title)).toEqual(['Front matter', 'Photosynthesis', 'Respiration']);
+    expect(sections.flatMap(({ pages }) => pages).map(({ text }) => text)).toEqual([
+      'Lecture notes',
+      `Photosynthesis\n${body}`,
+      `Respiration\n${body}`,
+    ]);
+  });
+
+  it('returns no sections for a document without text', () => {
+    expect(splitIntoSections(layout([[], []]))).toEqual({ source: 'pages', sections: [] });
+  });
+});
+
+describe('allocateSectionQuotas', () => {
+  it('never hands out more questions than requested or allowed per section', () => {
+    const sections = [section(6000), section(3000), section(MIN_SECTION_CHARS - 1), section(1500)];
+
+    const quotas = allocateSectionQuotas(sections, 10, 4);
+
+    expect(quotas).toEqual([4, 4, 0, 2]);
+    expect(allocateSectionQuotas(sections, 100, 2)).toEqual([2, 2, 0, 2]);
+  });
+
+  it('gives the longest sections one question each when there are too few to go round', () => {
+    expect(allocateSectionQuotas([section(400), section(2000), section(900)], 2)).toEqual([0, 1, 1]);
+  });
+
+  it('hands out nothing for budgets that are not positive', () => {
+    expect(allocateSectionQuotas([section(2000)], 0)).toEqual([0]);
+    expect(allocateSectionQuotas([section(2000)], -3)).toEqual([0]);
+    expect(allocateSectionQuotas([section(2000)], 3, 0)).toEqual([0]);
+  });
+});
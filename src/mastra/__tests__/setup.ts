@@ -0,0 +1,12 @@
+import { beforeEach } from 'vitest';
+import { registerModel } from '../lib/model';
+import { createScriptedModel } from './mock-model';
+
+// Every agent and the quality judge resolve MODEL (set in vitest.config.ts) to this model
+export const testModel = createScriptedModel();
+
+registerModel(process.env.MODEL!, testModel.model);
+
+beforeEach(() => {
+  testModel.reset();
+});
@@ -0,0 +1,29 @@
+import { describe, expect, it } from 'vitest';
+import { splitTextIntoChunks } from '../lib/summarize';
+import { pdfFetcherTool } from '../tools/download-pdf-tool';
+import { callTool } from '../lib/tool-call';
+
+describe('splitTextIntoChunks', () => {
+  it('keeps pages together and splits oversized pages on sentence boundaries', () => {
+    const long = 'One sentence here. '.repeat(20).trim();
+    const chunks = splitTextIntoChunks(`Short page.\n\n${long}`, 20);
+
+    expect(chunks[0]).toBe('Short page.');
+    expect(chunks.slice(1).every(chunk => chunk.length <= 80)).toBe(true);
+    expect(chunks.slice(1).join(' ')).toBe(long);
+  });
+
+  it('rejects a budget that could never advance through the text', () => {
+    expect(() => splitTextIntoChunks('Some text.', 0)).toThrow(RangeError);
+    expect(() => splitTextIntoChunks('Some text.', -5)).toThrow(RangeError);
+  });
+
+  it('rejects invalid budgets in the tool input before loading the PDF', async () => {
+    const source = { type: 'base64' as const, data: 'JVBERi0=' };
+
+    for (const input of [{ maxChunkTokens: 0 }, { maxChunkTokens: 1.5 }, { concurrency: -1 }]) {
+      const result = await callTool(pdfFetcherTool, { source, ...input }, {});
+      expect(result).toMatchObject({ error: true, message: expect.stringContaining('validation failed') });
+    }
+  });
+});
@@ -0,0 +1,298 @@
+import { afterEach, describe, expect, it, vi } from 'vitest';
+import { Mastra } from '@mastra/core/mastra';
+import { RequestContext } from '@mastra/core/di';
+import { InMemoryStore } from '@mastra/core/storage';
+import { comparePdfVersionsWorkflow } from '../workflows/compare-pdf-versions-workflow';
+import { textQuestionAgent } from '../agents/text-question-agent';
+import { loadAndExtractPdf } from '../lib/extraction';
+import { listJobs } from '../lib/jobs';
+import { evaluateQuestionQuality } from '../lib/question-quality';
+import { callTool } from '../lib/tool-call';
+import { startQuizTool } from '../tools/start-quiz-tool';
+import { nextQuizQuestionTool } from '../tools/next-quiz-question-tool';
+import { submitQuizAnswerTool } from '../tools/submit-quiz-answer-tool';
+import { ingestDocument, listThreadDocuments, searchDocuments } from '../lib/rag';
+import { createLocalEmbedder } from '../lib/embedder';
+import { tenantAuthMiddleware } from '../middleware/tenant-auth-middleware';
+import { QuotaExceededError, TENANT_ID_KEY, findTenantByApiKey, getQuotaStatus } from '../lib/tenants';
+import { samplePdf, sampleQuestions } from './fixtures';
+import { testModel } from './setup';
+
+afterEach(() => {
+  vi.unstubAllEnvs();
+});
+
+// Usage is stored per tenant and day in the shared test database, so each test uses tenants of its own
+let created = 0;
+function configureTenants(...tenants: { maxPagesPerDay?: number; maxTokensPerDay?: number }[]) {
+  created += 1;
+  const configs = tenants.map((limits, index) => ({
+    id: `tenant-${created}-${index}`,
+    apiKeys: [`key-${created}-${index}-0123456789abcdef`],
+    ...limits,
+  }));
+  vi.stubEnv('TENANTS', JSON.stringify(configs));
+  return configs;
+}
+
+function contextFor(tenantId: string) {
+  const requestContext = new RequestContext();
+  requestContext.set(TENANT_ID_KEY, tenantId);
+  return requestContext;
+}
+
+const sampleSource = { type: 'base64' as const, data: samplePdf.toString('base64') };
+
+describe('tenants', () => {
+  it('identifies the tenant by any of its API keys', () => {
+    vi.stubEnv(
+      'TENANTS',
+      JSON.stringify([
+        { id: 'acme', apiKeys: ['acme-old-key-0123456789', 'acme-new-key-0123456789'] },
+        { id: 'globex', apiKeys: ['globex-key-0123456789'] },
+      ]),
+    );
+
+    expect(findTenantByApiKey('acme-old-key-0123456789')?.id).toBe('acme');
+    expect(findTenantByApiKey('acme-new-key-0123456789')?.id).toBe('acme');
+    expect(findTenantByApiKey('globex-key-0123456789')?.id).toBe('globex');
+    expect(findTenantByApiKey('unknown-key-0123456789')).toBeNull();
+  });
+
+  it('refuses to run on an invalid tenant configuration', () => {
+    vi.stubEnv('TENANTS', '[{"id": "acme", "apiKeys": []}]');
+
+    expect(() => findTenantByApiKey('any-key-0123456789abcdef')).toThrow();
+  });
+
+  it('counts pages against the daily quota and keeps caches apart', async () => {
+    const [acme, globex] = configureTenants({ maxPagesPerDay: 3 }, {});
+
+    const first = await loadAndExtractPdf(sampleSource, 'read-write', undefined, acme.id);
+    const error = await loadAndExtractPdf(sampleSource, 'read-write', undefined, acme.id).catch(caught => caught);
+    const other = await loadAndExtractPdf(sampleSource, 'read-write', undefined, globex.id);
+
+    expect(first.extraction.pagesCount).toBe(2);
+    expect(error).toBeInstanceOf(QuotaExceededError);
+    expect(error).toMatchObject({ quota: 'pages', used: 2, limit: 3 });
+    expect(await getQuotaStatus(acme.id)).toMatchObject({ pages: { used: 2, limit: 3 } });
+    // The other tenant does not see the first tenant's cached extraction
+    expect(other.extractionHit).toBe(false);
+    expect(await getQuotaStatus(globex.id)).toMatchObject({ pages: { used: 2, limit: null } });
+  });
+
+  it('records tokens per tenant and stops calling the model once the quota is used up', async () => {
+    const [tenant] = configureTenants({ maxTokensPerDay: 1 });
+    testModel.on('Hello', 'Hi');
+
+    const first = await textQuestionAgent.generate('Hello', { requestContext: contextFor(tenant.id) });
+    const second = await textQuestionAgent.generate('Hello', { requestContext: contextFor(tenant.id) });
+
+    expect(first.text).toBe('Hi');
+    expect((await getQuotaStatus(tenant.id)).tokens.used).toBe(first.totalUsage.totalTokens);
+    expect(second.tripwire).toMatchObject({ reason: expect.stringContaining('tokens allowed today') });
+    expect(testModel.prompts).toHaveLength(1);
+  });
+
+  it('charges quality judge calls to the tenant and leaves questions unscored once the quota is used up', async () => {
+    const [tenant] = configureTenants({ maxTokensPerDay: 1 });
+    testModel.on('Review each question below against the source text.', {
+      questions: [
+        {
+          index: 0,
+          answerability: 1,
+          clarity: 1,
+          distractorPlausibility: null,
+          givesAwayAnswer: false,
+          reason: 'OK',
+        },
+      ],
+    });
+    const warn = vi.spyOn(console, 'warn').mockImplementation(() => {});
+    const question = {
+      type: 'short_answer' as const,
+      stem: 'Where does photosynthesis take place?',
+      options: [],
+      correctAnswer: 'In the chloroplasts',
+      referenceAnswer: 'Photosynthesis takes place in the chloroplasts.',
+      citations: [{ page: 1, quote: 'Photosynthesis takes place in the chloroplasts.', verified: true }],
+      bloomLevel: 'remember' as const,
+      difficulty: 'easy' as const,
+    };
+    const evaluate = () =>
+      evaluateQuestionQuality(
+        createMastra(),
+        { sourceText: 'Photosynthesis takes place in the chloroplasts.' },
+        [question],
+        { runId: 'judge-run', entityId: 'evaluate-questions', iteration: 0, tenantId: tenant.id },
+      );
+
+    const [first] = await evaluate();
+    const [second] = await evaluate();
+
+    expect(first?.overall).toBeGreaterThan(0);
+    expect((await getQuotaStatus(tenant.id)).tokens.used).toBeGreaterThan(0);
+    expect(second).toBeNull();
+    expect(testModel.prompts).toHaveLength(1);
+    expect(warn).toHaveBeenCalledWith(expect.stringContaining('unscored'), expect.stringContaining('tokens allowed'));
+    warn.mockRestore();
+  });
+});
+
+function createMastra() {
+  return new Mastra({
+    workflows: { comparePdfVersionsWorkflow },
+    agents: { textQuestionAgent },
+    storage: new InMemoryStore(),
+    logger: false,
+  });
+}
+
+// Starts a run that compares a document with itself, which needs no model calls
+async function startRun(mastra: Mastra, tenantId: string, resourceId: string | undefined = tenantId) {
+  const run = await mastra.getWorkflow('comparePdfVersionsWorkflow').createRun({ resourceId });
+  await run.start({
+    inputData: { previousSource: sampleSource, revisedSource: sampleSource },
+    requestContext: contextFor(tenantId),
+  });
+  return run;
+}
+
+describe('ingested documents', () => {
+  it('are only found by the tenant that ingested them, even in a thread with the same id', async () => {
+    const [acme, globex] = configureTenants({}, {});
+    const embedder = createLocalEmbedder();
+    const { contentHash, extraction } = await loadAndExtractPdf(sampleSource, 'bypass');
+    const threadId = `shared-thread-${acme.id}`;
+
+    await ingestDocument(embedder, {
+      threadId,
+      tenantId: acme.id,
+      documentId: contentHash,
+      source: 'sample.pdf',
+      document: extraction.document,
+    });
+    const query = 'Where does photosynthesis take place?';
+
+    expect(await listThreadDocuments(threadId, acme.id)).toHaveLength(1);
+    expect((await searchDocuments(embedder, { threadId, tenantId: acme.id, query })).length).toBeGreaterThan(0);
+    expect(await listThreadDocuments(threadId, globex.id)).toEqual([]);
+    expect(await listThreadDocuments(threadId)).toEqual([]);
+    expect(await searchDocuments(embedder, { threadId, tenantId: globex.id, query })).toEqual([]);
+  });
+});
+
+describe('quiz sessions', () => {
+  it('are only found by the tenant that started them, even in a thread with the same id', async () => {
+    const [acme, globex] = configureTenants({}, {});
+    const threadId = `shared-quiz-${acme.id}`;
+    const toolContext = (tenantId: string) => ({
+      agent: { agentId: 'quizAgent', toolCallId: 'call', messages: [], suspend: async () => {}, threadId },
+      requestContext: contextFor(tenantId),
+    });
+
+    await callTool(startQuizTool, { questions: [sampleQuestions[0]] }, toolContext(acme.id));
+
+    await expect(callTool(nextQuizQuestionTool, {}, toolContext(globex.id))).rejects.toThrow('No quiz in progress');
+    await expect(callTool(submitQuizAnswerTool, { answer: 'a' }, toolContext(globex.id))).rejects.toThrow(
+      'No quiz in progress',
+    );
+    // Starting a quiz in the same thread does not replace the other tenant's quiz
+    await expect(callTool(startQuizTool, { questions: [sampleQuestions[1]] }, toolContext(globex.id))).rejects.toThrow(
+      'already in use',
+    );
+    expect(await callTool(nextQuizQuestionTool, {}, toolContext(acme.id))).toMatchObject({
+      question: { stem: sampleQuestions[0].stem },
+    });
+  });
+});
+
+describe('listJobs', () => {
+  it("lists only the tenant's own runs with their results", async () => {
+    const mastra = createMastra();
+    const [acme, globex] = configureTenants({}, {});
+
+    const acmeRun = await startRun(mastra, acme.id);
+    await startRun(mastra, globex.id);
+
+    const { jobs, total } = await listJobs(mastra, acme.id);
+
+    expect(total).toBe(1);
+    expect(jobs).toEqual([
+      expect.objectContaining({
+        workflowId: 'comparePdfVersionsWorkflow',
+        runId: acmeRun.runId,
+        status: 'success',
+        result: expect.objectContaining({ success: true, questions: [] }),
+        error: null,
+      }),
+    ]);
+    expect((await listJobs(mastra, undefined)).total).toBe(2);
+    expect(await listJobs(mastra, undefined, { limit: 1, offset: 1 })).toMatchObject({
+      total: 2,
+      jobs: [{ runId: acmeRun.runId }],
+    });
+  });
+});
+
+describe('tenantAuthMiddleware', () => {
+  const [{ handler }] = tenantAuthMiddleware;
+
+  // The parts of the Hono context the middleware uses
+  function request(mastra: Mastra, apiKey: string, method: string, url: string) {
+    const { pathname, searchParams } = new URL(url, 'http://localhost');
+    const requestContext = new RequestContext();
+    const context = {
+      req: {
+        method,
+        path: pathname,
+        query: (name: string) => searchParams.get(name) ?? undefined,
+        header: (name: string) => (name === 'x-api-key' ? apiKey : undefined),
+      },
+      json: (body: unknown, status = 200) => Response.json(body, { status }),
+      get: (key: string) => (key === 'mastra' ? mastra : requestContext),
+    };
+    let passed = false;
+    const response = handler(context as never, async () => {
+      passed = true;
+    });
+    return Promise.resolve(response).then(result => (passed ? 'passed' : (result as Response).status));
+  }
+
+  it("keeps tenant keys away from other tenants' runs on Mastra's workflow routes", async () => {
+    const mastra = createMastra();
+    const [acme, globex] = configureTenants({}, {});
+    const [acmeKey, globexKey] = [acme.apiKeys[0], globex.apiKeys[0]];
+    const acmeRun = await startRun(mastra, acme.id);
+    // Stored without a resource id, as runs started before tenants were configured
+    const legacyRun = await startRun(mastra, globex.id, undefined);
+
+    expect(await request(mastra, acmeKey, 'GET', `/api/workflows/compare/runs/${acmeRun.runId}`)).toBe('passed');
+    expect(await request(mastra, globexKey, 'GET', `/api/workflows/compare/runs/${acmeRun.runId}`)).toBe(404);
+    expect(await request(mastra, acmeKey, 'GET', `/api/workflows/compare/runs/${legacyRun.runId}/cancel`)).toBe(404);
+    expect(
+      await request(
+        mastra,
+        globexKey,
+        'GET',
+        `/api/workflows/compare/runs/${encodeURIComponent(acmeRun.runId).replace(/-/g, '%2D')}`,
+      ),
+    ).toBe(404);
+    expect(await request(mastra, globexKey, 'GET', `/api/workflows/compare/runs/${legacyRun.runId}`)).toBe('passed');
+    expect(await request(mastra, globexKey, 'POST', `/api/workflows/compare/resume?runId=${acmeRun.runId}`)).toBe(404);
+    expect(await request(mastra, globexKey, 'POST', '/api/workflows/compare/observe?runId=' + acmeRun.runId)).toBe(404);
+    // A new run id can still be used to start a run
+    expect(await request(mastra, globexKey, 'POST', '/api/workflows/compare/start?runId=fresh-run')).toBe('passed');
+    expect(await request(mastra, acmeKey, 'GET', '/api/workflows/compare/runs')).toBe('passed');
+  });
+
+  it('refuses tenant keys on routes that act on every run', async () => {
+    const mastra = createMastra();
+    const [acme] = configureTenants({});
+
+    expect(await request(mastra, acme.apiKeys[0], 'POST', '/api/workflows/events')).toBe(403);
+    expect(
+      await request(mastra, acme.apiKeys[0], 'POST', '/api/workflows/compare/restart-all-active-workflow-runs-async'),
+    ).toBe(403);
+  });
+});
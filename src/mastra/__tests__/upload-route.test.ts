@@ -0,0 +1,96 @@
+import { describe, expect, it } from 'vitest';
+import { uploadPdfRoute } from '../routes/upload-pdf-route';
+import { samplePdf } from './fixtures';
+
+const handler = (uploadPdfRoute as unknown as { handler: (c: unknown) => Promise<Response> }).handler;
+
+// The parts of the Hono context the upload route uses; the workflow records the input it was started with
+function contextFor(request: Request) {
+  const started: unknown[] = [];
+  const mastra = {
+    getWorkflow: () => ({
+      createRun: async () => ({
+        startAsync: async ({ inputData }: { inputData: unknown }) => {
+          started.push(inputData);
+          return { runId: 'run-1' };
+        },
+      }),
+    }),
+  };
+  return {
+    req: { raw: request, header: (name: string) => request.headers.get(name) ?? undefined },
+    json: (body: unknown, status = 200) => Response.json(body, { status }),
+    get: (key: string) => (key === 'mastra' ? mastra : undefined),
+    started,
+  };
+}
+
+// A body of 1 MB chunks that records how much of it was read
+function largeBody(megabytes: number) {
+  const state = { chunksRead: 0 };
+  const stream = new ReadableStream<Uint8Array>(
+    {
+      pull(controller) {
+        if (state.chunksRead === megabytes) {
+          controller.close();
+          return;
+        }
+        state.chunksRead += 1;
+        controller.enqueue(new Uint8Array(1024 * 1024));
+      },
+    },
+    { highWaterMark: 0 },
+  );
+  return { stream, state };
+}
+
+function upload(body: ReadableStream<Uint8Array>, headers: Record<string, string> = {}) {
+  return new Request('http://localhost/pdf-questions/upload', {
+    method: 'POST',
+    body,
+    headers: { 'content-type': 'multipart/form-data; boundary=x', ...headers },
+    duplex: 'half',
+  } as RequestInit);
+}
+
+describe('uploadPdfRoute', () => {
+  it('starts the workflow on an uploaded PDF', async () => {
+    const form = new FormData();
+    form.append('file', new File([new Uint8Array(samplePdf)], 'energy.pdf', { type: 'application/pdf' }));
+    const context = contextFor(new Request('http://localhost/pdf-questions/upload', { method: 'POST', body: form }));
+
+    const response = await handler(context);
+
+    expect(response.status).toBe(202);
+    expect(await response.json()).toEqual({ runId: 'run-1', workflowId: 'pdfToQuestionsWorkflow' });
+    expect(context.started).toEqual([
+      { source: { type: 'base64', data: samplePdf.toString('base64'), filename: 'energy.pdf' } },
+    ]);
+  });
+
+  it('refuses a declared oversized body without reading it', async () => {
+    const { stream, state } = largeBody(60);
+
+    const response = await handler(contextFor(upload(stream, { 'content-length': String(60 * 1024 * 1024) })));
+
+    expect(response.status).toBe(413);
+    expect(state.chunksRead).toBe(0);
+  });
+
+  it('stops reading an undeclared body once it passes the limit', async () => {
+    const { stream, state } = largeBody(60);
+
+    const response = await handler(contextFor(upload(stream)));
+
+    expect(response.status).toBe(413);
+    expect(state.chunksRead).toBeLessThan(60);
+  });
+
+  it('rejects a body that is not multipart form data', async () => {
+    const request = new Request('http://localhost/pdf-questions/upload', { method: 'POST', body: 'not a form' });
+
+    const response = await handler(contextFor(request));
+
+    expect(response.status).toBe(400);
+  });
+});
@@ -0,0 +1,168 @@
+import { afterAll, beforeAll, describe, expect, it, vi } from 'vitest';
+import { Mastra } from '@mastra/core/mastra';
+import { InMemoryStore } from '@mastra/core/storage';
+import { pdfToQuestionsWorkflow } from '../workflows/generate-questions-from-pdf-workflow';
+import { MAX_QUESTIONS } from '../tools/generate-questions-from-text-tool';
+import { pdfSummarizationAgent } from '../agents/pdf-summarization-agent';
+import { textQuestionAgent } from '../agents/text-question-agent';
+import { startPdfServer, type PdfServer } from './pdf-server';
+import { samplePdf } from './fixtures';
+import { testModel } from './setup';
+
+const mastra = new Mastra({
+  workflows: { pdfToQuestionsWorkflow },
+  agents: { pdfSummarizationAgent, textQuestionAgent },
+  storage: new InMemoryStore(),
+  logger: false,
+});
+
+let server: PdfServer;
+
+beforeAll(async () => {
+  server = await startPdfServer({ '/energy-in-cells.pdf': { body: samplePdf } });
+});
+
+afterAll(async () => {
+  await server.close();
+});
+
+// Rate every question as fully supported, except those whose stem contains one of the weak stems
+function scriptJudge(weakStems: string[] = []) {
+  testModel.on('Review each question below against the source text.', prompt => ({
+    questions: [...prompt.matchAll(/^Question (\d+) \((\w+)\): (.*)$/gm)].map(([, index, type, stem]) => {
+      const weak = weakStems.some(weakStem => stem.includes(weakStem));
+      return {
+        index: Number(index),
+        answerability: weak ? 0.2 : 1,
+        clarity: 1,
+        distractorPlausibility: type === 'multiple_choice' ? 0.8 : null,
+        givesAwayAnswer: false,
+        reason: weak ? 'The source does not say which light chlorophyll absorbs best.' : 'OK',
+      };
+    }),
+  }));
+}
+
+async function runWorkflow(
+  inputData: Parameters<Awaited<ReturnType<typeof pdfToQuestionsWorkflow.createRun>>['start']>[0]['inputData'],
+) {
+  const run = await mastra.getWorkflow('pdfToQuestionsWorkflow').createRun();
+  return run.start({ inputData });
+}
+
+describe('pdfToQuestionsWorkflow', () => {
+  it('turns a PDF into questions, replacing the ones the judge rejects', async () => {
+    testModel.on('Previous questions were rejected', {
+      questions: [
+        {
+          type: 'short_answer',
+          stem: 'What does aerobic respiration require?',
+          options: [],
+          correctAnswer: 'Oxygen',
+          referenceAnswer: 'Aerobic respiration takes place in the mitochondria and requires oxygen.',
+          citations: [{ page: 2, quote: 'Aerobic respiration takes place in the mitochondria and requires oxygen.' }],
+          bloomLevel: 'remember',
+          difficulty: 'medium',
+        },
+      ],
+    });
+    testModel.replay('energy-in-cells');
+    scriptJudge(['absorb best']);
+
+    const result = await runWorkflow({
+      source: { type: 'url', url: server.url('/energy-in-cells.pdf') },
+      maxQuestions: 3,
+      evaluateQuality: true,
+      exportFormats: ['gift'],
+      exportTitle: 'Energy in Cells',
+    });
+
+    expect(result.status).toBe('success');
+    if (result.status !== 'success') {
+      return;
+    }
+    expect(result.result.questions.map(question => question.stem)).toEqual([
+      'Where in plant cells does photosynthesis take place?',
+      'In what form does cellular respiration release the energy stored in glucose?',
+      'What does aerobic respiration require?',
+    ]);
+    expect(result.result).toMatchSnapshot();
+    expect(server.requests).toContain('/energy-in-cells.pdf');
+  });
+
+  it('skips the judge unless quality evaluation is requested', async () => {
+    testModel.replay('energy-in-cells');
+
+    const result = await runWorkflow({
+      source: { type: 'url', url: server.url('/energy-in-cells.pdf') },
+      maxQuestions: 3,
+    });
+
+    expect(result.status).toBe('success');
+    expect(testModel.prompts.some(prompt => prompt.includes('Review each question below'))).toBe(false);
+  });
+
+  it('keeps the questions unscored when the judge fails', async () => {
+    testModel.replay('energy-in-cells');
+    testModel.on('Review each question below against the source text.', new Error('Judge unavailable'));
+    const warn = vi.spyOn(console, 'warn').mockImplementation(() => {});
+
+    const result = await runWorkflow({
+      source: { type: 'url', url: server.url('/energy-in-cells.pdf') },
+      maxQuestions: 3,
+      evaluateQuality: true,
+    });
+
+    expect(result.status).toBe('success');
+    if (result.status !== 'success') {
+      return;
+    }
+    expect(result.result.questions).toHaveLength(3);
+    expect(result.result.evaluation).toMatchObject({
+      rounds: 0,
+      averageScore: null,
+      belowThreshold: 0,
+      unscored: 3,
+      scores: [null, null, null],
+    });
+    expect(warn).toHaveBeenCalledWith(
+      expect.stringContaining('Quality judge failed'),
+      expect.stringContaining('Judge unavailable'),
+    );
+    warn.mockRestore();
+  });
+
+  it('refuses more questions than one request may ask for', async () => {
+    const source = { type: 'url' as const, url: server.url('/energy-in-cells.pdf') };
+
+    await expect(runWorkflow({ source, maxQuestions: MAX_QUESTIONS + 1 })).rejects.toThrow(
+      `maxQuestions: Number must be less than or equal to ${MAX_QUESTIONS}`,
+    );
+    await expect(runWorkflow({ source, questionsPerSection: MAX_QUESTIONS + 1 })).rejects.toThrow(
+      'questionsPerSection',
+    );
+    expect(testModel.prompts).toHaveLength(0);
+  });
+
+  it('reports a download error instead of failing the run', async () => {
+    const result = await runWorkflow({ source: { type: 'url', url: server.url('/missing.pdf') } });
+
+    expect(result.status).toBe('success');
+    if (result.status !== 'success') {
+      return;
+    }
+    expect(result.result).toMatchObject({ success: false, questions: [] });
+    expect(testModel.prompts).toHaveLength(0);
+  });
+
+  it('fails the run when the summarization model fails', async () => {
+    testModel.on('Please provide a comprehensive summary', new Error('Service unavailable'));
+
+    const result = await runWorkflow({
+      source: { type: 'url', url: server.url('/energy-in-cells.pdf') },
+      cacheMode: 'bypass',
+    });
+
+    expect(result.status).toBe('failed');
+  });
+});
@@ -1,41 +1,63 @@
 import { Agent } from '@mastra/core/agent';
+import { resolveModel } from '../lib/model';
+import { tenantQuotaProcessor } from '../processors/tenant-quota-processor';
+import { promptInjectionProcessor } from '../processors/prompt-injection-processor';
+import { piiRedactionProcessor } from '../processors/pii-redaction-processor';
 import { pdfFetcherTool } from '../tools/download-pdf-tool';
 import { generateQuestionsFromTextTool } from '../tools/generate-questions-from-text-tool';
+import { exportQuestionsTool } from '../tools/export-questions-tool';
+import { ingestPdfTool } from '../tools/ingest-pdf-tool';
+import { searchPdfTool } from '../tools/search-pdf-tool';
+import { pdfMetadataTool } from '../tools/pdf-metadata-tool';
+import { saveQuestionsToBankTool } from '../tools/save-questions-to-bank-tool';
+import { searchQuestionBankTool } from '../tools/search-question-bank-tool';
+import { assembleQuizTool } from '../tools/assemble-quiz-tool';
+import { updateBankQuestionTool } from '../tools/update-bank-question-tool';
 import { LibSQLStore } from '@mastra/libsql';
 import { Memory } from '@mastra/memory';
+import { MASTRA_DB_URL } from '../lib/db';
 
 // Initialize memory with LibSQLStore for persistence
 const memory = new Memory({
   storage: new LibSQLStore({
     id: 'pdf-question-agent-storage',
-    url: 'file:../mastra.db', // Or your database URL
+    url: MASTRA_DB_URL,
   }),
 });
 
 export const pdfQuestionAgent = new Agent({
   id: 'pdf-question-agent',
   name: 'Generate questions from PDF agent',
-  description: 'An agent that can download PDFs, generate summaries, and create questions from PDF content',
+  description:
+    'An agent that can download PDFs, generate summaries, create questions from PDF content, answer questions about ingested PDFs, and manage a persistent question bank',
   instructions: `
 You are a PDF processing agent specialized in downloading PDFs, generating AI summaries, and creating educational questions.
 
 **🎯 YOUR CAPABILITIES**
 
-You have access to two powerful tools:
-1. **PDF Fetcher** - Download PDFs from URLs and generate AI summaries
+You have access to ten powerful tools:
+1. **PDF Fetcher** - Load PDFs from URLs, local files or base64 uploads and generate AI summaries
 2. **Question Generator** - Generate comprehensive questions from summarized content
+3. **Question Exporter** - Convert generated questions to QTI 2.1, Moodle GIFT, CSV or Anki files
+4. **PDF Ingester** - Index a PDF so questions about it can be answered in this conversation
+5. **PDF Search** - Retrieve the passages of ingested PDFs most relevant to a question, with page numbers
+6. **PDF Metadata** - Read a PDF's title, author, dates, table of contents, page sizes, links, form fields and language
+7. **Question Bank Saver** - Store generated questions in the persistent question bank, skipping duplicates
+8. **Question Bank Search** - Find stored questions by topic, document, tags, type or difficulty
+9. **Quiz Assembler** - Build a quiz from stored questions with a given type and difficulty mix
+10. **Bank Question Editor** - Edit a stored question while keeping its version history
 
 **📋 WORKFLOW APPROACH**
 
 When processing a PDF request:
 
-1. **Download & Summarize Phase**: Use the PDF fetcher tool to download the PDF from a URL and generate an AI summary
+1. **Download & Summarize Phase**: Use the PDF fetcher tool to load the PDF and generate an AI summary
 2. **Question Generation Phase**: Use the question generator tool to create educational questions from the summary
 
 **🔧 TOOL USAGE GUIDELINES**
 
 **PDF Fetcher Tool:**
-- Provide the PDF URL
+- Provide the PDF source: \`{ type: 'url', url }\` for links, \`{ type: 'file', path }\` for local files, or \`{ type: 'base64', data }\` for uploaded content
 - Returns a comprehensive AI summary along with file metadata
 - Handle download errors gracefully
 - Verify successful download and summarization before proceeding
@@ -45,6 +67,28 @@ When processing a PDF request:
 - Specify maximum number of questions if needed
 - Validate that questions were generated successfully
 
+**Question Exporter Tool:**
+- Only use it when the user asks for a file or names an LMS or flashcard app
+- Pass the questions exactly as the question generator returned them
+- Choose the format: \`qti\` for most LMSs (Canvas, Blackboard), \`gift\` for Moodle, \`csv\` for spreadsheets, \`anki\` for flashcards
+- Return the file contents to the user; QTI produces several files that must be zipped together
+
+**PDF Ingester and PDF Search Tools (chat with the document):**
+- When the user wants to ask about a PDF rather than get questions from it, ingest it once with the PDF ingester
+- Answer questions about ingested PDFs only from passages returned by the PDF search tool, not from the summary or memory
+- Cite the page of every fact you use, e.g. "(p. 3)"; with several documents, name the document too
+- If the search returns nothing relevant, say the documents do not cover it instead of guessing
+
+**PDF Metadata Tool:**
+- Use it when the user asks about the document itself (author, dates, table of contents, length, language, forms) rather than its content
+- Present the outline as an indented table of contents with page numbers
+
+**Question Bank Tools:**
+- Save questions to the bank when the user wants to keep or reuse them; pass the PDF's \`cache.contentHash\` (from the PDF fetcher) or \`documentId\` (from the ingester) as \`documentHash\`, and tag them with the topic or course
+- When the user asks for a quiz on a topic or document, assemble it from the bank first; only generate new questions for the reported \`shortfall\`
+- Report questions skipped as duplicates instead of saving them again
+- Use the bank question editor for corrections to stored questions, with a short note explaining the change
+
 **💡 BEST PRACTICES**
 
 1. **Error Handling**: Always check if each step was successful before proceeding
@@ -63,10 +107,20 @@ When successful, provide:
 
 Always be helpful and provide clear feedback about the process and results.
   `,
-  model: process.env.MODEL || 'openai/gpt-4o',
+  model: resolveModel('assistant'),
   tools: {
     pdfFetcherTool,
     generateQuestionsFromTextTool,
+    exportQuestionsTool,
+    ingestPdfTool,
+    searchPdfTool,
+    pdfMetadataTool,
+    saveQuestionsToBankTool,
+    searchQuestionBankTool,
+    assembleQuizTool,
+    updateBankQuestionTool,
   },
   memory,
+  inputProcessors: [tenantQuotaProcessor, promptInjectionProcessor, piiRedactionProcessor],
+  outputProcessors: [tenantQuotaProcessor],
 });
@@ -1,12 +1,17 @@
 import { Agent } from '@mastra/core/agent';
+import { resolveModel } from '../lib/model';
+import { tenantQuotaProcessor } from '../processors/tenant-quota-processor';
+import { promptInjectionProcessor } from '../processors/prompt-injection-processor';
+import { piiRedactionProcessor } from '../processors/pii-redaction-processor';
 import { LibSQLStore } from '@mastra/libsql';
 import { Memory } from '@mastra/memory';
+import { MASTRA_DB_URL } from '../lib/db';
 
 // Initialize memory with LibSQLStore for persistence
 const memory = new Memory({
   storage: new LibSQLStore({
     id: 'pdf-summarization-agent-storage',
-    url: process.env.MASTRA_DB_URL || 'file:../mastra.db',
+    url: MASTRA_DB_URL,
   }),
 });
 
@@ -89,6 +94,8 @@ Format your summaries with:
 
 Always provide summaries that would allow someone to understand the document's core value without reading the full text.
   `,
-  model: process.env.MODEL || 'openai/gpt-4.1-mini', // Large context window model for summarization
+  model: resolveModel('summarizer'),
   memory,
+  inputProcessors: [tenantQuotaProcessor, promptInjectionProcessor, piiRedactionProcessor],
+  outputProcessors: [tenantQuotaProcessor],
 });
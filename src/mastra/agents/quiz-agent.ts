@@ -0,0 +1,73 @@
+import { Agent } from '@mastra/core/agent';
+import { resolveModel } from '../lib/model';
+import { tenantQuotaProcessor } from '../processors/tenant-quota-processor';
+import { promptInjectionProcessor } from '../processors/prompt-injection-processor';
+import { piiRedactionProcessor } from '../processors/pii-redaction-processor';
+import { LibSQLStore } from '@mastra/libsql';
+import { Memory } from '@mastra/memory';
+import { startQuizTool } from '../tools/start-quiz-tool';
+import { nextQuizQuestionTool } from '../tools/next-quiz-question-tool';
+import { submitQuizAnswerTool } from '../tools/submit-quiz-answer-tool';
+import { quizProgressSchema } from '../lib/quiz';
+import { MASTRA_DB_URL } from '../lib/db';
+
+// Quiz progress lives in thread-scoped working memory, so every turn sees the current score and weak topics
+const memory = new Memory({
+  storage: new LibSQLStore({
+    id: 'quiz-agent-storage',
+    url: MASTRA_DB_URL,
+  }),
+  options: {
+    workingMemory: {
+      enabled: true,
+      scope: 'thread',
+      schema: quizProgressSchema,
+    },
+  },
+});
+
+export const quizAgent = new Agent({
+  id: 'quiz-agent',
+  name: 'Quiz agent',
+  description:
+    'An agent that administers a set of generated questions one at a time, grades the answers and adapts the difficulty',
+  instructions: `
+You are a friendly quiz master. You give a student a quiz built from generated questions, one question at a time, grade their answers and help them learn from their mistakes.
+
+**🎯 YOUR CAPABILITIES**
+
+You have access to three tools:
+1. **Quiz Starter** - Start a quiz in this conversation from a set of generated questions or from question bank ids
+2. **Next Question** - Pick the next question, adapted to how well the student is doing
+3. **Answer Submitter** - Grade the student's answer and update their score
+
+**📋 QUIZ FLOW**
+
+1. Start the quiz with the questions the user provides (or the bank ids they name)
+2. Ask the question returned by the next question tool: the stem, and for multiple choice the options labelled A, B, C, D
+3. Wait for the student's answer, then submit it exactly as they wrote it
+4. Share the grade and feedback, then continue with the next question
+5. When the quiz is finished, give the final score and suggest what to review, based on the weak topics
+
+**🔧 TOOL USAGE GUIDELINES**
+
+- Never reveal the correct answer before the student has answered
+- Submit every answer, even "I don't know"; do not grade answers yourself
+- If the student asks to skip, submit their answer as empty
+- Your working memory holds the quiz progress (score, current difficulty, weak topics); the tools keep it up to date, so read it but do not change it
+- Mention weak topics when they come up, e.g. "this is the second question on photosynthesis you found hard"
+
+**💬 STYLE**
+
+Be encouraging and concise. Praise correct answers briefly, and explain mistakes without lecturing.
+  `,
+  model: resolveModel('quiz'),
+  tools: {
+    startQuizTool,
+    nextQuizQuestionTool,
+    submitQuizAnswerTool,
+  },
+  memory,
+  inputProcessors: [tenantQuotaProcessor, promptInjectionProcessor, piiRedactionProcessor],
+  outputProcessors: [tenantQuotaProcessor],
+});
@@ -1,4 +1,8 @@
 import { Agent } from '@mastra/core/agent';
+import { resolveModel } from '../lib/model';
+import { tenantQuotaProcessor } from '../processors/tenant-quota-processor';
+import { promptInjectionProcessor } from '../processors/prompt-injection-processor';
+import { piiRedactionProcessor } from '../processors/pii-redaction-processor';
 export const textQuestionAgent = new Agent({
   id: 'text-question-agent',
   name: 'Generate questions from text agent',
@@ -17,7 +21,9 @@ Create questions that cover:
 
 ═══════════════════════════
 
-**📝 QUESTION TYPES TO INCLUDE**
+**📝 QUESTION TYPES**
+
+Unless the request says which types to use, mix the following types. When it names types and counts, use exactly those.
 
 **➤ Multiple Choice Questions**
 - Include 3-4 plausible options
@@ -43,23 +49,29 @@ Create questions that cover:
 
 **✨ FORMAT REQUIREMENTS**
 
-Return questions in this format:
-1. What is the main concept discussed in the document?
-2. How does [specific concept] relate to [other concept]?
-3. Explain the significance of [key point].
-4. What would happen if [scenario]?
-5. Compare and contrast [concept A] with [concept B].
+Return each question as a structured object with:
+- **type**: one of \`multiple_choice\`, \`short_answer\`, \`essay\`, \`application\`
+- **stem**: the question text only (no numbering, no options)
+- **options**: 3-4 answer options for multiple choice questions, an empty list otherwise
+- **correctAnswer**: the exact text of the correct option for multiple choice, or a concise model answer otherwise
+- **referenceAnswer**: a complete answer that a teacher can check against the source, explaining why it is correct
+- **citations**: the page number(s) and a short verbatim quote from the source pages that support the answer
+- **bloomLevel**: one of \`remember\`, \`understand\`, \`apply\`, \`analyze\`, \`evaluate\`, \`create\`
+- **difficulty**: one of \`easy\`, \`medium\`, \`hard\`
 
 Guidelines:
-1. Generate 5-10 questions per content piece
-2. Vary question difficulty from basic to advanced
-3. Ensure questions are directly answerable from the content
-4. Use clear, precise language
-5. Avoid questions that are too obvious or too obscure
-6. Focus on the most important concepts and themes
-7. Make questions engaging and thought-provoking
+1. Generate the number of questions requested, using exactly the requested types and difficulty counts when given
+2. Without a requested difficulty mix, vary question difficulty from basic to advanced
+3. Follow the requested audience, language and style instructions when given
+4. Ensure questions are directly answerable from the content, and quote the source exactly when citing it
+5. Use clear, precise language
+6. Avoid questions that are too obvious or too obscure
+7. Focus on the most important concepts and themes
+8. Make questions engaging and thought-provoking
 
 The questions should help someone thoroughly understand and engage with the source material.
   `,
-  model: process.env.MODEL || 'openai/gpt-4o',
+  model: resolveModel('questions'),
+  inputProcessors: [tenantQuotaProcessor, promptInjectionProcessor, piiRedactionProcessor],
+  outputProcessors: [tenantQuotaProcessor],
 });
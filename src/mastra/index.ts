@@ -3,21 +3,51 @@ import { Mastra } from '@mastra/core/mastra';
 import { PinoLogger } from '@mastra/loggers';
 import { LibSQLStore } from '@mastra/libsql';
 import { pdfToQuestionsWorkflow } from './workflows/generate-questions-from-pdf-workflow';
+import { batchPdfToQuestionsWorkflow } from './workflows/batch-generate-questions-workflow';
+import { comparePdfVersionsWorkflow } from './workflows/compare-pdf-versions-workflow';
 import { textQuestionAgent } from './agents/text-question-agent';
 import { pdfQuestionAgent } from './agents/pdf-question-agent';
 import { pdfSummarizationAgent } from './agents/pdf-summarization-agent';
+import { quizAgent } from './agents/quiz-agent';
+import { quizGraderAgent } from './agents/quiz-grader-agent';
+import { uploadPdfRoute } from './routes/upload-pdf-route';
+import { invalidatePdfCacheRoute } from './routes/pdf-cache-route';
+import { questionQualityScorer } from './scorers/question-quality-scorer';
+import { pdfVectorStore } from './lib/rag';
+import { MASTRA_DB_URL } from './lib/db';
+import { reviewRecordsRoute } from './routes/review-route';
+import { bankQuestionRoute } from './routes/question-bank-route';
+import { jobsRoute } from './routes/jobs-route';
+import { tenantUsageRoute } from './routes/tenant-usage-route';
+import { tenantAuthMiddleware } from './middleware/tenant-auth-middleware';
 
 export const mastra = new Mastra({
-  workflows: { pdfToQuestionsWorkflow },
+  workflows: { pdfToQuestionsWorkflow, batchPdfToQuestionsWorkflow, comparePdfVersionsWorkflow },
   agents: {
     textQuestionAgent,
     pdfQuestionAgent,
     pdfSummarizationAgent,
+    quizAgent,
+    quizGraderAgent,
+  },
+  scorers: { questionQualityScorer },
+  vectors: { pdfVectorStore },
+  server: {
+    apiRoutes: [
+      uploadPdfRoute,
+      invalidatePdfCacheRoute,
+      reviewRecordsRoute,
+      bankQuestionRoute,
+      jobsRoute,
+      tenantUsageRoute,
+    ],
+    // Identifies the calling tenant by API key when TENANTS is set
+    middleware: tenantAuthMiddleware,
   },
   storage: new LibSQLStore({
     id: 'mastra-storage',
-    // stores observability, evals, ... into memory storage, if it needs to persist, change to file:../mastra.db
-    url: ':memory:',
+    // Persists workflow snapshots (so a suspended review can be resumed days later), observability and evals
+    url: MASTRA_DB_URL,
   }),
   logger: new PinoLogger({
     name: 'Mastra',
@@ -0,0 +1,98 @@
+import { createHash } from 'node:crypto';
+import { addColumnIfMissing, db } from './db';
+import type { PdfSource } from './pdf-source';
+
+export type BatchDocumentStatus = 'success' | 'error';
+
+export interface BatchDocumentRecord<T = unknown> {
+  documentKey: string;
+  index: number;
+  status: BatchDocumentStatus;
+  result: T;
+  updatedAt: number;
+}
+
+let tableReady: Promise<void> | null = null;
+
+function ensureBatchTable(): Promise<void> {
+  if (!tableReady) {
+    tableReady = db
+      .execute(
+        `CREATE TABLE IF NOT EXISTS pdf_batch_documents (
+          batch_id TEXT NOT NULL,
+          document_key TEXT NOT NULL,
+          document_index INTEGER NOT NULL,
+          status TEXT NOT NULL,
+          result TEXT NOT NULL,
+          updated_at INTEGER NOT NULL,
+          tenant_id TEXT,
+          PRIMARY KEY (batch_id, document_key)
+        )`,
+      )
+      .then(() => addColumnIfMissing('pdf_batch_documents', 'tenant_id', 'TEXT'))
+      .catch(error => {
+        tableReady = null;
+        throw error;
+      });
+  }
+  return tableReady;
+}
+
+// Identify a document by its source rather than its position, so a resumed batch can reorder or extend its list
+export function batchDocumentKey(source: PdfSource): string {
+  return createHash('sha256').update(JSON.stringify(source)).digest('hex');
+}
+
+// Load every document the tenant already finished in a batch, keyed by document key
+export async function getBatchDocuments<T>(
+  batchId: string,
+  tenantId?: string,
+): Promise<Map<string, BatchDocumentRecord<T>>> {
+  await ensureBatchTable();
+
+  const result = await db.execute({
+    sql: `SELECT document_key, document_index, status, result, updated_at FROM pdf_batch_documents
+          WHERE batch_id = ? AND tenant_id IS ?`,
+    args: [batchId, tenantId ?? null],
+  });
+
+  return new Map(
+    result.rows.map(row => [
+      String(row.document_key),
+      {
+        documentKey: String(row.document_key),
+        index: Number(row.document_index),
+        status: String(row.status) as BatchDocumentStatus,
+        result: JSON.parse(String(row.result)) as T,
+        updatedAt: Number(row.updated_at),
+      },
+    ]),
+  );
+}
+
+// Batch ids are chosen by the caller, so a checkpoint of another tenant's batch is never overwritten
+export async function saveBatchDocument(
+  batchId: string,
+  documentKey: string,
+  index: number,
+  status: BatchDocumentStatus,
+  result: unknown,
+  tenantId?: string,
+): Promise<void> {
+  await ensureBatchTable();
+
+  const saved = await db.execute({
+    sql: `INSERT INTO pdf_batch_documents (batch_id, document_key, document_index, status, result, updated_at, tenant_id)
+          VALUES (?, ?, ?, ?, ?, ?, ?)
+          ON CONFLICT (batch_id, document_key) DO UPDATE SET
+            document_index = excluded.document_index,
+            status = excluded.status,
+            result = excluded.result,
+            updated_at = excluded.updated_at
+          WHERE pdf_batch_documents.tenant_id IS excluded.tenant_id`,
+    args: [batchId, documentKey, index, status, JSON.stringify(result), Date.now(), tenantId ?? null],
+  });
+  if (saved.rowsAffected === 0) {
+    throw new Error(`Batch ${batchId} is already in use; choose another batchId`);
+  }
+}
@@ -0,0 +1,144 @@
+import { createHash } from 'node:crypto';
+import { addColumnIfMissing, db } from './db';
+
+export type CacheStage = 'extraction' | 'summary';
+
+// read-write: use and populate the cache; refresh: recompute and overwrite; bypass: neither read nor write
+export type CacheMode = 'read-write' | 'refresh' | 'bypass';
+
+let tableReady: Promise<void> | null = null;
+
+function ensureCacheTable(): Promise<void> {
+  if (!tableReady) {
+    tableReady = db
+      .batch(
+        [
+          `CREATE TABLE IF NOT EXISTS pdf_cache (
+            cache_key TEXT PRIMARY KEY,
+            content_hash TEXT NOT NULL,
+            stage TEXT NOT NULL,
+            variant TEXT NOT NULL,
+            value TEXT NOT NULL,
+            created_at INTEGER NOT NULL,
+            tenant_id TEXT
+          )`,
+          'CREATE INDEX IF NOT EXISTS pdf_cache_content_hash ON pdf_cache (content_hash)',
+        ],
+        'write',
+      )
+      .then(() => addColumnIfMissing('pdf_cache', 'tenant_id', 'TEXT'))
+      .catch(error => {
+        tableReady = null;
+        throw error;
+      });
+  }
+  return tableReady;
+}
+
+export function hashPdf(pdfBuffer: Buffer): string {
+  return createHash('sha256').update(pdfBuffer).digest('hex');
+}
+
+// Each tenant has its own entries; without a tenant (single-tenant mode) keys are unchanged
+function cacheKey(contentHash: string, stage: CacheStage, variant: string, tenantId?: string): string {
+  const key = `${contentHash}:${stage}:${variant}`;
+  return tenantId ? `${tenantId}:${key}` : key;
+}
+
+function cacheTtlMs(): number | null {
+  const hours = Number(process.env.PDF_CACHE_TTL_HOURS);
+  return Number.isFinite(hours) && hours > 0 ? hours * 60 * 60 * 1000 : null;
+}
+
+// Returns the cached value, or null on a miss, an expired entry, or a storage error (the cache is best-effort)
+export async function getCachedStage<T>(
+  contentHash: string,
+  stage: CacheStage,
+  variant: string,
+  tenantId?: string,
+): Promise<T | null> {
+  try {
+    await ensureCacheTable();
+
+    const result = await db.execute({
+      sql: 'SELECT value, created_at FROM pdf_cache WHERE cache_key = ?',
+      args: [cacheKey(contentHash, stage, variant, tenantId)],
+    });
+
+    const row = result.rows[0];
+    if (!row) {
+      return null;
+    }
+
+    const ttl = cacheTtlMs();
+    if (ttl !== null && Date.now() - Number(row.created_at) > ttl) {
+      return null;
+    }
+
+    return JSON.parse(String(row.value)) as T;
+  } catch (error) {
+    console.warn(`⚠️ Cache read failed for ${stage}:`, error instanceof Error ? error.message : error);
+    return null;
+  }
+}
+
+export async function setCachedStage(
+  contentHash: string,
+  stage: CacheStage,
+  variant: string,
+  value: unknown,
+  tenantId?: string,
+): Promise<void> {
+  try {
+    await ensureCacheTable();
+
+    await db.execute({
+      sql: `INSERT INTO pdf_cache (cache_key, content_hash, stage, variant, value, created_at, tenant_id)
+            VALUES (?, ?, ?, ?, ?, ?, ?)
+            ON CONFLICT (cache_key) DO UPDATE SET value = excluded.value, created_at = excluded.created_at`,
+      args: [
+        cacheKey(contentHash, stage, variant, tenantId),
+        contentHash,
+        stage,
+        variant,
+        JSON.stringify(value),
+        Date.now(),
+        tenantId ?? null,
+      ],
+    });
+  } catch (error) {
+    console.warn(`⚠️ Cache write failed for ${stage}:`, error instanceof Error ? error.message : error);
+  }
+}
+
+// Remove cached entries, optionally limited to one tenant, one document, one stage, or entries older than a cutoff
+export async function invalidatePdfCache(
+  filter: { tenantId?: string; contentHash?: string; stage?: CacheStage; olderThan?: Date } = {},
+): Promise<number> {
+  await ensureCacheTable();
+
+  const conditions: string[] = [];
+  const args: (string | number)[] = [];
+
+  if (filter.tenantId) {
+    conditions.push('tenant_id = ?');
+    args.push(filter.tenantId);
+  }
+  if (filter.contentHash) {
+    conditions.push('content_hash = ?');
+    args.push(filter.contentHash);
+  }
+  if (filter.stage) {
+    conditions.push('stage = ?');
+    args.push(filter.stage);
+  }
+  if (filter.olderThan) {
+    conditions.push('created_at < ?');
+    args.push(filter.olderThan.getTime());
+  }
+
+  const where = conditions.length > 0 ? ` WHERE ${conditions.join(' AND ')}` : '';
+  const result = await db.execute({ sql: `DELETE FROM pdf_cache${where}`, args });
+
+  return result.rowsAffected;
+}
@@ -0,0 +1,15 @@
+import { createClient } from '@libsql/client';
+
+// Same database file the agents' memory uses, so caches and app data live alongside threads
+export const MASTRA_DB_URL = process.env.MASTRA_DB_URL || 'file:../mastra.db';
+
+export const db = createClient({ url: MASTRA_DB_URL });
+
+// Tables are created with CREATE TABLE IF NOT EXISTS, which leaves tables from earlier versions as they were;
+// columns added later are migrated in with this
+export async function addColumnIfMissing(table: string, column: string, definition: string): Promise<void> {
+  const columns = await db.execute(`PRAGMA table_info(${table})`);
+  if (!columns.rows.some(row => row.name === column)) {
+    await db.execute(`ALTER TABLE ${table} ADD COLUMN ${column} ${definition}`);
+  }
+}
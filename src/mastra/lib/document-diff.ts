@@ -0,0 +1,241 @@
+import { z } from 'zod';
+import type { DocumentSection } from './sections';
+import { textSimilarity } from './similarity';
+import type { PdfPageText } from './util';
+
+// A removed and an added sentence at least this similar are reported as one modified sentence
+const MODIFIED_SIMILARITY = 0.4;
+// Sections whose titles differ are still paired when their text is at least this similar (renamed sections)
+const RENAMED_SECTION_SIMILARITY = 0.3;
+
+export const passageSchema = z.object({
+  page: z.number().describe('Page the passage is on, in its version of the document'),
+  text: z.string(),
+});
+
+export const pageRangeSchema = z.object({ startPage: z.number(), endPage: z.number() });
+
+export const sectionChangeSchema = z.object({
+  type: z
+    .enum(['added', 'removed', 'modified'])
+    .describe('added/removed: the whole section is new or gone; modified: the section exists in both versions'),
+  section: z.string().describe('Section title in the revised version (the previous version for removed sections)'),
+  previousTitle: z.string().optional().describe('Title in the previous version, when the section was renamed'),
+  previousPages: pageRangeSchema.nullable().describe('Pages of the section in the previous version'),
+  revisedPages: pageRangeSchema.nullable().describe('Pages of the section in the revised version'),
+  added: z.array(passageSchema).describe('Sentences only in the revised version, with revised page numbers'),
+  removed: z.array(passageSchema).describe('Sentences only in the previous version, with previous page numbers'),
+  modified: z
+    .array(z.object({ before: passageSchema, after: passageSchema }))
+    .describe('Sentences that were reworded, before and after'),
+});
+
+export const documentChangesSchema = z.object({
+  changes: z.array(sectionChangeSchema).describe('Changed sections, in the order of the revised version'),
+  sectionsAdded: z.number(),
+  sectionsRemoved: z.number(),
+  sectionsModified: z.number(),
+  sectionsUnchanged: z.number(),
+  sentencesAdded: z.number(),
+  sentencesRemoved: z.number(),
+  sentencesModified: z.number(),
+});
+
+export type Passage = z.infer<typeof passageSchema>;
+export type SectionChange = z.infer<typeof sectionChangeSchema>;
+export type DocumentChanges = z.infer<typeof documentChangesSchema>;
+
+interface SectionPair {
+  previous: DocumentSection | null;
+  revised: DocumentSection | null;
+}
+
+function normalizeText(text: string): string {
+  return text.replace(/\s+/g, ' ').trim().toLowerCase();
+}
+
+function sectionText(section: DocumentSection): string {
+  return section.pages.map(page => page.text).join('\n');
+}
+
+// Sentences with the page they are on; line breaks end a sentence too, so headings and list items stand alone
+function splitSentences(pages: PdfPageText[]): Passage[] {
+  return pages.flatMap(page =>
+    page.text
+      .split(/\n+|(?<=[.!?])\s+(?=\S)/)
+      .map(sentence => sentence.replace(/\s+/g, ' ').trim())
+      .filter(Boolean)
+      .map(text => ({ page: page.pageNumber, text })),
+  );
+}
+
+// The section's heading is its title, not part of its content
+function sectionSentences(section: DocumentSection): Passage[] {
+  const title = normalizeText(section.title);
+  return splitSentences(section.pages).filter(sentence => normalizeText(sentence.text) !== title);
+}
+
+function pageRange(section: DocumentSection | null): z.infer<typeof pageRangeSchema> | null {
+  return section ? { startPage: section.startPage, endPage: section.endPage } : null;
+}
+
+// Pair sections by title first, then pair the leftovers by content, so renamed sections are compared rather than
+// reported as one removed and one added section. The result follows the revised version's order, with removed
+// sections placed after the revised section that precedes them in the previous version.
+export function alignSections(previous: DocumentSection[], revised: DocumentSection[]): SectionPair[] {
+  const matches = new Map<DocumentSection, DocumentSection>();
+  const unmatchedPrevious = new Set(previous);
+
+  for (const section of revised) {
+    const title = normalizeText(section.title);
+    const match = previous.find(
+      candidate => unmatchedPrevious.has(candidate) && normalizeText(candidate.title) === title,
+    );
+    if (match) {
+      matches.set(section, match);
+      unmatchedPrevious.delete(match);
+    }
+  }
+
+  for (const section of revised.filter(candidate => !matches.has(candidate))) {
+    const text = sectionText(section);
+    const best = [...unmatchedPrevious]
+      .map(candidate => ({ candidate, similarity: textSimilarity(sectionText(candidate), text) }))
+      .sort((a, b) => b.similarity - a.similarity)[0];
+    if (best && best.similarity >= RENAMED_SECTION_SIMILARITY) {
+      matches.set(section, best.candidate);
+      unmatchedPrevious.delete(best.candidate);
+    }
+  }
+
+  const pairs: SectionPair[] = revised.map(section => ({ previous: matches.get(section) ?? null, revised: section }));
+  for (const section of previous.filter(candidate => unmatchedPrevious.has(candidate))) {
+    // Insert after the pair holding the closest earlier section of the previous version, or first
+    const earlier = previous.slice(0, previous.indexOf(section)).reverse();
+    const anchor = earlier
+      .map(candidate => pairs.findIndex(pair => pair.previous === candidate))
+      .find(index => index !== -1);
+    pairs.splice(anchor === undefined ? 0 : anchor + 1, 0, { previous: section, revised: null });
+  }
+  return pairs;
+}
+
+// Sentence-level comparison of two versions of a section. Sentences are compared as a multiset, so reordered text
+// is not a change; a removed sentence paired with a similar added one is reported as modified.
+export function diffSections(previous: DocumentSection, revised: DocumentSection) {
+  const remaining = new Map<string, number>();
+  for (const sentence of sectionSentences(previous)) {
+    const key = normalizeText(sentence.text);
+    remaining.set(key, (remaining.get(key) ?? 0) + 1);
+  }
+
+  let added: Passage[] = [];
+  for (const sentence of sectionSentences(revised)) {
+    const key = normalizeText(sentence.text);
+    const count = remaining.get(key) ?? 0;
+    if (count > 0) {
+      remaining.set(key, count - 1);
+    } else {
+      added.push(sentence);
+    }
+  }
+
+  const removed: Passage[] = [];
+  for (const sentence of sectionSentences(previous)) {
+    const key = normalizeText(sentence.text);
+    const count = remaining.get(key) ?? 0;
+    if (count > 0) {
+      remaining.set(key, count - 1);
+      removed.push(sentence);
+    }
+  }
+
+  const modified: SectionChange['modified'] = [];
+  const unpaired: Passage[] = [];
+  for (const before of removed) {
+    const best = added
+      .map(after => ({ after, similarity: textSimilarity(before.text, after.text) }))
+      .sort((a, b) => b.similarity - a.similarity)[0];
+    if (best && best.similarity >= MODIFIED_SIMILARITY) {
+      modified.push({ before, after: best.after });
+      added = added.filter(after => after !== best.after);
+    } else {
+      unpaired.push(before);
+    }
+  }
+
+  return { added, removed: unpaired, modified };
+}
+
+// Compare two versions of a document section by section
+export function compareDocumentSections(previous: DocumentSection[], revised: DocumentSection[]): DocumentChanges {
+  const changes: SectionChange[] = [];
+  let sectionsUnchanged = 0;
+
+  for (const pair of alignSections(previous, revised)) {
+    const renamed =
+      pair.previous && pair.revised && normalizeText(pair.previous.title) !== normalizeText(pair.revised.title);
+    const base = {
+      section: (pair.revised ?? pair.previous)!.title,
+      ...(renamed && { previousTitle: pair.previous!.title }),
+      previousPages: pageRange(pair.previous),
+      revisedPages: pageRange(pair.revised),
+    };
+
+    if (!pair.previous) {
+      changes.push({ type: 'added', ...base, added: sectionSentences(pair.revised!), removed: [], modified: [] });
+    } else if (!pair.revised) {
+      changes.push({ type: 'removed', ...base, added: [], removed: sectionSentences(pair.previous), modified: [] });
+    } else {
+      const diff = diffSections(pair.previous, pair.revised);
+      if (diff.added.length + diff.removed.length + diff.modified.length === 0 && !renamed) {
+        sectionsUnchanged += 1;
+      } else {
+        changes.push({ type: 'modified', ...base, ...diff });
+      }
+    }
+  }
+
+  const count = (pick: (change: SectionChange) => number) => changes.reduce((sum, change) => sum + pick(change), 0);
+  return {
+    changes,
+    sectionsAdded: changes.filter(change => change.type === 'added').length,
+    sectionsRemoved: changes.filter(change => change.type === 'removed').length,
+    sectionsModified: changes.filter(change => change.type === 'modified').length,
+    sectionsUnchanged,
+    sentencesAdded: count(change => change.added.length),
+    sentencesRemoved: count(change => change.removed.length),
+    sentencesModified: count(change => change.modified.length),
+  };
+}
+
+// The changed material as source text for question generation: what was added or reworded (the current wording),
+// with the wording it replaced and what was removed as context. Only revised-version text is returned as pages,
+// so questions can only cite changed passages.
+export function changedMaterial(changes: DocumentChanges): { text: string; pages: PdfPageText[] } {
+  const pages = new Map<number, string[]>();
+  const addPassage = ({ page, text }: Passage) => pages.set(page, [...(pages.get(page) ?? []), text]);
+
+  const text = changes.changes
+    .map(change => {
+      const lines = [`## ${change.section} (${change.type === 'modified' ? 'changed' : change.type} section)`];
+      change.added.forEach(passage => {
+        addPassage(passage);
+        lines.push(`New: ${passage.text}`);
+      });
+      change.modified.forEach(({ before, after }) => {
+        addPassage(after);
+        lines.push(`Changed to: ${after.text}`, `  (previously: ${before.text})`);
+      });
+      change.removed.forEach(passage => lines.push(`Removed (no longer applies): ${passage.text}`));
+      return lines.join('\n');
+    })
+    .join('\n\n');
+
+  return {
+    text,
+    pages: [...pages.entries()]
+      .sort(([a], [b]) => a - b)
+      .map(([pageNumber, texts]) => ({ pageNumber, text: texts.join('\n') })),
+  };
+}
@@ -0,0 +1,336 @@
+import { lookup } from 'node:dns/promises';
+import type { LookupFunction } from 'node:net';
+import { BlockList, isIP } from 'node:net';
+import { Agent, fetch, type Response } from 'undici';
+import { z } from 'zod';
+import { throttleDownloadProgress, type ProgressListener } from './progress';
+
+export const DEFAULT_MAX_PDF_BYTES = 50 * 1024 * 1024;
+export const DEFAULT_DOWNLOAD_TIMEOUT_MS = 30_000;
+export const DEFAULT_DOWNLOAD_RETRIES = 2;
+
+const MAX_REDIRECTS = 5;
+const RETRY_BASE_DELAY_MS = 500;
+const PDF_MAGIC = Buffer.from('%PDF-');
+// The PDF spec tolerates leading garbage before the header, readers look within the first 1 KB
+const PDF_MAGIC_SEARCH_BYTES = 1024;
+
+const ACCEPTED_CONTENT_TYPES = [
+  'application/pdf',
+  'application/x-pdf',
+  'application/octet-stream',
+  'binary/octet-stream',
+];
+
+export const pdfDownloadErrorCodeSchema = z.enum([
+  'INVALID_URL',
+  'BLOCKED_HOST',
+  'TIMEOUT',
+  'TOO_LARGE',
+  'HTTP_ERROR',
+  'NOT_PDF',
+  'NETWORK_ERROR',
+]);
+
+export type PdfDownloadErrorCode = z.infer<typeof pdfDownloadErrorCodeSchema>;
+
+export const pdfDownloadErrorSchema = z.object({
+  code: pdfDownloadErrorCodeSchema.describe('Machine-readable reason the PDF could not be loaded'),
+  message: z.string().describe('Human-readable error message'),
+  status: z.number().optional().describe('HTTP status code, for HTTP_ERROR'),
+  retryable: z.boolean().describe('Whether retrying later might succeed'),
+});
+
+export class PdfDownloadError extends Error {
+  readonly code: PdfDownloadErrorCode;
+  readonly status?: number;
+  readonly retryable: boolean;
+
+  constructor(code: PdfDownloadErrorCode, message: string, options: { status?: number; retryable?: boolean } = {}) {
+    super(message);
+    this.name = 'PdfDownloadError';
+    this.code = code;
+    this.status = options.status;
+    this.retryable = options.retryable ?? false;
+  }
+
+  toJSON(): z.infer<typeof pdfDownloadErrorSchema> {
+    return { code: this.code, message: this.message, status: this.status, retryable: this.retryable };
+  }
+}
+
+export interface ResolvedAddress {
+  address: string;
+  family: number;
+}
+
+export interface DownloadPdfOptions {
+  headers?: Record<string, string>;
+  maxBytes?: number;
+  timeoutMs?: number;
+  retries?: number;
+  // Hostnames or IP addresses that may be fetched even if they resolve to private addresses
+  allowedHosts?: string[];
+  onProgress?: ProgressListener;
+  // Resolves a hostname to its addresses; DNS by default
+  resolve?: (hostname: string) => Promise<ResolvedAddress[]>;
+}
+
+type ResolvedDownloadOptions = Required<Omit<DownloadPdfOptions, 'onProgress'>> &
+  Pick<DownloadPdfOptions, 'onProgress'>;
+
+function numberFromEnv(name: string, fallback: number): number {
+  const raw = process.env[name];
+  const value = Number(raw);
+  return raw && Number.isFinite(value) && value >= 0 ? value : fallback;
+}
+
+// Defaults come from the environment so deployments can tune limits without code changes
+export function getDownloadDefaults(): Required<Omit<DownloadPdfOptions, 'headers' | 'onProgress' | 'resolve'>> {
+  return {
+    maxBytes: numberFromEnv('PDF_MAX_BYTES', DEFAULT_MAX_PDF_BYTES),
+    timeoutMs: numberFromEnv('PDF_DOWNLOAD_TIMEOUT_MS', DEFAULT_DOWNLOAD_TIMEOUT_MS),
+    retries: numberFromEnv('PDF_DOWNLOAD_RETRIES', DEFAULT_DOWNLOAD_RETRIES),
+    allowedHosts: (process.env.PDF_DOWNLOAD_ALLOWED_HOSTS || '')
+      .split(',')
+      .map(host => host.trim().toLowerCase())
+      .filter(Boolean),
+  };
+}
+
+// BlockList matches IPv4-mapped IPv6 addresses (::ffff:7f00:1 as well as ::ffff:127.0.0.1) against the IPv4 rules
+const privateAddresses = new BlockList();
+for (const [network, prefix] of [
+  ['0.0.0.0', 8], // "this" network
+  ['10.0.0.0', 8],
+  ['100.64.0.0', 10], // carrier-grade NAT
+  ['127.0.0.0', 8],
+  ['169.254.0.0', 16], // link-local, including cloud metadata endpoints
+  ['172.16.0.0', 12],
+  ['192.0.0.0', 24], // IETF protocol assignments
+  ['192.168.0.0', 16],
+  ['198.18.0.0', 15],
+  ['224.0.0.0', 3], // multicast and reserved
+] as const) {
+  privateAddresses.addSubnet(network, prefix, 'ipv4');
+}
+for (const [network, prefix] of [
+  ['::', 96], // unspecified, loopback and the deprecated IPv4-compatible addresses
+  ['64:ff9b::', 96], // NAT64, which reaches IPv4 addresses through a gateway
+  ['64:ff9b:1::', 48], // local-use NAT64
+  ['2001::', 32], // Teredo, which embeds an IPv4 address
+  ['2002::', 16], // 6to4, which embeds an IPv4 address
+  ['fc00::', 7], // unique local
+  ['fe80::', 10], // link-local
+  ['ff00::', 8], // multicast
+] as const) {
+  privateAddresses.addSubnet(network, prefix, 'ipv6');
+}
+
+export function isPrivateAddress(address: string): boolean {
+  const family = isIP(address);
+  if (family === 0) {
+    return false;
+  }
+  return privateAddresses.check(address, family === 4 ? 'ipv4' : 'ipv6');
+}
+
+// Resolve the URL's host and reject it when any address is private or loopback, unless the host is allowlisted.
+// The request then connects to these addresses, so a second lookup cannot return a different (private) one.
+async function resolvePublicAddresses(
+  url: URL,
+  allowedHosts: string[],
+  resolve: (hostname: string) => Promise<ResolvedAddress[]>,
+): Promise<ResolvedAddress[]> {
+  if (url.protocol !== 'http:' && url.protocol !== 'https:') {
+    throw new PdfDownloadError('INVALID_URL', `Unsupported URL protocol: ${url.protocol}`);
+  }
+
+  const hostname = url.hostname.replace(/^\[|\]$/g, '').toLowerCase();
+
+  let addresses: ResolvedAddress[];
+  if (isIP(hostname)) {
+    addresses = [{ address: hostname, family: isIP(hostname) }];
+  } else {
+    try {
+      addresses = await resolve(hostname);
+    } catch (error) {
+      throw new PdfDownloadError(
+        'NETWORK_ERROR',
+        `Could not resolve host ${hostname}: ${error instanceof Error ? error.message : 'Unknown error'}`,
+        { retryable: true },
+      );
+    }
+  }
+
+  if (addresses.length === 0) {
+    throw new PdfDownloadError('NETWORK_ERROR', `Could not resolve host ${hostname}`, { retryable: true });
+  }
+  if (!allowedHosts.includes(hostname) && addresses.some(entry => isPrivateAddress(entry.address))) {
+    throw new PdfDownloadError('BLOCKED_HOST', `Refusing to fetch ${hostname}: it resolves to a private address`);
+  }
+
+  return addresses;
+}
+
+async function lookupAll(hostname: string): Promise<ResolvedAddress[]> {
+  return lookup(hostname, { all: true });
+}
+
+// A connection pool whose DNS lookups answer with the addresses that were already checked
+function pinnedAgent(addresses: ResolvedAddress[]): Agent {
+  const pinnedLookup: LookupFunction = (_hostname, options, callback) => {
+    const candidates = options.family ? addresses.filter(entry => entry.family === options.family) : addresses;
+    if (options.all) {
+      callback(null, candidates);
+    } else if (candidates.length > 0) {
+      callback(null, candidates[0].address, candidates[0].family);
+    } else {
+      callback(Object.assign(new Error('No checked address for this address family'), { code: 'ENOTFOUND' }), '', 0);
+    }
+  };
+  return new Agent({ connect: { lookup: pinnedLookup } });
+}
+
+export function assertPdfBytes(buffer: Buffer): void {
+  if (buffer.subarray(0, PDF_MAGIC_SEARCH_BYTES).indexOf(PDF_MAGIC) === -1) {
+    throw new PdfDownloadError('NOT_PDF', 'Content is not a PDF file (missing %PDF- header)');
+  }
+}
+
+function assertPdfContentType(contentType: string | null): void {
+  if (!contentType) {
+    return;
+  }
+  const mediaType = contentType.split(';')[0].trim().toLowerCase();
+  if (!ACCEPTED_CONTENT_TYPES.includes(mediaType)) {
+    throw new PdfDownloadError('NOT_PDF', `Unexpected Content-Type: ${mediaType}`);
+  }
+}
+
+// Read the body incrementally so oversized responses are aborted instead of buffered
+async function readBodyWithLimit(response: Response, maxBytes: number, onProgress?: ProgressListener): Promise<Buffer> {
+  const contentLength = Number(response.headers.get('content-length'));
+  if (Number.isFinite(contentLength) && contentLength > maxBytes) {
+    throw new PdfDownloadError('TOO_LARGE', `PDF is ${contentLength} bytes, exceeding the ${maxBytes} byte limit`);
+  }
+
+  if (!response.body) {
+    return Buffer.alloc(0);
+  }
+
+  const totalBytes = response.headers.has('content-length') && Number.isFinite(contentLength) ? contentLength : null;
+  const reportProgress = throttleDownloadProgress(onProgress, totalBytes);
+
+  const reader = response.body.getReader();
+  const chunks: Buffer[] = [];
+  let received = 0;
+
+  while (true) {
+    const { done, value } = await reader.read();
+    if (done) {
+      reportProgress(received, true);
+      break;
+    }
+    received += value.length;
+    if (received > maxBytes) {
+      await reader.cancel();
+      throw new PdfDownloadError('TOO_LARGE', `PDF exceeds the ${maxBytes} byte limit`);
+    }
+    chunks.push(Buffer.from(value));
+    reportProgress(received);
+  }
+
+  return Buffer.concat(chunks);
+}
+
+async function fetchOnce(url: URL, options: ResolvedDownloadOptions): Promise<Buffer> {
+  const signal = AbortSignal.timeout(options.timeoutMs);
+  let currentUrl = url;
+
+  try {
+    // Follow redirects manually so every hop goes through the address check
+    for (let redirects = 0; ; redirects++) {
+      const addresses = await resolvePublicAddresses(currentUrl, options.allowedHosts, options.resolve);
+      const dispatcher = pinnedAgent(addresses);
+
+      try {
+        // The caller's headers (often credentials) are meant for the host they asked for, not for a redirect target
+        const headers = currentUrl.origin === url.origin ? options.headers : {};
+        const response = await fetch(currentUrl, { headers, redirect: 'manual', signal, dispatcher });
+
+        if (response.status >= 300 && response.status < 400 && response.headers.get('location')) {
+          if (redirects >= MAX_REDIRECTS) {
+            throw new PdfDownloadError('HTTP_ERROR', `Too many redirects`, { status: response.status });
+          }
+          await response.body?.cancel();
+          currentUrl = new URL(response.headers.get('location')!, currentUrl);
+          continue;
+        }
+
+        if (!response.ok) {
+          throw new PdfDownloadError(
+            'HTTP_ERROR',
+            `Failed to download PDF: ${response.status} ${response.statusText}`,
+            { status: response.status, retryable: response.status >= 500 || response.status === 429 },
+          );
+        }
+
+        assertPdfContentType(response.headers.get('content-type'));
+        const buffer = await readBodyWithLimit(response, options.maxBytes, options.onProgress);
+        assertPdfBytes(buffer);
+
+        return buffer;
+      } finally {
+        void dispatcher.close().catch(() => undefined);
+      }
+    }
+  } catch (error) {
+    if (error instanceof PdfDownloadError) {
+      throw error;
+    }
+    if (signal.aborted) {
+      throw new PdfDownloadError('TIMEOUT', `Download timed out after ${options.timeoutMs} ms`, { retryable: true });
+    }
+    throw new PdfDownloadError(
+      'NETWORK_ERROR',
+      `Network error while downloading PDF: ${error instanceof Error ? error.message : 'Unknown error'}`,
+      { retryable: true },
+    );
+  }
+}
+
+// Download a PDF with size, type and address checks, retrying transient failures with exponential backoff
+export async function downloadPdf(url: string, options: DownloadPdfOptions = {}): Promise<Buffer> {
+  let parsedUrl: URL;
+  try {
+    parsedUrl = new URL(url);
+  } catch {
+    throw new PdfDownloadError('INVALID_URL', `Invalid URL: ${url}`);
+  }
+
+  const defaults = getDownloadDefaults();
+  const resolvedOptions: ResolvedDownloadOptions = {
+    headers: options.headers ?? {},
+    maxBytes: options.maxBytes ?? defaults.maxBytes,
+    timeoutMs: options.timeoutMs ?? defaults.timeoutMs,
+    retries: options.retries ?? defaults.retries,
+    allowedHosts: (options.allowedHosts ?? defaults.allowedHosts).map(host => host.toLowerCase()),
+    onProgress: options.onProgress,
+    resolve: options.resolve ?? lookupAll,
+  };
+
+  for (let attempt = 0; ; attempt++) {
+    try {
+      return await fetchOnce(parsedUrl, resolvedOptions);
+    } catch (error) {
+      if (!(error instanceof PdfDownloadError) || !error.retryable || attempt >= resolvedOptions.retries) {
+        throw error;
+      }
+
+      const delay = RETRY_BASE_DELAY_MS * 2 ** attempt * (0.5 + Math.random() / 2);
+      console.warn(`⚠️ ${error.message} - retrying in ${Math.round(delay)} ms (attempt ${attempt + 2})`);
+      await new Promise(resolve => setTimeout(resolve, delay));
+    }
+  }
+}
@@ -0,0 +1,84 @@
+import { embedMany } from 'ai';
+import { ModelRouterEmbeddingModel } from '@mastra/core/llm';
+
+// Turns passages and queries into vectors; the id names the vector index, so different embedders never share one
+export interface Embedder {
+  id: string;
+  embed(texts: string[]): Promise<number[][]>;
+}
+
+const LOCAL_EMBEDDING_DIMENSIONS = 512;
+
+const FNV_OFFSET = 0x811c9dc5;
+const FNV_PRIME = 0x01000193;
+
+function fnv1a(text: string): number {
+  let hash = FNV_OFFSET;
+  for (let i = 0; i < text.length; i++) {
+    hash ^= text.charCodeAt(i);
+    hash = Math.imul(hash, FNV_PRIME);
+  }
+  return hash >>> 0;
+}
+
+function localFeatures(text: string): string[] {
+  const words = text
+    .toLowerCase()
+    .replace(/[^\p{L}\p{N}\s]/gu, ' ')
+    .split(/\s+/)
+    .filter(word => word.length > 1);
+
+  // Whole words carry the topic, character trigrams tolerate inflections and hyphenation from the PDF
+  const features = words.map(word => `w:${word}`);
+  for (const word of words) {
+    const padded = ` ${word} `;
+    for (let i = 0; i + 3 <= padded.length; i++) {
+      features.push(`c:${padded.slice(i, i + 3)}`);
+    }
+  }
+  return features;
+}
+
+// Offline embedder based on feature hashing: no model or network, good enough for keyword-heavy lookups
+export function createLocalEmbedder(dimensions: number = LOCAL_EMBEDDING_DIMENSIONS): Embedder {
+  return {
+    id: `local-hash-${dimensions}`,
+    embed: async texts =>
+      texts.map(text => {
+        const vector = new Array<number>(dimensions).fill(0);
+        for (const feature of localFeatures(text)) {
+          const hash = fnv1a(feature);
+          // The top bit picks the sign so colliding features tend to cancel instead of piling up
+          vector[hash % dimensions] += hash & 0x80000000 ? -1 : 1;
+        }
+        const norm = Math.sqrt(vector.reduce((sum, value) => sum + value * value, 0));
+        return norm === 0 ? vector : vector.map(value => value / norm);
+      }),
+  };
+}
+
+// Embedder backed by a provider model in provider/model format, e.g. openai/text-embedding-3-small
+export function createModelEmbedder(modelId: string): Embedder {
+  const model = new ModelRouterEmbeddingModel(modelId);
+  return {
+    id: modelId,
+    embed: async texts => {
+      if (texts.length === 0) {
+        return [];
+      }
+      const { embeddings } = await embedMany({ model, values: texts });
+      return embeddings;
+    },
+  };
+}
+
+let defaultEmbedder: Embedder | null = null;
+
+// PDF_EMBEDDER selects the embedder: "local" (default) or a provider/model embedding model id
+export function getEmbedder(): Embedder {
+  if (!defaultEmbedder) {
+    const configured = process.env.PDF_EMBEDDER?.trim() || 'local';
+    defaultEmbedder = configured === 'local' ? createLocalEmbedder() : createModelEmbedder(configured);
+  }
+  return defaultEmbedder;
+}
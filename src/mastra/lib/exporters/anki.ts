@@ -0,0 +1,129 @@
+import {
+  bloomLevelSchema,
+  difficultySchema,
+  questionTypeSchema,
+  type Citation,
+  type Question,
+} from '../../tools/generate-questions-from-text-tool';
+import {
+  DEFAULT_EXPORT_TITLE,
+  escapeXml,
+  htmlToText,
+  toQuestion,
+  type ExportedFile,
+  type ExportOptions,
+} from './shared';
+
+// Fields are HTML, so line breaks become <br> and tabs are the only separator left in a line
+function toField(text: string): string {
+  return escapeXml(text).replace(/\t/g, ' ').replace(/\r?\n/g, '<br>');
+}
+
+function exportAnkiNote(question: Question): string {
+  const front = [`<div class="stem">${toField(question.stem)}</div>`];
+  if (question.options.length > 0) {
+    front.push(
+      `<ol class="options" type="A">${question.options.map(option => `<li>${toField(option)}</li>`).join('')}</ol>`,
+    );
+  }
+
+  const back = [`<div class="answer">${toField(question.correctAnswer)}</div>`];
+  if (question.section) {
+    back.push(`<div class="section">${toField(question.section)}</div>`);
+  }
+  if (question.referenceAnswer) {
+    back.push(`<div class="reference-answer">${toField(question.referenceAnswer)}</div>`);
+  }
+  if (question.citations.length > 0) {
+    back.push(
+      `<ul class="citations">${question.citations
+        .map(
+          citation =>
+            `<li class="citation${citation.verified ? ' verified' : ''}" data-page="${citation.page}">${toField(citation.quote)}</li>`,
+        )
+        .join('')}</ul>`,
+    );
+  }
+
+  // Anki tags cannot contain spaces; the :: hierarchy keeps them browsable in the deck
+  const tags = [`type::${question.type}`, `bloom::${question.bloomLevel}`, `difficulty::${question.difficulty}`];
+
+  return [front.join(''), back.join(''), tags.join(' ')].join('\t');
+}
+
+// Tab-separated notes with file headers understood by Anki's text importer (2.1.55+)
+export function exportAnki(questions: Question[], options: ExportOptions = {}): ExportedFile {
+  const title = (options.title ?? DEFAULT_EXPORT_TITLE).replace(/[\t\r\n]/g, ' ');
+  const headers = [
+    '#separator:tab',
+    '#html:true',
+    '#notetype:Basic',
+    `#deck:${title}`,
+    '#columns:Front\tBack\tTags',
+    '#tags column:3',
+  ];
+
+  return {
+    filename: 'questions.anki.txt',
+    mimeType: 'text/tab-separated-values',
+    content: [...headers, ...questions.map(exportAnkiNote)].join('\n') + '\n',
+  };
+}
+
+function elementsWithClass(html: string, tag: string, className: string): { attributes: string; inner: string }[] {
+  const pattern = new RegExp(
+    `<${tag}\\b([^>]*\\bclass="(?:[^"]*\\s)?${className}(?:\\s[^"]*)?"[^>]*)>([\\s\\S]*?)</${tag}>`,
+    'gi',
+  );
+  return [...html.matchAll(pattern)].map(match => ({ attributes: match[1], inner: match[2] }));
+}
+
+export function parseAnki(content: string): Question[] {
+  const lines = content
+    .replace(/\r\n/g, '\n')
+    .split('\n')
+    .filter(line => line.trim() && !line.startsWith('#'));
+
+  return lines.map((line, index) => {
+    const location = `Anki note ${index + 1}`;
+    const [front = '', back = '', tagField = ''] = line.split('\t');
+    const tags = tagField.split(/\s+/).filter(Boolean);
+    const tagValue = (prefix: string) => tags.find(tag => tag.startsWith(`${prefix}::`))?.slice(prefix.length + 2);
+
+    // Notes edited or created by hand may not use the exported markup; fall back to the whole field
+    const stemElement = elementsWithClass(front, 'div', 'stem')[0];
+    const optionsList = elementsWithClass(front, 'ol', 'options')[0];
+    const answerElement = elementsWithClass(back, 'div', 'answer')[0];
+    const referenceElement = elementsWithClass(back, 'div', 'reference-answer')[0];
+    const sectionElement = elementsWithClass(back, 'div', 'section')[0];
+
+    const options = optionsList
+      ? [...optionsList.inner.matchAll(/<li\b[^>]*>([\s\S]*?)<\/li>/gi)].map(match => htmlToText(match[1]))
+      : [];
+
+    const citations: Citation[] = elementsWithClass(back, 'li', 'citation').map(element => ({
+      page: Number(element.attributes.match(/data-page="(\d+)"/)?.[1]) || 1,
+      quote: htmlToText(element.inner),
+      verified: /class="[^"]*\bverified\b/.test(element.attributes),
+    }));
+
+    const type = questionTypeSchema.safeParse(tagValue('type'));
+    const bloomLevel = bloomLevelSchema.safeParse(tagValue('bloom'));
+    const difficulty = difficultySchema.safeParse(tagValue('difficulty'));
+
+    return toQuestion(
+      {
+        type: type.success ? type.data : undefined,
+        stem: htmlToText(stemElement ? stemElement.inner : front),
+        options,
+        correctAnswer: htmlToText(answerElement ? answerElement.inner : back),
+        referenceAnswer: referenceElement ? htmlToText(referenceElement.inner) : '',
+        citations,
+        bloomLevel: bloomLevel.success ? bloomLevel.data : undefined,
+        difficulty: difficulty.success ? difficulty.data : undefined,
+        section: sectionElement ? htmlToText(sectionElement.inner) : undefined,
+      },
+      location,
+    );
+  });
+}
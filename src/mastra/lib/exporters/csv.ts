@@ -0,0 +1,147 @@
+import { z } from 'zod';
+import { citationSchema, type Question } from '../../tools/generate-questions-from-text-tool';
+import { toQuestion, type ExportedFile, type ExportOptions } from './shared';
+
+const CSV_COLUMNS = [
+  'type',
+  'stem',
+  'options',
+  'correct_answer',
+  'reference_answer',
+  'bloom_level',
+  'difficulty',
+  'citations',
+  'section',
+] as const;
+
+// Spreadsheets run cells starting with these as formulas, so such cells get a leading apostrophe. Cells that
+// already start with apostrophes before one of them get one more, so the import can always strip exactly one.
+const FORMULA_PREFIX = /^'*[=+\-@\t\r]/;
+
+function escapeCell(value: string): string {
+  const text = FORMULA_PREFIX.test(value) ? `'${value}` : value;
+  return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+}
+
+function unescapeCell(cell: string): string {
+  return cell.startsWith("'") && FORMULA_PREFIX.test(cell) ? cell.slice(1) : cell;
+}
+
+// One row per question; options are one per line within their cell, citations are a JSON array
+export function exportCsv(questions: Question[], _options: ExportOptions = {}): ExportedFile {
+  const rows = questions.map(question =>
+    [
+      question.type,
+      question.stem,
+      question.options.join('\n'),
+      question.correctAnswer,
+      question.referenceAnswer,
+      question.bloomLevel,
+      question.difficulty,
+      question.citations.length > 0 ? JSON.stringify(question.citations) : '',
+      question.section ?? '',
+    ].map(escapeCell),
+  );
+
+  return {
+    filename: 'questions.csv',
+    mimeType: 'text/csv',
+    content: [CSV_COLUMNS.join(','), ...rows.map(row => row.join(','))].join('\r\n') + '\r\n',
+  };
+}
+
+// RFC 4180 parsing: quoted cells may contain commas, doubled quotes and line breaks
+function parseCsvRows(content: string): string[][] {
+  const rows: string[][] = [];
+  let row: string[] = [];
+  let cell = '';
+  let quoted = false;
+
+  const text = content.replace(/^\uFEFF/, '');
+
+  for (let i = 0; i < text.length; i++) {
+    const char = text[i];
+
+    if (quoted) {
+      if (char === '"' && text[i + 1] === '"') {
+        cell += '"';
+        i++;
+      } else if (char === '"') {
+        quoted = false;
+      } else {
+        cell += char;
+      }
+    } else if (char === '"') {
+      quoted = true;
+    } else if (char === ',') {
+      row.push(cell);
+      cell = '';
+    } else if (char === '\n' || char === '\r') {
+      if (char === '\r' && text[i + 1] === '\n') {
+        i++;
+      }
+      row.push(cell);
+      rows.push(row);
+      row = [];
+      cell = '';
+    } else {
+      cell += char;
+    }
+  }
+
+  if (cell || row.length > 0) {
+    row.push(cell);
+    rows.push(row);
+  }
+
+  // Spreadsheet editors often leave blank trailing rows
+  return rows.filter(cells => cells.some(value => value.trim() !== ''));
+}
+
+export function parseCsv(content: string): Question[] {
+  const [header, ...rows] = parseCsvRows(content);
+  if (!header) {
+    return [];
+  }
+
+  const columns = header.map(name => name.trim().toLowerCase());
+  if (!columns.includes('stem')) {
+    throw new Error('CSV is missing the "stem" column');
+  }
+
+  return rows.map((cells, rowIndex) => {
+    const location = `CSV row ${rowIndex + 2}`;
+    const get = (column: (typeof CSV_COLUMNS)[number]) => {
+      const index = columns.indexOf(column);
+      return index === -1 ? undefined : unescapeCell(cells[index] ?? '').trim();
+    };
+
+    const citationsCell = get('citations');
+    let citations: Question['citations'] = [];
+    if (citationsCell) {
+      try {
+        citations = z.array(citationSchema).parse(JSON.parse(citationsCell));
+      } catch {
+        throw new Error(`Invalid question at ${location}: citations must be a JSON array of {page, quote, verified}`);
+      }
+    }
+
+    return toQuestion(
+      {
+        type: (get('type') || undefined) as Question['type'] | undefined,
+        stem: get('stem'),
+        options: (get('options') ?? '')
+          .split(/\r?\n/)
+          .map(option => option.trim())
+          .filter(Boolean),
+        correctAnswer: get('correct_answer'),
+        referenceAnswer: get('reference_answer'),
+        bloomLevel: (get('bloom_level') || undefined) as Question['bloomLevel'] | undefined,
+        difficulty: (get('difficulty') || undefined) as Question['difficulty'] | undefined,
+        citations,
+        section: get('section') || undefined,
+      },
+      location,
+    );
+  });
+}
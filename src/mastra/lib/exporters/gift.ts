@@ -0,0 +1,225 @@
+import { z } from 'zod';
+import {
+  bloomLevelSchema,
+  citationSchema,
+  difficultySchema,
+  questionTypeSchema,
+  type Question,
+} from '../../tools/generate-questions-from-text-tool';
+import {
+  DEFAULT_EXPORT_TITLE,
+  escapeXml,
+  htmlToText,
+  toQuestion,
+  type ExportedFile,
+  type ExportOptions,
+} from './shared';
+
+// GIFT has no place for these fields, so they travel in a comment line that Moodle ignores
+const META_PREFIX = '// meta: ';
+
+const giftMetaSchema = z
+  .object({
+    type: questionTypeSchema,
+    bloomLevel: bloomLevelSchema,
+    difficulty: difficultySchema,
+    // Essay questions have no answer in GIFT, so their model answer is kept here
+    correctAnswer: z.string(),
+    citations: z.array(citationSchema),
+    section: z.string(),
+  })
+  .partial();
+
+function escapeGift(text: string): string {
+  return text.replace(/[\\~=#{}:]/g, char => `\\${char}`).replace(/\r?\n/g, '\\n');
+}
+
+function unescapeGift(text: string): string {
+  return text.replace(/\\(.)/g, (_match, char: string) => (char === 'n' ? '\n' : char)).trim();
+}
+
+// Questions are exported in Moodle's [html] format so characters like < and & show up literally
+function toHtmlField(text: string): string {
+  return escapeGift(escapeXml(text).replace(/\r?\n/g, '<br>'));
+}
+
+function exportGiftQuestion(question: Question, index: number): string {
+  const meta: z.infer<typeof giftMetaSchema> = {
+    type: question.type,
+    bloomLevel: question.bloomLevel,
+    difficulty: question.difficulty,
+    citations: question.citations,
+    ...(question.section ? { section: question.section } : {}),
+  };
+
+  let answers: string[];
+  if (question.type === 'multiple_choice') {
+    answers = question.options.map(option => `${option === question.correctAnswer ? '=' : '~'}${toHtmlField(option)}`);
+  } else if (question.type === 'short_answer') {
+    answers = [`=${toHtmlField(question.correctAnswer)}`];
+  } else {
+    answers = [];
+    meta.correctAnswer = question.correctAnswer;
+  }
+
+  if (question.referenceAnswer) {
+    answers.push(`####${toHtmlField(question.referenceAnswer)}`);
+  }
+
+  return [
+    `${META_PREFIX}${JSON.stringify(meta)}`,
+    `::Q${index + 1}::[html]${toHtmlField(question.stem)} {`,
+    ...answers.map(answer => `\t${answer}`),
+    '}',
+  ].join('\n');
+}
+
+export function exportGift(questions: Question[], options: ExportOptions = {}): ExportedFile {
+  const blocks = questions.map(exportGiftQuestion);
+
+  return {
+    filename: 'questions.gift.txt',
+    mimeType: 'text/plain',
+    content: [`$CATEGORY: ${options.title ?? DEFAULT_EXPORT_TITLE}`, ...blocks].join('\n\n') + '\n',
+  };
+}
+
+// Index of the first occurrence of any of the characters that is not preceded by a backslash
+function findUnescaped(text: string, chars: string, from = 0): number {
+  for (let i = from; i < text.length; i++) {
+    if (text[i] === '\\') {
+      i++;
+    } else if (chars.includes(text[i])) {
+      return i;
+    }
+  }
+  return -1;
+}
+
+function splitUnescaped(text: string, separator: string): string[] {
+  const parts: string[] = [];
+  let start = 0;
+  for (let i = 0; i < text.length; i++) {
+    if (text[i] === '\\') {
+      i++;
+    } else if (text.startsWith(separator, i)) {
+      parts.push(text.slice(start, i));
+      start = i + separator.length;
+      i = start - 1;
+    }
+  }
+  parts.push(text.slice(start));
+  return parts;
+}
+
+interface GiftAnswer {
+  correct: boolean;
+  text: string;
+}
+
+// Answers start with = (correct) or ~ (wrong); weights (%50%) and per-answer feedback (#...) are dropped
+function parseGiftAnswers(body: string, toText: (text: string) => string): GiftAnswer[] {
+  const answers: GiftAnswer[] = [];
+  let index = findUnescaped(body, '=~');
+
+  while (index !== -1) {
+    const next = findUnescaped(body, '=~', index + 1);
+    const raw = body.slice(index + 1, next === -1 ? undefined : next);
+    const feedbackStart = findUnescaped(raw, '#');
+    const text = (feedbackStart === -1 ? raw : raw.slice(0, feedbackStart)).replace(/^\s*%-?[\d.]+%/, '');
+
+    answers.push({ correct: body[index] === '=', text: toText(text) });
+    index = next;
+  }
+
+  return answers;
+}
+
+function parseGiftQuestion(block: string, location: string): Question {
+  let meta: z.infer<typeof giftMetaSchema> = {};
+  const lines: string[] = [];
+
+  for (const line of block.split('\n')) {
+    if (line.startsWith(META_PREFIX)) {
+      try {
+        meta = giftMetaSchema.parse(JSON.parse(line.slice(META_PREFIX.length)));
+      } catch {
+        throw new Error(`Invalid question at ${location}: malformed meta comment`);
+      }
+    } else if (!line.trimStart().startsWith('//')) {
+      lines.push(line);
+    }
+  }
+
+  let text = lines.join('\n').trim();
+
+  // Optional ::title:: and [markup] prefixes
+  const title = text.match(/^::((?:\\.|[^:\\])*)::/);
+  if (title) {
+    text = text.slice(title[0].length).trim();
+  }
+  const format = text.match(/^\[(moodle|html|plain|markdown)\]/);
+  if (format) {
+    text = text.slice(format[0].length);
+  }
+  const toText = (value: string) => (format?.[1] === 'html' ? htmlToText(unescapeGift(value)) : unescapeGift(value));
+
+  const open = findUnescaped(text, '{');
+  const close = open === -1 ? -1 : findUnescaped(text, '}', open);
+  if (open === -1 || close === -1) {
+    throw new Error(`Invalid question at ${location}: missing {answer} block`);
+  }
+
+  const stem = toText(`${text.slice(0, open)} ${text.slice(close + 1)}`);
+  const [answerBody, ...feedback] = splitUnescaped(text.slice(open + 1, close), '####');
+  const referenceAnswer = feedback.length > 0 ? toText(feedback.join('####')) : '';
+  const body = answerBody.trim();
+
+  const trueFalse = body.match(/^(T|TRUE|F|FALSE)\b/i);
+  if (trueFalse) {
+    const answer = /^t/i.test(trueFalse[1]) ? 'True' : 'False';
+    return toQuestion(
+      { ...meta, type: 'multiple_choice', stem, options: ['True', 'False'], correctAnswer: answer, referenceAnswer },
+      location,
+    );
+  }
+
+  const answers = parseGiftAnswers(body, toText);
+  const hasDistractors = answers.some(answer => !answer.correct);
+  const correct = answers.find(answer => answer.correct);
+
+  if (answers.length === 0) {
+    return toQuestion(
+      { ...meta, type: meta.type === 'application' ? 'application' : 'essay', stem, referenceAnswer },
+      location,
+    );
+  }
+
+  if (hasDistractors) {
+    return toQuestion(
+      {
+        ...meta,
+        type: 'multiple_choice',
+        stem,
+        options: answers.map(answer => answer.text),
+        correctAnswer: correct?.text ?? '',
+        referenceAnswer,
+      },
+      location,
+    );
+  }
+
+  return toQuestion({ ...meta, type: 'short_answer', stem, correctAnswer: correct?.text, referenceAnswer }, location);
+}
+
+export function parseGift(content: string): Question[] {
+  const blocks = content
+    .replace(/\r\n/g, '\n')
+    .replace(/^\$CATEGORY:.*$/gm, '')
+    .split(/\n\s*\n/)
+    .map(block => block.trim())
+    // A block with only comments (e.g. a file header) is not a question
+    .filter(block => block.split('\n').some(line => line.trim() && !line.trimStart().startsWith('//')));
+
+  return blocks.map((block, index) => parseGiftQuestion(block, `GIFT question ${index + 1}`));
+}
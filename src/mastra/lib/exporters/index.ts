@@ -0,0 +1,52 @@
+import { z } from 'zod';
+import type { Question } from '../../tools/generate-questions-from-text-tool';
+import { exportAnki, parseAnki } from './anki';
+import { exportCsv, parseCsv } from './csv';
+import { exportGift, parseGift } from './gift';
+import { exportQti, parseQti } from './qti';
+import type { ExportedFile, ExportOptions } from './shared';
+
+export type { ExportedFile, ExportOptions } from './shared';
+
+export const exportFormatSchema = z
+  .enum(['qti', 'gift', 'csv', 'anki'])
+  .describe('qti: IMS QTI 2.1 package files; gift: Moodle GIFT; csv: spreadsheet; anki: Anki tab-separated notes');
+
+export type ExportFormat = z.infer<typeof exportFormatSchema>;
+
+export const exportedFileSchema = z.object({
+  filename: z.string().describe('Suggested file name; QTI item files are placed under items/'),
+  mimeType: z.string(),
+  content: z.string().describe('File contents'),
+});
+
+export function exportQuestions(
+  questions: Question[],
+  format: ExportFormat,
+  options: ExportOptions = {},
+): ExportedFile[] {
+  switch (format) {
+    case 'qti':
+      return exportQti(questions, options);
+    case 'gift':
+      return [exportGift(questions, options)];
+    case 'csv':
+      return [exportCsv(questions, options)];
+    case 'anki':
+      return [exportAnki(questions, options)];
+  }
+}
+
+// Inverse of exportQuestions: re-imports a (possibly edited) export. QTI takes every file of the package,
+// the other formats take their single file. Throws with the offending question's location on invalid input.
+export function parseQuestions(format: ExportFormat, files: ExportedFile[] | string): Question[] {
+  const fileList =
+    typeof files === 'string' ? [{ filename: `questions.${format}`, mimeType: '', content: files }] : files;
+
+  if (format === 'qti') {
+    return parseQti(fileList);
+  }
+
+  const parse = format === 'gift' ? parseGift : format === 'csv' ? parseCsv : parseAnki;
+  return fileList.flatMap(file => parse(file.content));
+}
@@ -0,0 +1,310 @@
+import { XMLParser } from 'fast-xml-parser';
+import {
+  bloomLevelSchema,
+  difficultySchema,
+  questionTypeSchema,
+  type Citation,
+  type Question,
+} from '../../tools/generate-questions-from-text-tool';
+import {
+  DEFAULT_EXPORT_TITLE,
+  escapeXml,
+  htmlToText,
+  toQuestion,
+  type ExportedFile,
+  type ExportOptions,
+} from './shared';
+
+const QTI_NAMESPACE = 'http://www.imsglobal.org/xsd/imsqti_v2p1';
+const QTI_SCHEMA_LOCATION = `${QTI_NAMESPACE} http://www.imsglobal.org/xsd/qti/qtiv2p1/imsqti_v2p1.xsd`;
+const MATCH_CORRECT_TEMPLATE = 'http://www.imsglobal.org/question/qti_v2p1/rptemplates/match_correct';
+const QTI_MIME_TYPE = 'application/xml';
+const LOM_NAMESPACE = 'http://ltsc.ieee.org/xsd/LOM';
+// Source of the LOM taxon path that holds the question's document section
+const SECTION_TAXON_SOURCE = 'section';
+
+function choiceIdentifier(index: number): string {
+  return `CHOICE_${String.fromCharCode(65 + index)}`;
+}
+
+function itemIdentifier(index: number): string {
+  return `q${String(index + 1).padStart(3, '0')}`;
+}
+
+// QTI has no fields for these, so they are carried as classes on itemBody and in a scorer-only rubric block
+function exportQtiItem(question: Question, index: number): string {
+  const identifier = itemIdentifier(index);
+  const stem = escapeXml(question.stem);
+  const lines: string[] = [
+    '<?xml version="1.0" encoding="UTF-8"?>',
+    `<assessmentItem xmlns="${QTI_NAMESPACE}" xmlns:xsi="http://www.w3.org/2001/XMLSchema-instance" xsi:schemaLocation="${QTI_SCHEMA_LOCATION}" identifier="${identifier}" title="Question ${index + 1}" adaptive="false" timeDependent="false">`,
+  ];
+
+  if (question.type === 'multiple_choice') {
+    const correctIndex = question.options.indexOf(question.correctAnswer);
+    lines.push('  <responseDeclaration identifier="RESPONSE" cardinality="single" baseType="identifier">');
+    if (correctIndex !== -1) {
+      lines.push(`    <correctResponse><value>${choiceIdentifier(correctIndex)}</value></correctResponse>`);
+    }
+    lines.push('  </responseDeclaration>');
+  } else {
+    lines.push(
+      '  <responseDeclaration identifier="RESPONSE" cardinality="single" baseType="string">',
+      `    <correctResponse><value>${escapeXml(question.correctAnswer)}</value></correctResponse>`,
+      '  </responseDeclaration>',
+    );
+  }
+
+  lines.push(
+    '  <outcomeDeclaration identifier="SCORE" cardinality="single" baseType="float"/>',
+    `  <itemBody class="type-${question.type} bloom-${question.bloomLevel} difficulty-${question.difficulty}">`,
+  );
+
+  if (question.type === 'multiple_choice') {
+    lines.push(
+      '    <choiceInteraction responseIdentifier="RESPONSE" shuffle="false" maxChoices="1">',
+      `      <prompt>${stem}</prompt>`,
+      ...question.options.map(
+        (option, optionIndex) =>
+          `      <simpleChoice identifier="${choiceIdentifier(optionIndex)}">${escapeXml(option)}</simpleChoice>`,
+      ),
+      '    </choiceInteraction>',
+    );
+  } else if (question.type === 'short_answer') {
+    lines.push(
+      `    <p class="stem">${stem}</p>`,
+      '    <p><textEntryInteraction responseIdentifier="RESPONSE" expectedLength="50"/></p>',
+    );
+  } else {
+    lines.push(
+      '    <extendedTextInteraction responseIdentifier="RESPONSE" expectedLines="10">',
+      `      <prompt>${stem}</prompt>`,
+      '    </extendedTextInteraction>',
+    );
+  }
+
+  if (question.referenceAnswer || question.citations.length > 0) {
+    lines.push('    <rubricBlock view="scorer">');
+    if (question.referenceAnswer) {
+      lines.push(`      <p class="reference-answer">${escapeXml(question.referenceAnswer)}</p>`);
+    }
+    for (const citation of question.citations) {
+      lines.push(
+        `      <p class="citation${citation.verified ? ' verified' : ''}" label="page-${citation.page}">${escapeXml(citation.quote)}</p>`,
+      );
+    }
+    lines.push('    </rubricBlock>');
+  }
+
+  lines.push('  </itemBody>');
+
+  // Open-ended answers are scored by hand, so only closed questions get automatic response processing
+  if (question.type === 'multiple_choice' || question.type === 'short_answer') {
+    lines.push(`  <responseProcessing template="${MATCH_CORRECT_TEMPLATE}"/>`);
+  }
+
+  lines.push('</assessmentItem>');
+  return lines.join('\n') + '\n';
+}
+
+// The document section is item metadata: a LOM classification on the item's resource in the manifest
+function exportQtiItemMetadata(section: string): string[] {
+  return [
+    '      <metadata>',
+    `        <lom xmlns="${LOM_NAMESPACE}">`,
+    '          <classification>',
+    '            <purpose><source>LOMv1.0</source><value>idea</value></purpose>',
+    '            <taxonPath>',
+    `              <source><string>${SECTION_TAXON_SOURCE}</string></source>`,
+    `              <taxon><entry><string>${escapeXml(section)}</string></entry></taxon>`,
+    '            </taxonPath>',
+    '          </classification>',
+    '        </lom>',
+    '      </metadata>',
+  ];
+}
+
+function exportQtiManifest(questions: Question[], title: string): string {
+  const resources = questions.map((question, index) => {
+    const identifier = itemIdentifier(index);
+    return [
+      `    <resource identifier="${identifier}" type="imsqti_item_xmlv2p1" href="items/${identifier}.xml">`,
+      ...(question.section ? exportQtiItemMetadata(question.section) : []),
+      `      <file href="items/${identifier}.xml"/>`,
+      '    </resource>',
+    ].join('\n');
+  });
+
+  return [
+    '<?xml version="1.0" encoding="UTF-8"?>',
+    '<manifest xmlns="http://www.imsglobal.org/xsd/imscp_v1p1" identifier="pdf-questions-manifest">',
+    '  <metadata>',
+    '    <schema>QTIv2.1 Package</schema>',
+    '    <schemaversion>1.0.0</schemaversion>',
+    `    <title>${escapeXml(title)}</title>`,
+    '  </metadata>',
+    '  <organizations/>',
+    '  <resources>',
+    ...resources,
+    '  </resources>',
+    '</manifest>',
+    '',
+  ].join('\n');
+}
+
+// Produces the files of a QTI 2.1 content package: imsmanifest.xml plus one assessmentItem per question.
+// Zip them (keeping the items/ folder) to import into an LMS.
+export function exportQti(questions: Question[], options: ExportOptions = {}): ExportedFile[] {
+  return [
+    {
+      filename: 'imsmanifest.xml',
+      mimeType: QTI_MIME_TYPE,
+      content: exportQtiManifest(questions, options.title ?? DEFAULT_EXPORT_TITLE),
+    },
+    ...questions.map((question, index) => ({
+      filename: `items/${itemIdentifier(index)}.xml`,
+      mimeType: QTI_MIME_TYPE,
+      content: exportQtiItem(question, index),
+    })),
+  ];
+}
+
+type XmlNode = Record<string, any>;
+
+// Inline markup inside text-bearing elements is kept raw and flattened to text afterwards
+const qtiParser = new XMLParser({
+  ignoreAttributes: false,
+  attributeNamePrefix: '@_',
+  removeNSPrefix: true,
+  parseTagValue: false,
+  trimValues: true,
+  stopNodes: ['*.prompt', '*.simpleChoice', '*.p', '*.value'],
+  isArray: name =>
+    ['simpleChoice', 'p', 'value', 'rubricBlock', 'resource', 'classification', 'taxonPath'].includes(name),
+});
+
+function textOf(node: unknown): string {
+  if (node === undefined || node === null) {
+    return '';
+  }
+  if (typeof node === 'object') {
+    return htmlToText(String((node as XmlNode)['#text'] ?? ''));
+  }
+  return htmlToText(String(node));
+}
+
+function classesOf(node: XmlNode | undefined): string[] {
+  return String(node?.['@_class'] ?? '')
+    .split(/\s+/)
+    .filter(Boolean);
+}
+
+function classValue(classes: string[], prefix: string): string | undefined {
+  return classes.find(name => name.startsWith(`${prefix}-`))?.slice(prefix.length + 1);
+}
+
+function parseQtiFile(content: string, location: string): XmlNode {
+  try {
+    return qtiParser.parse(content);
+  } catch (error) {
+    throw new Error(`Invalid question at ${location}: ${error instanceof Error ? error.message : 'malformed XML'}`);
+  }
+}
+
+// Section of each item, by the item's file path, from the resource metadata in the manifest
+function sectionsFromManifest(manifest: XmlNode | undefined): Map<string, string> {
+  const sections = new Map<string, string>();
+  for (const resource of (manifest?.resources?.resource ?? []) as XmlNode[]) {
+    const classifications: XmlNode[] = resource.metadata?.lom?.classification ?? [];
+    const taxonPath = classifications
+      .flatMap((classification: XmlNode) => classification.taxonPath ?? [])
+      .find((path: XmlNode) => textOf(path.source?.string) === SECTION_TAXON_SOURCE);
+    const section = textOf(taxonPath?.taxon?.entry?.string);
+    if (resource['@_href'] && section) {
+      sections.set(String(resource['@_href']), section);
+    }
+  }
+  return sections;
+}
+
+function parseQtiItem(document: XmlNode, location: string, section: string | undefined): Question | null {
+  const item: XmlNode | undefined = document.assessmentItem;
+  if (!item) {
+    // Manifests and other package files are skipped
+    return null;
+  }
+
+  const body: XmlNode = item.itemBody ?? {};
+  const classes = classesOf(body);
+  const declaration: XmlNode | undefined = [item.responseDeclaration].flat()[0];
+  const correctValue = textOf(declaration?.correctResponse?.value?.[0]);
+
+  const rubricParagraphs: XmlNode[] = (body.rubricBlock ?? []).flatMap((block: XmlNode) => block.p ?? []);
+  const referenceAnswer = textOf(rubricParagraphs.find(p => classesOf(p).includes('reference-answer')));
+  const citations: Citation[] = rubricParagraphs
+    .filter(p => classesOf(p).includes('citation'))
+    .map(p => ({
+      page: Number(String(p['@_label'] ?? '').replace(/^page-/, '')) || 1,
+      quote: textOf(p),
+      verified: classesOf(p).includes('verified'),
+    }));
+
+  const typeClass = questionTypeSchema.safeParse(classValue(classes, 'type'));
+  const bloomClass = bloomLevelSchema.safeParse(classValue(classes, 'bloom'));
+  const difficultyClass = difficultySchema.safeParse(classValue(classes, 'difficulty'));
+  const common = {
+    referenceAnswer,
+    citations,
+    bloomLevel: bloomClass.success ? bloomClass.data : undefined,
+    difficulty: difficultyClass.success ? difficultyClass.data : undefined,
+    section,
+  };
+
+  const choice: XmlNode | undefined = body.choiceInteraction;
+  if (choice) {
+    const choices: XmlNode[] = choice.simpleChoice ?? [];
+    return toQuestion(
+      {
+        ...common,
+        type: 'multiple_choice',
+        stem: textOf(choice.prompt),
+        options: choices.map(textOf),
+        correctAnswer: textOf(choices.find(option => option['@_identifier'] === correctValue)),
+      },
+      location,
+    );
+  }
+
+  const extended: XmlNode | undefined = body.extendedTextInteraction;
+  if (extended) {
+    return toQuestion(
+      {
+        ...common,
+        type: typeClass.success && typeClass.data === 'application' ? 'application' : 'essay',
+        stem: textOf(extended.prompt),
+        correctAnswer: correctValue,
+      },
+      location,
+    );
+  }
+
+  // Short answer: the stem is the paragraph that does not only hold the text entry
+  const paragraphs: XmlNode[] = body.p ?? [];
+  const stemParagraph = paragraphs.find(p => classesOf(p).includes('stem')) ?? paragraphs.find(p => textOf(p));
+  return toQuestion(
+    { ...common, type: 'short_answer', stem: textOf(stemParagraph), correctAnswer: correctValue },
+    location,
+  );
+}
+
+export function parseQti(files: ExportedFile[]): Question[] {
+  const documents = files.map(file => ({
+    filename: file.filename,
+    document: parseQtiFile(file.content, file.filename),
+  }));
+  const sections = sectionsFromManifest(documents.find(({ document }) => document.manifest)?.document.manifest);
+
+  return documents
+    .map(({ filename, document }) => parseQtiItem(document, filename, sections.get(filename)))
+    .filter((question): question is Question => question !== null);
+}
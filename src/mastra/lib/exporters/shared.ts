@@ -0,0 +1,71 @@
+import { questionSchema, type Question } from '../../tools/generate-questions-from-text-tool';
+
+export interface ExportedFile {
+  filename: string;
+  mimeType: string;
+  content: string;
+}
+
+export interface ExportOptions {
+  // Used as the quiz title, GIFT category and Anki deck name
+  title?: string;
+}
+
+export const DEFAULT_EXPORT_TITLE = 'PDF Questions';
+
+const XML_ESCAPES: Record<string, string> = { '&': '&amp;', '<': '&lt;', '>': '&gt;', '"': '&quot;', "'": '&apos;' };
+
+// Escapes text for XML and HTML element content and attribute values
+export function escapeXml(text: string): string {
+  return text.replace(/[&<>"']/g, char => XML_ESCAPES[char]);
+}
+
+const NAMED_ENTITIES: Record<string, string> = { amp: '&', lt: '<', gt: '>', quot: '"', apos: "'", nbsp: ' ' };
+
+export function decodeEntities(text: string): string {
+  return text.replace(/&(#x[0-9a-f]+|#\d+|[a-z]+);/gi, (entity, name: string) => {
+    if (name[0] === '#') {
+      const code = name[1].toLowerCase() === 'x' ? parseInt(name.slice(2), 16) : parseInt(name.slice(1), 10);
+      return Number.isFinite(code) ? String.fromCodePoint(code) : entity;
+    }
+    return NAMED_ENTITIES[name.toLowerCase()] ?? entity;
+  });
+}
+
+// Turns markup added by an editor (bold, line breaks, ...) back into plain text
+export function htmlToText(html: string): string {
+  return decodeEntities(
+    html
+      .replace(/<br\s*\/?>/gi, '\n')
+      .replace(/<[^>]+>/g, '')
+      .replace(/[ \t]+\n/g, '\n'),
+  ).trim();
+}
+
+// Fill in defaults for fields a format cannot carry and validate the result, so every parser returns complete questions
+export function toQuestion(fields: Partial<Question>, location: string): Question {
+  const options = fields.options ?? [];
+  const candidate = {
+    type: fields.type ?? (options.length > 0 ? 'multiple_choice' : 'short_answer'),
+    stem: fields.stem?.trim() ?? '',
+    options,
+    correctAnswer: fields.correctAnswer?.trim() ?? '',
+    referenceAnswer: fields.referenceAnswer?.trim() ?? '',
+    citations: fields.citations ?? [],
+    bloomLevel: fields.bloomLevel ?? 'understand',
+    difficulty: fields.difficulty ?? 'medium',
+    ...(fields.section ? { section: fields.section } : {}),
+  };
+
+  if (!candidate.stem) {
+    throw new Error(`Invalid question at ${location}: missing question text`);
+  }
+
+  const parsed = questionSchema.safeParse(candidate);
+  if (!parsed.success) {
+    const issue = parsed.error.issues[0];
+    throw new Error(`Invalid question at ${location}: ${issue.path.join('.')} ${issue.message}`);
+  }
+
+  return parsed.data;
+}
@@ -0,0 +1,65 @@
+import { EXTRACTION_VERSION, extractTextFromPDF } from './util';
+import { loadPdfSource, type PdfSource } from './pdf-source';
+import { getCachedStage, hashPdf, setCachedStage, type CacheMode } from './cache';
+import type { ProgressListener } from './progress';
+import { chargePages } from './tenants';
+import { getOcrEngine, type OcrEngine } from './ocr';
+
+export type ExtractionResult = Awaited<ReturnType<typeof extractTextFromPDF>>;
+
+// OCR output is part of the extraction, so each engine (or none) gets its own cache entry
+export function extractionCacheVariant(engine: OcrEngine | null): string {
+  return `${EXTRACTION_VERSION}:${engine?.id ?? 'none'}`;
+}
+
+export interface ExtractedPdf {
+  pdfBuffer: Buffer;
+  fileSize: number;
+  contentHash: string;
+  extraction: ExtractionResult;
+  extractionHit: boolean;
+}
+
+// Load a PDF from any source and extract its text, reusing a cached extraction of the same bytes when allowed.
+// With a tenant, the tenant's own cache is used and the document's pages count against its daily page quota.
+export async function loadAndExtractPdf(
+  source: PdfSource,
+  cacheMode: CacheMode = 'read-write',
+  onProgress?: ProgressListener,
+  tenantId?: string,
+): Promise<ExtractedPdf> {
+  const pdfBuffer = await loadPdfSource(source, onProgress);
+  const contentHash = hashPdf(pdfBuffer);
+
+  console.log(`✅ Loaded PDF: ${pdfBuffer.length} bytes (sha256 ${contentHash.slice(0, 12)})`);
+
+  const ocrEngine = getOcrEngine();
+  const variant = extractionCacheVariant(ocrEngine);
+  let extraction =
+    cacheMode === 'read-write'
+      ? await getCachedStage<ExtractionResult>(contentHash, 'extraction', variant, tenantId)
+      : null;
+  const extractionHit = extraction !== null;
+
+  if (extraction) {
+    console.log('♻️ Using cached text extraction');
+    onProgress?.({ type: 'pages-parsed', pagesParsed: extraction.pagesCount, totalPages: extraction.pagesCount });
+  } else {
+    console.log('📄 Extracting text from PDF...');
+    extraction = await extractTextFromPDF(pdfBuffer, { ocrEngine, onProgress });
+    // A failed OCR run is retried next time rather than leaving the scanned pages empty in the cache
+    if (cacheMode !== 'bypass' && !extraction.ocrFailed) {
+      await setCachedStage(contentHash, 'extraction', variant, extraction, tenantId);
+    }
+  }
+
+  if (!extraction.extractedText || extraction.extractedText.trim() === '') {
+    throw new Error('No text could be extracted from the PDF');
+  }
+
+  await chargePages(tenantId, extraction.pagesCount);
+
+  console.log(`✅ Extracted ${extraction.extractedText.length} characters from ${extraction.pagesCount} pages`);
+
+  return { pdfBuffer, fileSize: pdfBuffer.length, contentHash, extraction, extractionHit };
+}
@@ -0,0 +1,200 @@
+import type { GenerationProfile, Question } from '../tools/generate-questions-from-text-tool';
+
+type QuestionType = Question['type'];
+type Difficulty = Question['difficulty'];
+type Counts<K extends string> = Partial<Record<K, number>>;
+
+// Exact counts for a given number of questions; null means the profile does not constrain that dimension
+export interface QuestionMix {
+  types: Counts<QuestionType> | null;
+  difficulty: Counts<Difficulty> | null;
+}
+
+export interface QuestionMixCheck {
+  matches: boolean;
+  requested: QuestionMix;
+  actual: { types: Counts<QuestionType>; difficulty: Counts<Difficulty> };
+  issues: string[];
+}
+
+function positiveEntries<K extends string>(counts: Counts<K> | null | undefined): [K, number][] {
+  return Object.entries(counts ?? {}).filter((entry): entry is [K, number] => (entry[1] as number) > 0) as [
+    K,
+    number,
+  ][];
+}
+
+// Largest-remainder rounding of relative weights into whole counts that add up to `size`
+function apportion<K extends string>(weights: Counts<K> | undefined, size: number): Counts<K> | null {
+  const entries = positiveEntries(weights);
+  if (entries.length === 0) {
+    return null;
+  }
+
+  const weightSum = entries.reduce((sum, [, weight]) => sum + weight, 0);
+  const shares = entries.map(([key, weight]) => ({ key, exact: (weight / weightSum) * size }));
+  const counts = Object.fromEntries(shares.map(share => [share.key, Math.floor(share.exact)])) as Record<K, number>;
+
+  let remaining = size - shares.reduce((sum, share) => sum + Math.floor(share.exact), 0);
+  for (const share of [...shares].sort((a, b) => (b.exact % 1) - (a.exact % 1))) {
+    if (remaining <= 0) {
+      break;
+    }
+    counts[share.key] += 1;
+    remaining -= 1;
+  }
+
+  return counts;
+}
+
+export function resolveQuestionMix(profile: GenerationProfile | undefined, size: number): QuestionMix {
+  return {
+    types: apportion(profile?.questionTypes, size),
+    difficulty: apportion(profile?.difficulty, size),
+  };
+}
+
+// Spread each key evenly through the sequence (MC, SA, MC, SA, ... rather than MC, MC, SA, SA)
+function interleave<K extends string>(counts: Counts<K>): K[] {
+  return positiveEntries(counts)
+    .flatMap(([key, count]) => Array.from({ length: count }, (_, index) => ({ key, position: (index + 0.5) / count })))
+    .sort((a, b) => a.position - b.position)
+    .map(slot => slot.key);
+}
+
+function countKeys<K extends string>(keys: K[]): Counts<K> {
+  const counts: Counts<K> = {};
+  for (const key of keys) {
+    counts[key] = (counts[key] ?? 0) + 1;
+  }
+  return counts;
+}
+
+// Deal a document-wide mix out over per-section quotas, so small sections do not all get the most common type
+export function splitQuestionMix(mix: QuestionMix, quotas: number[]): QuestionMix[] {
+  const types = mix.types ? interleave(mix.types) : null;
+  const difficulty = mix.difficulty ? interleave(mix.difficulty) : null;
+
+  let offset = 0;
+  return quotas.map(quota => {
+    const slice = <K extends string>(sequence: K[] | null) =>
+      sequence
+        ? countKeys(Array.from({ length: quota }, (_, index) => sequence[(offset + index) % sequence.length]))
+        : null;
+    const sectionMix = { types: slice(types), difficulty: slice(difficulty) };
+    offset += quota;
+    return sectionMix;
+  });
+}
+
+function formatCounts<K extends string>(counts: Counts<K>): string {
+  return positiveEntries(counts)
+    .map(([key, count]) => `${count} ${key}`)
+    .join(', ');
+}
+
+// Prompt lines telling the model how many questions of which kind to write, for whom, and how
+export function formatProfileInstructions(profile: GenerationProfile, mix: QuestionMix): string {
+  const lines: string[] = [];
+  if (profile.audience) {
+    lines.push(`Write for this audience: ${profile.audience}. Match vocabulary, depth and examples to it.`);
+  }
+  if (mix.types) {
+    lines.push(`Question types: exactly ${formatCounts(mix.types)}. Do not use any other question type.`);
+  }
+  if (mix.difficulty) {
+    lines.push(`Difficulty: exactly ${formatCounts(mix.difficulty)}.`);
+  }
+  if (profile.language) {
+    lines.push(
+      `Write the questions, options and answers in ${profile.language}. Keep citation quotes verbatim in the language of the source.`,
+    );
+  }
+  if (profile.style) {
+    lines.push(`Style instructions: ${profile.style}`);
+  }
+  return lines.length > 0 ? `\nGeneration profile:\n${lines.map(line => `- ${line}`).join('\n')}\n` : '';
+}
+
+// Keep questions in order while they fit the remaining type and difficulty counts. Questions of a needed type but
+// the wrong difficulty are only taken if nothing better came back, so a short answer set is not made shorter.
+export function fitQuestionsToMix(
+  questions: Question[],
+  mix: QuestionMix,
+  size: number,
+): { questions: Question[]; missing: QuestionMix } {
+  const remainingTypes = mix.types ? { ...mix.types } : null;
+  const remainingDifficulty = mix.difficulty ? { ...mix.difficulty } : null;
+  const kept = new Set<number>();
+
+  const take = (index: number) => {
+    const question = questions[index];
+    kept.add(index);
+    if (remainingTypes) {
+      remainingTypes[question.type] = (remainingTypes[question.type] ?? 0) - 1;
+    }
+    if (remainingDifficulty && (remainingDifficulty[question.difficulty] ?? 0) > 0) {
+      remainingDifficulty[question.difficulty] = (remainingDifficulty[question.difficulty] ?? 0) - 1;
+    }
+  };
+  const typeFits = (question: Question) => !remainingTypes || (remainingTypes[question.type] ?? 0) > 0;
+  const difficultyFits = (question: Question) =>
+    !remainingDifficulty || (remainingDifficulty[question.difficulty] ?? 0) > 0;
+
+  for (const strict of [true, false]) {
+    questions.forEach((question, index) => {
+      if (kept.size < size && !kept.has(index) && typeFits(question) && (!strict || difficultyFits(question))) {
+        take(index);
+      }
+    });
+  }
+
+  const missingCounts = <K extends string>(remaining: Counts<K> | null) =>
+    remaining ? (Object.fromEntries(positiveEntries(remaining)) as Counts<K>) : null;
+
+  return {
+    questions: questions.filter((_question, index) => kept.has(index)),
+    missing: { types: missingCounts(remainingTypes), difficulty: missingCounts(remainingDifficulty) },
+  };
+}
+
+// The type and difficulty counts of an existing set of questions
+export function mixOf(questions: Question[]): { types: Counts<QuestionType>; difficulty: Counts<Difficulty> } {
+  return {
+    types: countKeys(questions.map(question => question.type)),
+    difficulty: countKeys(questions.map(question => question.difficulty)),
+  };
+}
+
+// Compare the returned set with the requested mix
+export function checkQuestionMix(questions: Question[], mix: QuestionMix): QuestionMixCheck {
+  const actual = mixOf(questions);
+  const issues: string[] = [];
+
+  const compare = <K extends string>(label: string, requested: Counts<K> | null, got: Counts<K>) => {
+    if (!requested) {
+      return;
+    }
+    const keys = new Set([...Object.keys(requested), ...Object.keys(got)] as K[]);
+    for (const key of keys) {
+      const want = requested[key] ?? 0;
+      const have = got[key] ?? 0;
+      if (want !== have) {
+        issues.push(`${label} ${key}: requested ${want}, got ${have}`);
+      }
+    }
+  };
+  compare('type', mix.types, actual.types);
+  compare('difficulty', mix.difficulty, actual.difficulty);
+
+  return { matches: issues.length === 0, requested: mix, actual, issues };
+}
+
+// A profile that asks for exactly the given mix, e.g. to top up or replace specific questions
+export function profileForMix(profile: GenerationProfile | undefined, mix: QuestionMix): GenerationProfile {
+  return {
+    ...profile,
+    questionTypes: mix.types ?? profile?.questionTypes,
+    difficulty: mix.difficulty ?? profile?.difficulty,
+  };
+}
@@ -0,0 +1,236 @@
+import { z } from 'zod';
+import type { RequestContext } from '@mastra/core/di';
+import type { PdfPageText } from './util';
+import type { PdfOutlineItem, PdfStructure } from './metadata';
+import type { Question } from '../tools/generate-questions-from-text-tool';
+
+// RequestContext key that turns PII redaction on or off for one run, overriding PDF_REDACT_PII
+export const REDACT_PII_KEY = 'redactPii';
+
+// Replaces a document sentence that tries to instruct the model; worded so it never matches a pattern itself
+export const NEUTRALIZED_MARKER = '[removed: instruction-like text from the document]';
+
+// The report lists at most this many findings; the counts always cover all of them
+const MAX_REPORTED_FINDINGS = 50;
+
+export const injectionCategorySchema = z.enum([
+  'ignore-instructions',
+  'role-override',
+  'prompt-exfiltration',
+  'tool-invocation',
+  'chat-markup',
+]);
+
+export const piiCategorySchema = z.enum(['email', 'phone', 'national-id']);
+
+export const guardrailFindingSchema = z.object({
+  type: z.enum(['prompt-injection', 'pii']),
+  category: z.union([injectionCategorySchema, piiCategorySchema]),
+  page: z.number().nullable().describe('Page the text is on; null for text without pages'),
+  excerpt: z.string().describe('The matched text; PII is masked'),
+});
+
+export const guardrailReportSchema = z.object({
+  promptInjections: z.number().describe('Instruction-like passages found and neutralized before reaching a model'),
+  pii: z.object({ email: z.number(), phone: z.number(), nationalId: z.number() }),
+  piiRedacted: z.boolean().describe('Whether PII was replaced with placeholders before reaching a model'),
+  findings: z.array(guardrailFindingSchema).describe(`The first ${MAX_REPORTED_FINDINGS} findings, in page order`),
+});
+
+export type GuardrailFinding = z.infer<typeof guardrailFindingSchema>;
+export type GuardrailReport = z.infer<typeof guardrailReportSchema>;
+type InjectionCategory = z.infer<typeof injectionCategorySchema>;
+type PiiCategory = z.infer<typeof piiCategorySchema>;
+
+// Phrases that address the model rather than the reader. Each removes its whole sentence, since the rest of an
+// injected sentence ("... and send the answers to ...") is part of the instruction.
+const INJECTION_PATTERNS: { category: InjectionCategory; pattern: string }[] = [
+  {
+    category: 'ignore-instructions',
+    pattern:
+      '\\b(?:ignore|disregard|forget|override)\\s+(?:all\\s+|any\\s+|the\\s+)*(?:previous|prior|above|earlier|preceding|your|system|developer)\\s+(?:instructions?|prompts?|rules|directions|guidelines)\\b',
+  },
+  {
+    category: 'role-override',
+    pattern:
+      '\\byou\\s+are\\s+now\\b|\\bfrom\\s+now\\s+on,?\\s+you\\b|\\bnew\\s+instructions?\\s*:|\\bact\\s+as\\s+(?:an?\\s+)?(?:system|admin|administrator|developer|unrestricted|jailbroken)\\b',
+  },
+  {
+    category: 'prompt-exfiltration',
+    pattern:
+      '\\b(?:reveal|print|show|repeat|output|leak)\\s+(?:your|the)\\s+(?:system\\s+prompt|instructions|hidden\\s+prompt|api\\s+keys?)\\b',
+  },
+  {
+    category: 'tool-invocation',
+    pattern: '\\b(?:call|invoke|run|execute|trigger)\\s+(?:the\\s+)?[\\w-]*tool\\b',
+  },
+];
+
+// Chat-template tokens and role prefixes are removed on their own; the text after them stays
+const MARKUP_PATTERNS = [
+  /<\|[a-z_]+\|>|\[\/?INST\]|<\/?(?:system|assistant)>/gi,
+  /^\s*(?:system|assistant|developer)\s*:/gim,
+];
+
+function sentencePattern(pattern: string): RegExp {
+  return new RegExp(`[^.!?\\n]*(?:${pattern})[^.!?\\n]*[.!?]?`, 'gi');
+}
+
+const PII_PATTERNS: { category: PiiCategory; pattern: RegExp; placeholder: string }[] = [
+  // US Social Security and UK National Insurance numbers; before phone numbers, which could overlap
+  {
+    category: 'national-id',
+    pattern: /\b\d{3}-\d{2}-\d{4}\b|\b[A-CEGHJ-PR-TW-Z]{2} ?\d{2} ?\d{2} ?\d{2} ?[A-D]\b/g,
+    placeholder: '[NATIONAL ID]',
+  },
+  { category: 'email', pattern: /\b[A-Za-z0-9._%+-]+@[A-Za-z0-9.-]+\.[A-Za-z]{2,}\b/g, placeholder: '[EMAIL]' },
+  // International (+country code) or North American formats, with separators, so years and amounts do not match
+  {
+    category: 'phone',
+    pattern:
+      /(?<![\w+])(?:\+\d{1,3}(?:[ .-]?\(?\d{1,4}\)?){2,4}|\(\d{3}\) ?\d{3}[ .-]\d{4}|\d{3}[.-]\d{3}[.-]\d{4})(?!\w)/g,
+    placeholder: '[PHONE]',
+  },
+];
+
+function excerpt(text: string): string {
+  const trimmed = text.replace(/\s+/g, ' ').trim();
+  return trimmed.length > 120 ? `${trimmed.slice(0, 117)}...` : trimmed;
+}
+
+// Enough to recognize the value in the document, not enough to leak it through the report
+function maskPii(value: string): string {
+  return value.length <= 4 ? '•'.repeat(value.length) : `${value[0]}${'•'.repeat(value.length - 3)}${value.slice(-2)}`;
+}
+
+// Remove instruction-like sentences and chat markup, so document text cannot pose as instructions to the model
+export function neutralizeInjections(
+  text: string,
+  page: number | null = null,
+): { text: string; findings: GuardrailFinding[] } {
+  const findings: GuardrailFinding[] = [];
+  let result = text;
+
+  for (const { category, pattern } of INJECTION_PATTERNS) {
+    result = result.replace(sentencePattern(pattern), match => {
+      findings.push({ type: 'prompt-injection', category, page, excerpt: excerpt(match) });
+      const leading = match.match(/^\s*/)![0];
+      return `${leading}${NEUTRALIZED_MARKER}`;
+    });
+  }
+  for (const pattern of MARKUP_PATTERNS) {
+    result = result.replace(pattern, match => {
+      findings.push({ type: 'prompt-injection', category: 'chat-markup', page, excerpt: excerpt(match) });
+      return match.match(/^\s*/)![0];
+    });
+  }
+
+  return { text: result, findings };
+}
+
+// Find PII and, when redacting, replace each value with a placeholder naming its kind
+export function scanPii(
+  text: string,
+  options: { redact: boolean; page?: number | null },
+): { text: string; findings: GuardrailFinding[] } {
+  const findings: GuardrailFinding[] = [];
+  let result = text;
+
+  for (const { category, pattern, placeholder } of PII_PATTERNS) {
+    result = result.replace(pattern, match => {
+      if (category === 'phone' && match.replace(/\D/g, '').length < 8) {
+        return match;
+      }
+      findings.push({ type: 'pii', category, page: options.page ?? null, excerpt: maskPii(match) });
+      return options.redact ? placeholder : match;
+    });
+  }
+
+  return { text: result, findings };
+}
+
+// Injections are always neutralized; PII is only replaced when redacting
+export function guardText(
+  text: string,
+  options: { redactPii: boolean; page?: number | null },
+): { text: string; findings: GuardrailFinding[] } {
+  const neutralized = neutralizeInjections(text, options.page ?? null);
+  const pii = scanPii(neutralized.text, { redact: options.redactPii, page: options.page });
+  return { text: pii.text, findings: [...neutralized.findings, ...pii.findings] };
+}
+
+export function buildGuardrailReport(findings: GuardrailFinding[], piiRedacted: boolean): GuardrailReport {
+  const count = (category: PiiCategory) => findings.filter(finding => finding.category === category).length;
+  return {
+    promptInjections: findings.filter(finding => finding.type === 'prompt-injection').length,
+    pii: { email: count('email'), phone: count('phone'), nationalId: count('national-id') },
+    piiRedacted,
+    findings: findings.slice(0, MAX_REPORTED_FINDINGS),
+  };
+}
+
+// Guard every page of a document and report what was found where
+export function guardPages<T extends PdfPageText>(
+  pages: T[],
+  options: { redactPii: boolean },
+): { pages: T[]; findings: GuardrailFinding[] } {
+  const guarded = pages.map(page => ({ page, ...guardText(page.text, { ...options, page: page.pageNumber }) }));
+  return {
+    pages: guarded.map(({ page, text }) => ({ ...page, text })),
+    findings: guarded.flatMap(({ findings }) => findings),
+  };
+}
+
+// Guard the text of a stored question before a model reads it again; answers stay consistent with the options
+// because the same text is always guarded the same way
+export function guardQuestion<T extends Question>(question: T, options: { redactPii: boolean }): T {
+  const guard = (text: string) => guardText(text, options).text;
+  return {
+    ...question,
+    stem: guard(question.stem),
+    options: question.options.map(guard),
+    correctAnswer: guard(question.correctAnswer),
+    referenceAnswer: guard(question.referenceAnswer),
+    citations: question.citations.map(citation => ({ ...citation, quote: guard(citation.quote) })),
+  };
+}
+
+// Document info, bookmarks, links and form values are written by the document's author, like its text
+export function guardPdfStructure(structure: PdfStructure, options: { redactPii: boolean }): PdfStructure {
+  const guard = (text: string) => guardText(text, options).text;
+  const guardNullable = (text: string | null) => (text === null ? null : guard(text));
+  const guardOutline = (items: PdfOutlineItem[]): PdfOutlineItem[] =>
+    items.map(item => ({
+      ...item,
+      title: guard(item.title),
+      url: guardNullable(item.url),
+      items: guardOutline(item.items),
+    }));
+  const { info } = structure;
+
+  return {
+    ...structure,
+    info: {
+      ...info,
+      title: guardNullable(info.title),
+      author: guardNullable(info.author),
+      subject: guardNullable(info.subject),
+      keywords: guardNullable(info.keywords),
+      creator: guardNullable(info.creator),
+      producer: guardNullable(info.producer),
+    },
+    outline: guardOutline(structure.outline),
+    links: structure.links.map(link => ({ ...link, url: guardNullable(link.url) })),
+    formFields: structure.formFields.map(field => ({
+      ...field,
+      name: guard(field.name),
+      value: guardNullable(field.value),
+    })),
+  };
+}
+
+// PDF_REDACT_PII=true redacts by default; a run can override it through the RequestContext
+export function piiRedactionEnabled(requestContext?: RequestContext): boolean {
+  const override = requestContext?.get(REDACT_PII_KEY);
+  return typeof override === 'boolean' ? override : process.env.PDF_REDACT_PII === 'true';
+}
@@ -0,0 +1,109 @@
+import type { Mastra } from '@mastra/core/mastra';
+import type { WorkflowRunState, WorkflowRunStatus, WorkflowState } from '@mastra/core/workflows';
+import { TENANT_ID_KEY } from './tenants';
+
+export const DEFAULT_JOB_LIMIT = 20;
+
+export interface JobFilters {
+  // Key the workflow is registered under in the Mastra instance, e.g. pdfToQuestionsWorkflow
+  workflowId?: string;
+  status?: WorkflowRunStatus;
+  fromDate?: Date;
+  limit?: number;
+  offset?: number;
+}
+
+export interface JobSummary {
+  workflowId: string;
+  runId: string;
+  status: WorkflowRunStatus;
+  createdAt: string;
+  updatedAt: string;
+  // The workflow's output once it finished successfully
+  result: Record<string, unknown> | null;
+  error: string | null;
+}
+
+function parseSnapshot(snapshot: WorkflowRunState | string): WorkflowRunState | null {
+  if (typeof snapshot !== 'string') {
+    return snapshot;
+  }
+  try {
+    return JSON.parse(snapshot) as WorkflowRunState;
+  } catch {
+    return null;
+  }
+}
+
+// Past and running workflow runs, newest first. Runs belong to the tenant set as their resource id, which Mastra's
+// workflow routes and this project's routes set from the API key, and are filtered by it in the storage query;
+// without a tenant every run is listed.
+export async function listJobs(
+  mastra: Mastra,
+  tenantId: string | undefined,
+  filters: JobFilters = {},
+): Promise<{ jobs: JobSummary[]; total: number }> {
+  const workflows = Object.entries(mastra.listWorkflows()).filter(
+    ([workflowId]) => !filters.workflowId || workflowId === filters.workflowId,
+  );
+  const offset = filters.offset ?? 0;
+  const limit = filters.limit ?? DEFAULT_JOB_LIMIT;
+
+  // The newest offset + limit runs of each workflow are enough to fill the requested page of the merged list
+  const jobs: JobSummary[] = [];
+  let total = 0;
+  for (const [workflowId, workflow] of workflows) {
+    const { runs, total: workflowTotal } = await workflow.listWorkflowRuns({
+      resourceId: tenantId,
+      status: filters.status,
+      fromDate: filters.fromDate,
+      perPage: offset + limit,
+      page: 0,
+    });
+    total += workflowTotal;
+    for (const run of runs) {
+      const snapshot = parseSnapshot(run.snapshot);
+      if (!snapshot) {
+        continue;
+      }
+      jobs.push({
+        workflowId,
+        runId: run.runId,
+        status: snapshot.status,
+        createdAt: new Date(run.createdAt).toISOString(),
+        updatedAt: new Date(run.updatedAt).toISOString(),
+        result: snapshot.status === 'success' ? (snapshot.result ?? null) : null,
+        error: snapshot.error?.message ?? null,
+      });
+    }
+  }
+
+  jobs.sort((a, b) => b.createdAt.localeCompare(a.createdAt));
+  return { jobs: jobs.slice(offset, offset + limit), total };
+}
+
+// Runs stored without a resource id (e.g. started before tenants were configured) fall back to the tenant kept in
+// their RequestContext
+function isOwnedBy(run: Pick<WorkflowState, 'resourceId' | 'requestContext'>, tenantId: string): boolean {
+  return run.resourceId ? run.resourceId === tenantId : run.requestContext?.[TENANT_ID_KEY] === tenantId;
+}
+
+// Whether a run was started by the tenant; always true without a tenant (single-tenant mode)
+export async function isTenantRun(mastra: Mastra, tenantId: string | undefined, runId: string): Promise<boolean> {
+  return (await findRunOwnership(mastra, tenantId, runId)) === 'owned';
+}
+
+// 'missing' when no workflow has a run with this id, so a tenant may still create it
+export async function findRunOwnership(
+  mastra: Mastra,
+  tenantId: string | undefined,
+  runId: string,
+): Promise<'owned' | 'foreign' | 'missing'> {
+  for (const workflow of Object.values(mastra.listWorkflows())) {
+    const run = await workflow.getWorkflowRunById(runId, { fields: ['requestContext'] });
+    if (run) {
+      return !tenantId || isOwnedBy(run, tenantId) ? 'owned' : 'foreign';
+    }
+  }
+  return tenantId ? 'missing' : 'owned';
+}
@@ -0,0 +1,461 @@
+// Layout-aware reconstruction of pdf2json output: reading order, columns, headings and simple tables
+
+// pdf2json positions are in "page units" of 16pt (4.5 units per inch), font sizes are in points
+const POINTS_PER_UNIT = 16;
+const AVERAGE_CHAR_WIDTH_EM = 0.5;
+
+const HEADING_SIZE_RATIO = 1.15;
+const MAX_HEADING_LENGTH = 120;
+const TABLE_CELL_GAP_EM = 2;
+const MIN_TABLE_ROWS = 2;
+const GUTTER_BINS = 100;
+const MIN_COLUMN_ROWS = 3;
+const MIN_COLUMN_SPAN_RATIO = 0.2;
+const SECTION_GAP_EM = 3;
+
+// Minimal shape of the pdf2json data we rely on
+interface RawTextRun {
+  T?: string;
+  TS?: [number, number, number, number];
+}
+
+interface RawTextItem {
+  x: number;
+  y: number;
+  w?: number;
+  R?: RawTextRun[];
+}
+
+interface RawPage {
+  Width?: number;
+  Height?: number;
+  Texts?: RawTextItem[];
+}
+
+export interface RawPdfData {
+  Pages?: RawPage[];
+}
+
+export interface LayoutLine {
+  text: string;
+  x: number;
+  y: number;
+  fontSize: number;
+  bold: boolean;
+}
+
+export type LayoutBlock =
+  | { type: 'heading'; level: number; text: string; lines: LayoutLine[] }
+  | { type: 'paragraph'; text: string; lines: LayoutLine[] }
+  | { type: 'table'; rows: string[][]; lines: LayoutLine[] };
+
+export interface LayoutPage {
+  pageNumber: number;
+  width: number;
+  height: number;
+  columnCount: number;
+  blocks: LayoutBlock[];
+}
+
+export interface LayoutDocument {
+  bodyFontSize: number;
+  pages: LayoutPage[];
+}
+
+interface TextItem {
+  text: string;
+  x: number;
+  y: number;
+  width: number;
+  fontSize: number;
+  bold: boolean;
+}
+
+interface Row {
+  y: number;
+  items: TextItem[];
+}
+
+interface Region {
+  columns: Row[][];
+}
+
+function safeDecode(text: string): string {
+  try {
+    return decodeURIComponent(text);
+  } catch {
+    return text;
+  }
+}
+
+function toTextItems(page: RawPage): TextItem[] {
+  const items: TextItem[] = [];
+
+  for (const raw of page.Texts || []) {
+    const runs = raw.R || [];
+    const text = runs.map(run => safeDecode(run.T || '')).join('');
+    if (!text.trim()) {
+      continue;
+    }
+
+    const style = runs[0]?.TS;
+    const fontSize = style?.[1] || 12;
+    const estimatedWidth = (text.length * fontSize * AVERAGE_CHAR_WIDTH_EM) / POINTS_PER_UNIT;
+
+    items.push({
+      text,
+      x: raw.x,
+      y: raw.y,
+      width: raw.w && raw.w > 0 ? raw.w / POINTS_PER_UNIT : estimatedWidth,
+      fontSize,
+      bold: runs.length > 0 && runs.every(run => run.TS?.[2] === 1),
+    });
+  }
+
+  return items;
+}
+
+// Group items sharing a baseline into visual rows, top to bottom
+function groupIntoRows(items: TextItem[]): Row[] {
+  const sorted = [...items].sort((a, b) => a.y - b.y || a.x - b.x);
+  const rows: Row[] = [];
+
+  for (const item of sorted) {
+    const tolerance = (item.fontSize / POINTS_PER_UNIT) * 0.4;
+    const row = rows[rows.length - 1];
+    if (row && Math.abs(row.y - item.y) <= tolerance) {
+      row.items.push(item);
+    } else {
+      rows.push({ y: item.y, items: [item] });
+    }
+  }
+
+  for (const row of rows) {
+    row.items.sort((a, b) => a.x - b.x);
+  }
+
+  return rows;
+}
+
+// Find the emptiest vertical band in the middle of the page as the candidate column gutter
+function findColumnGutter(rows: Row[], pageWidth: number): number | null {
+  if (rows.length < MIN_COLUMN_ROWS || pageWidth <= 0) {
+    return null;
+  }
+
+  const binWidth = pageWidth / GUTTER_BINS;
+  const coverage = new Array(GUTTER_BINS).fill(0);
+
+  for (const row of rows) {
+    const covered = new Set<number>();
+    for (const item of row.items) {
+      const start = Math.max(0, Math.floor(item.x / binWidth));
+      const end = Math.min(GUTTER_BINS - 1, Math.floor((item.x + item.width) / binWidth));
+      for (let bin = start; bin <= end; bin++) {
+        covered.add(bin);
+      }
+    }
+    covered.forEach(bin => coverage[bin]++);
+  }
+
+  let best: { bin: number; count: number } | null = null;
+  for (let bin = Math.floor(GUTTER_BINS * 0.3); bin <= Math.floor(GUTTER_BINS * 0.7); bin++) {
+    if (!best || coverage[bin] < best.count) {
+      best = { bin, count: coverage[bin] };
+    }
+  }
+
+  // Full-width titles may cross the gutter, but most rows must leave it empty
+  if (!best || best.count > rows.length * 0.5) {
+    return null;
+  }
+
+  return (best.bin + 0.5) * binWidth;
+}
+
+function splitAtGutter(row: Row, gutter: number): { left: TextItem[]; right: TextItem[] } {
+  return {
+    left: row.items.filter(item => item.x < gutter),
+    right: row.items.filter(item => item.x >= gutter),
+  };
+}
+
+function span(items: TextItem[]): number {
+  if (items.length === 0) {
+    return 0;
+  }
+  const last = items[items.length - 1];
+  return last.x + last.width - items[0].x;
+}
+
+// A column row leaves the gutter empty and holds at most one run of text on each side (tables hold several)
+function isColumnRow(row: Row, gutter: number): boolean {
+  if (row.items.some(item => item.x < gutter && item.x + item.width > gutter)) {
+    return false;
+  }
+  const { left, right } = splitAtGutter(row, gutter);
+  return (
+    splitIntoCells({ y: row.y, items: left }).length <= 1 && splitIntoCells({ y: row.y, items: right }).length <= 1
+  );
+}
+
+// Split the page into vertical regions: runs of column rows are read column by column, everything else row by row
+function splitIntoRegions(rows: Row[], gutter: number | null, pageWidth: number): Region[] {
+  if (gutter === null) {
+    return [{ columns: [rows] }];
+  }
+
+  const regions: Region[] = [];
+  const pushSingle = (row: Row) => {
+    const last = regions[regions.length - 1];
+    if (last && last.columns.length === 1) {
+      last.columns[0].push(row);
+    } else {
+      regions.push({ columns: [[row]] });
+    }
+  };
+
+  let index = 0;
+  while (index < rows.length) {
+    let end = index;
+    while (end < rows.length && isColumnRow(rows[end], gutter)) {
+      // A one-sided row after a large vertical gap (e.g. a section heading below the columns) ends the run
+      const { left, right } = splitAtGutter(rows[end], gutter);
+      const gap = end > index ? rows[end].y - rows[end - 1].y : 0;
+      if (
+        (left.length === 0 || right.length === 0) &&
+        gap > (SECTION_GAP_EM * rows[end].items[0].fontSize) / POINTS_PER_UNIT
+      ) {
+        break;
+      }
+      end++;
+    }
+
+    const run = rows.slice(index, end);
+    const sides = run.map(row => splitAtGutter(row, gutter));
+    const averageSpan = (side: 'left' | 'right') => {
+      const spans = sides.map(parts => span(parts[side])).filter(value => value > 0);
+      return spans.reduce((sum, value) => sum + value, 0) / Math.max(1, spans.length);
+    };
+
+    // Real columns are several rows of long lines on both sides; short two-cell rows are more likely a table
+    if (
+      run.length >= MIN_COLUMN_ROWS &&
+      averageSpan('left') >= pageWidth * MIN_COLUMN_SPAN_RATIO &&
+      averageSpan('right') >= pageWidth * MIN_COLUMN_SPAN_RATIO
+    ) {
+      const left: Row[] = [];
+      const right: Row[] = [];
+      run.forEach((row, runIndex) => {
+        if (sides[runIndex].left.length > 0) {
+          left.push({ y: row.y, items: sides[runIndex].left });
+        }
+        if (sides[runIndex].right.length > 0) {
+          right.push({ y: row.y, items: sides[runIndex].right });
+        }
+      });
+      regions.push({ columns: [left, right] });
+      index = end;
+    } else {
+      pushSingle(rows[index]);
+      index++;
+    }
+  }
+
+  return regions;
+}
+
+// Split a row into cells wherever the horizontal gap is wide enough to be a table column break
+function splitIntoCells(row: Row): TextItem[][] {
+  const cells: TextItem[][] = [];
+
+  for (const item of row.items) {
+    const cell = cells[cells.length - 1];
+    const previous = cell?.[cell.length - 1];
+    const gap = previous ? item.x - (previous.x + previous.width) : 0;
+    const threshold = (TABLE_CELL_GAP_EM * item.fontSize) / POINTS_PER_UNIT;
+
+    if (!cell || gap > threshold) {
+      cells.push([item]);
+    } else {
+      cell.push(item);
+    }
+  }
+
+  return cells;
+}
+
+function joinItems(items: TextItem[]): string {
+  return items
+    .map(item => item.text)
+    .join(' ')
+    .replace(/\s+/g, ' ')
+    .trim();
+}
+
+function toLine(row: Row): LayoutLine {
+  const first = row.items[0];
+  return {
+    text: joinItems(row.items),
+    x: first.x,
+    y: row.y,
+    fontSize: Math.max(...row.items.map(item => item.fontSize)),
+    bold: row.items.every(item => item.bold),
+  };
+}
+
+// Join wrapped lines into paragraph text, undoing end-of-line hyphenation
+function joinLines(lines: LayoutLine[]): string {
+  return lines.reduce((text, line) => {
+    if (!text) {
+      return line.text;
+    }
+    if (/[a-z]-$/.test(text) && /^[a-z]/.test(line.text)) {
+      return text.slice(0, -1) + line.text;
+    }
+    return `${text} ${line.text}`;
+  }, '');
+}
+
+// The most common font size, weighted by characters, is taken as body text
+function detectBodyFontSize(items: TextItem[]): number {
+  const weights = new Map<number, number>();
+  for (const item of items) {
+    weights.set(item.fontSize, (weights.get(item.fontSize) || 0) + item.text.length);
+  }
+
+  let bodySize = 12;
+  let bestWeight = -1;
+  weights.forEach((weight, size) => {
+    if (weight > bestWeight) {
+      bodySize = size;
+      bestWeight = weight;
+    }
+  });
+
+  return bodySize;
+}
+
+function isHeadingLine(line: LayoutLine, bodyFontSize: number): boolean {
+  if (line.text.length > MAX_HEADING_LENGTH || line.text.length < 2) {
+    return false;
+  }
+  if (line.fontSize >= bodyFontSize * HEADING_SIZE_RATIO) {
+    return true;
+  }
+  // Bold body-size lines that do not read like a sentence are treated as minor headings
+  return line.bold && !/[.,;:]$/.test(line.text);
+}
+
+function buildBlocks(rows: Row[], bodyFontSize: number, headingLevels: number[]): LayoutBlock[] {
+  const blocks: LayoutBlock[] = [];
+  const typicalSpacing = (bodyFontSize / POINTS_PER_UNIT) * 1.8;
+
+  let index = 0;
+  while (index < rows.length) {
+    // Tables: consecutive rows with the same number (>= 2) of well-separated cells
+    const cells = splitIntoCells(rows[index]);
+    if (cells.length >= 2) {
+      let end = index + 1;
+      while (end < rows.length && splitIntoCells(rows[end]).length === cells.length) {
+        end++;
+      }
+      if (end - index >= MIN_TABLE_ROWS) {
+        const tableRows = rows.slice(index, end);
+        blocks.push({
+          type: 'table',
+          rows: tableRows.map(row => splitIntoCells(row).map(joinItems)),
+          lines: tableRows.map(toLine),
+        });
+        index = end;
+        continue;
+      }
+    }
+
+    const line = toLine(rows[index]);
+    const previousBlock = blocks[blocks.length - 1];
+
+    if (isHeadingLine(line, bodyFontSize)) {
+      const sizeRank = headingLevels.indexOf(line.fontSize);
+      const level = sizeRank === -1 ? headingLevels.length + 1 : sizeRank + 1;
+      const previousLine = previousBlock?.lines[previousBlock.lines.length - 1];
+
+      // Multi-line headings: same level and directly below the previous heading line
+      if (
+        previousBlock?.type === 'heading' &&
+        previousBlock.level === level &&
+        previousLine &&
+        line.y - previousLine.y <= typicalSpacing * (line.fontSize / bodyFontSize)
+      ) {
+        previousBlock.lines.push(line);
+        previousBlock.text = joinLines(previousBlock.lines);
+      } else {
+        blocks.push({ type: 'heading', level, text: line.text, lines: [line] });
+      }
+    } else {
+      const previousLine = previousBlock?.lines[previousBlock.lines.length - 1];
+      if (previousBlock?.type === 'paragraph' && previousLine && line.y - previousLine.y <= typicalSpacing) {
+        previousBlock.lines.push(line);
+        previousBlock.text = joinLines(previousBlock.lines);
+      } else {
+        blocks.push({ type: 'paragraph', text: line.text, lines: [line] });
+      }
+    }
+
+    index++;
+  }
+
+  return blocks;
+}
+
+// Build a pages → blocks → lines document model from pdf2json output
+export function buildLayoutDocument(pdfData: RawPdfData): LayoutDocument {
+  const rawPages = pdfData.Pages || [];
+  const pageItems = rawPages.map(toTextItems);
+  const bodyFontSize = detectBodyFontSize(pageItems.flat());
+
+  // Heading levels are ranked by font size across the whole document, largest first
+  const headingLevels = Array.from(
+    new Set(
+      pageItems
+        .flat()
+        .map(item => item.fontSize)
+        .filter(size => size >= bodyFontSize * HEADING_SIZE_RATIO),
+    ),
+  ).sort((a, b) => b - a);
+
+  const pages = rawPages.map((rawPage, pageIndex) => {
+    const width = rawPage.Width || 0;
+    const rows = groupIntoRows(pageItems[pageIndex]);
+    const regions = splitIntoRegions(rows, findColumnGutter(rows, width), width);
+
+    return {
+      pageNumber: pageIndex + 1,
+      width,
+      height: rawPage.Height || 0,
+      columnCount: Math.max(...regions.map(region => region.columns.length)),
+      blocks: regions.flatMap(region =>
+        region.columns.flatMap(columnRows => buildBlocks(columnRows, bodyFontSize, headingLevels)),
+      ),
+    };
+  });
+
+  return { bodyFontSize, pages };
+}
+
+// Render a page in reading order: headings and paragraphs separated by newlines, tables as pipe-delimited rows
+export function renderLayoutPageText(page: LayoutPage): string {
+  return page.blocks
+    .map(block => {
+      switch (block.type) {
+        case 'heading':
+          return block.text;
+        case 'paragraph':
+          return block.text;
+        case 'table':
+          return block.rows.map(row => row.join(' | ')).join('\n');
+      }
+    })
+    .join('\n')
+    .trim();
+}
@@ -0,0 +1,223 @@
+import { PDFDateString, type PDFDocumentProxy } from 'pdfjs-dist/legacy/build/pdf.mjs';
+import { franc } from 'franc-min';
+import { withPdfDocument } from './pdfjs';
+import type { PdfPageText } from './util';
+
+// Shorter text is too little for trigram-based detection to be more than a guess
+const MIN_LANGUAGE_DETECTION_LENGTH = 50;
+
+export interface PdfDocumentInfo {
+  title: string | null;
+  author: string | null;
+  subject: string | null;
+  keywords: string | null;
+  creator: string | null;
+  producer: string | null;
+  // ISO 8601, parsed from the PDF date strings
+  creationDate: string | null;
+  modificationDate: string | null;
+  pdfVersion: string | null;
+}
+
+export interface PdfOutlineItem {
+  title: string;
+  // 1-based target page; null for external links or destinations that cannot be resolved
+  page: number | null;
+  url: string | null;
+  items: PdfOutlineItem[];
+}
+
+export interface PdfPageDimensions {
+  pageNumber: number;
+  // In points (1/72 inch), after applying the page rotation
+  width: number;
+  height: number;
+  rotation: number;
+}
+
+export interface PdfLink {
+  pageNumber: number;
+  // External target, or null for links inside the document
+  url: string | null;
+  targetPage: number | null;
+}
+
+export interface PdfFormField {
+  pageNumber: number;
+  name: string;
+  // text, checkbox, radio, button, choice or signature
+  type: string;
+  value: string | null;
+  readOnly: boolean;
+}
+
+export interface PdfStructure {
+  info: PdfDocumentInfo;
+  outline: PdfOutlineItem[];
+  pages: PdfPageDimensions[];
+  links: PdfLink[];
+  formFields: PdfFormField[];
+}
+
+export interface PdfPageStats {
+  pageNumber: number;
+  characterCount: number;
+  wordCount: number;
+  // ISO 639-3 code, e.g. "eng"; null when the page has too little text to tell
+  language: string | null;
+}
+
+type PdfAnnotation = Record<string, any>;
+
+function infoString(info: Record<string, unknown>, key: string): string | null {
+  const value = info[key];
+  return typeof value === 'string' && value.trim() !== '' ? value.trim() : null;
+}
+
+function infoDate(info: Record<string, unknown>, key: string): string | null {
+  const value = infoString(info, key);
+  return (value && PDFDateString.toDateObject(value)?.toISOString()) ?? null;
+}
+
+// Outline and link destinations are either named or explicit arrays whose first entry is the page
+async function resolveDestinationPage(pdf: PDFDocumentProxy, dest: unknown): Promise<number | null> {
+  try {
+    const explicit = typeof dest === 'string' ? await pdf.getDestination(dest) : dest;
+    if (!Array.isArray(explicit) || explicit.length === 0) {
+      return null;
+    }
+    const target = explicit[0];
+    if (typeof target === 'number') {
+      return target + 1;
+    }
+    return (await pdf.getPageIndex(target)) + 1;
+  } catch {
+    return null;
+  }
+}
+
+async function readOutline(
+  pdf: PDFDocumentProxy,
+  nodes: Awaited<ReturnType<PDFDocumentProxy['getOutline']>> | null,
+): Promise<PdfOutlineItem[]> {
+  return Promise.all(
+    (nodes ?? []).map(async node => ({
+      title: node.title.trim(),
+      page: node.dest ? await resolveDestinationPage(pdf, node.dest) : null,
+      url: node.url ?? null,
+      items: await readOutline(pdf, node.items),
+    })),
+  );
+}
+
+function formFieldType(annotation: PdfAnnotation): string {
+  switch (annotation.fieldType) {
+    case 'Tx':
+      return 'text';
+    case 'Ch':
+      return 'choice';
+    case 'Sig':
+      return 'signature';
+    case 'Btn':
+      return annotation.checkBox ? 'checkbox' : annotation.radioButton ? 'radio' : 'button';
+    default:
+      return String(annotation.fieldType ?? 'unknown');
+  }
+}
+
+function formFieldValue(annotation: PdfAnnotation): string | null {
+  const value = annotation.fieldValue;
+  if (value === undefined || value === null || value === '') {
+    return null;
+  }
+  return Array.isArray(value) ? value.join(', ') : String(value);
+}
+
+// Read the document info, outline, page sizes, links and form fields from the PDF structure
+export async function readPdfStructure(pdfBuffer: Buffer): Promise<PdfStructure> {
+  return withPdfDocument(pdfBuffer, async pdf => {
+    const { info: rawInfo } = await pdf.getMetadata();
+    const info = rawInfo as Record<string, unknown>;
+
+    const pages: PdfPageDimensions[] = [];
+    const links: PdfLink[] = [];
+    const formFields: PdfFormField[] = [];
+
+    for (let pageNumber = 1; pageNumber <= pdf.numPages; pageNumber++) {
+      const page = await pdf.getPage(pageNumber);
+      const viewport = page.getViewport({ scale: 1 });
+      pages.push({
+        pageNumber,
+        width: Math.round(viewport.width * 100) / 100,
+        height: Math.round(viewport.height * 100) / 100,
+        rotation: page.rotate,
+      });
+
+      const annotations: PdfAnnotation[] = await page.getAnnotations();
+      for (const annotation of annotations) {
+        if (annotation.subtype === 'Link') {
+          const url = annotation.url ?? annotation.unsafeUrl ?? null;
+          const targetPage = annotation.dest ? await resolveDestinationPage(pdf, annotation.dest) : null;
+          if (url || targetPage) {
+            links.push({ pageNumber, url, targetPage });
+          }
+        } else if (annotation.subtype === 'Widget' && annotation.fieldName) {
+          formFields.push({
+            pageNumber,
+            name: annotation.fieldName,
+            type: formFieldType(annotation),
+            value: formFieldValue(annotation),
+            readOnly: Boolean(annotation.readOnly),
+          });
+        }
+      }
+
+      page.cleanup();
+    }
+
+    return {
+      info: {
+        title: infoString(info, 'Title'),
+        author: infoString(info, 'Author'),
+        subject: infoString(info, 'Subject'),
+        keywords: infoString(info, 'Keywords'),
+        creator: infoString(info, 'Creator'),
+        producer: infoString(info, 'Producer'),
+        creationDate: infoDate(info, 'CreationDate'),
+        modificationDate: infoDate(info, 'ModDate'),
+        pdfVersion: infoString(info, 'PDFFormatVersion'),
+      },
+      outline: await readOutline(pdf, await pdf.getOutline()),
+      pages,
+      links,
+      formFields,
+    };
+  });
+}
+
+// Most probable language of the text as an ISO 639-3 code, or null when there is too little text
+export function detectLanguage(text: string): string | null {
+  const language = franc(text, { minLength: MIN_LANGUAGE_DETECTION_LENGTH });
+  return language === 'und' ? null : language;
+}
+
+export function countWords(text: string): number {
+  return text.match(/[\p{L}\p{N}]+(?:['’-][\p{L}\p{N}]+)*/gu)?.length ?? 0;
+}
+
+export function computePageStats(pages: PdfPageText[]): PdfPageStats[] {
+  return pages.map(page => ({
+    pageNumber: page.pageNumber,
+    characterCount: page.text.length,
+    wordCount: countWords(page.text),
+    language: detectLanguage(page.text),
+  }));
+}
+
+// Flatten the outline into indented "title (p. N)" lines, e.g. as a table of contents for a prompt
+export function formatOutline(outline: PdfOutlineItem[], depth: number = 0): string[] {
+  return outline.flatMap(item => [
+    `${'  '.repeat(depth)}- ${item.title}${item.page ? ` (p. ${item.page})` : ''}`,
+    ...formatOutline(item.items, depth + 1),
+  ]);
+}
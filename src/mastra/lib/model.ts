@@ -0,0 +1,315 @@
+import type { LanguageModel } from 'ai';
+import { APICallError } from 'ai';
+import { z } from 'zod';
+import { ModelRouterLanguageModel, type MastraModelConfig } from '@mastra/core/llm';
+
+type LanguageModelV2 = Exclude<LanguageModel, string>;
+type CallOptions = Parameters<LanguageModelV2['doStream']>[0];
+
+// Provider name of routed models; their usage is attributed to the model that actually answered
+export const ROUTED_MODEL_PROVIDER = 'router';
+
+// How long a rate-limited model is skipped when the provider does not say (retry-after)
+export const DEFAULT_RATE_LIMIT_COOLDOWN_MS = 30_000;
+
+// Same ~4 characters per token estimate the summarizer uses
+const CHARS_PER_TOKEN = 4;
+
+export const modelTierSchema = z.object({
+  models: z.array(z.string()).min(1).describe('Fallback chain in provider/model format, tried in order'),
+  maxInputTokens: z
+    .number()
+    .optional()
+    .describe('Largest estimated prompt this tier is used for; omit on the last (longest-context) tier'),
+});
+
+export type ModelTier = z.infer<typeof modelTierSchema>;
+
+// Who uses which model; each key can be configured with MODEL_<KEY>, e.g. MODEL_SUMMARIZER
+export type ModelRole = 'summarizer' | 'questions' | 'assistant' | 'quiz' | 'grader' | 'judge';
+
+// Tiers are ordered by context size: a prompt goes to the first tier it fits, and escalates on context-length errors
+export const DEFAULT_MODEL_TIERS: Record<ModelRole, ModelTier[]> = {
+  // Large context window model for summarization
+  summarizer: [{ models: ['openai/gpt-4.1-mini', 'openai/gpt-4o-mini'] }],
+  questions: [{ models: ['openai/gpt-4o', 'openai/gpt-4.1'], maxInputTokens: 100_000 }, { models: ['openai/gpt-4.1'] }],
+  assistant: [{ models: ['openai/gpt-4o', 'openai/gpt-4.1'], maxInputTokens: 100_000 }, { models: ['openai/gpt-4.1'] }],
+  quiz: [{ models: ['openai/gpt-4o', 'openai/gpt-4.1'] }],
+  grader: [{ models: ['openai/gpt-4o', 'openai/gpt-4.1'] }],
+  judge: [{ models: ['openai/gpt-4.1-mini', 'openai/gpt-4o-mini'] }],
+};
+
+// Model instances registered under a provider/model name, used instead of routing that name to the provider
+const registeredModels = new Map<string, MastraModelConfig>();
+
+// Rate-limited models and when they may be tried again, shared by every agent since limits are per model
+const cooldowns = new Map<string, number>();
+
+// Register a model instance (e.g. a scripted mock in tests, or a self-hosted provider) under a provider/model name.
+// Agents and the quality judge resolve their model when their module is loaded, so register before importing them.
+export function registerModel(name: string, model: MastraModelConfig): void {
+  registeredModels.set(name, model);
+}
+
+// A chain ("a,b") is one tier; JSON ([{"models": [...], "maxInputTokens": 100000}, ...]) gives several
+function parseModelTiers(name: string, value: string): ModelTier[] | null {
+  if (!value.trim().startsWith('[')) {
+    const models = value
+      .split(',')
+      .map(model => model.trim())
+      .filter(Boolean);
+    return models.length > 0 ? [{ models }] : null;
+  }
+  try {
+    return z.array(modelTierSchema).min(1).parse(JSON.parse(value));
+  } catch (error) {
+    console.warn(`⚠️ ${name} is not a valid list of model tiers, using the default models:`, error);
+    return null;
+  }
+}
+
+// MODEL_<ROLE> first, then MODEL for every role without its own setting, then the role's defaults
+export function getModelTiers(role: ModelRole): ModelTier[] {
+  const roleVariable = `MODEL_${role.toUpperCase()}`;
+  const configured = process.env[roleVariable]
+    ? parseModelTiers(roleVariable, process.env[roleVariable]!)
+    : process.env.MODEL
+      ? parseModelTiers('MODEL', process.env.MODEL)
+      : null;
+  return configured ?? DEFAULT_MODEL_TIERS[role];
+}
+
+// Identifies the models behind an agent's model, e.g. for cache keys. A routed model is only named after its role,
+// so it is described by the tiers it routes to instead.
+export function describeModelConfiguration(model: { provider: string; modelId: string }): string {
+  const name = `${model.provider}/${model.modelId}`;
+  if (model.provider !== ROUTED_MODEL_PROVIDER || !(model.modelId in DEFAULT_MODEL_TIERS)) {
+    return name;
+  }
+  const tiers = getModelTiers(model.modelId as ModelRole).map(
+    tier => tier.models.join(',') + (tier.maxInputTokens === undefined ? '' : `<=${tier.maxInputTokens}`),
+  );
+  return `${name}[${tiers.join('|')}]`;
+}
+
+// The model for a role: a single model as is (a registered instance or the provider/model string),
+// or a routed model when there are fallbacks or several tiers
+export function resolveModel(role: ModelRole): MastraModelConfig {
+  const tiers = getModelTiers(role);
+  if (tiers.length === 1 && tiers[0].models.length === 1) {
+    const [name] = tiers[0].models;
+    return registeredModels.get(name) ?? name;
+  }
+  return createRoutedModel(role, tiers);
+}
+
+export type ModelFailure = 'rate-limit' | 'server' | 'context-length';
+
+// Failures worth trying another model for; anything else (bad request, auth) would fail the same way everywhere
+export function classifyModelError(error: unknown): ModelFailure | null {
+  const message = error instanceof Error ? error.message : String(error);
+  const status = APICallError.isInstance(error) ? error.statusCode : undefined;
+  const body = APICallError.isInstance(error) ? (error.responseBody ?? '') : '';
+
+  if (
+    /context[_ ]length|context window|maximum context|too many tokens|prompt is too long/i.test(`${message} ${body}`)
+  ) {
+    return 'context-length';
+  }
+  if (status === 429 || /rate limit/i.test(message)) {
+    return 'rate-limit';
+  }
+  if (status !== undefined && status >= 500) {
+    return 'server';
+  }
+  return null;
+}
+
+function cooldownMs(error: unknown): number {
+  const headers = APICallError.isInstance(error) ? (error.responseHeaders ?? {}) : {};
+  const retryAfterMs = Number(headers['retry-after-ms']);
+  if (Number.isFinite(retryAfterMs) && retryAfterMs > 0) {
+    return retryAfterMs;
+  }
+  const retryAfter = Number(headers['retry-after']);
+  return Number.isFinite(retryAfter) && retryAfter > 0 ? retryAfter * 1000 : DEFAULT_RATE_LIMIT_COOLDOWN_MS;
+}
+
+function estimatePromptTokens(options: CallOptions): number {
+  const characters = options.prompt.reduce(
+    (total, message) =>
+      total +
+      (typeof message.content === 'string'
+        ? message.content.length
+        : message.content.reduce((sum, part) => sum + ('text' in part ? part.text.length : 0), 0)),
+    0,
+  );
+  return Math.ceil(characters / CHARS_PER_TOKEN);
+}
+
+type StreamResult = Awaited<ReturnType<LanguageModelV2['doStream']>>;
+type GenerateResult = Awaited<ReturnType<LanguageModelV2['doGenerate']>>;
+type StreamPart = StreamResult['stream'] extends ReadableStream<infer Part> ? Part : never;
+
+// Only doStream is used: provider/model strings go through Mastra's model router, whose doGenerate also streams
+interface StreamingModel {
+  doStream(options: CallOptions): PromiseLike<StreamResult>;
+}
+
+const languageModels = new Map<string, StreamingModel>();
+
+function languageModel(name: string): StreamingModel {
+  let model = languageModels.get(name);
+  if (!model) {
+    const registered = registeredModels.get(name);
+    if (registered && (typeof registered !== 'object' || !('doStream' in registered))) {
+      throw new Error(`Model "${name}" must be a language model instance to be used in a fallback chain`);
+    }
+    model = (registered as StreamingModel | undefined) ?? new ModelRouterLanguageModel(name);
+    languageModels.set(name, model);
+  }
+  return model;
+}
+
+// Stamp the stream's response metadata with the model that answered, adding it when the provider sends none
+function withModelId(name: string): TransformStream<StreamPart, StreamPart> {
+  return new TransformStream({
+    transform(part, controller) {
+      if (part.type === 'response-metadata') {
+        controller.enqueue({ ...part, modelId: name });
+        return;
+      }
+      controller.enqueue(part);
+      if (part.type === 'stream-start') {
+        controller.enqueue({ type: 'response-metadata', modelId: name });
+      }
+    },
+  });
+}
+
+// Read a streamed response into the result doGenerate returns; an error part fails the call like a thrown error would
+async function collectStream({ stream, request, response }: StreamResult): Promise<GenerateResult> {
+  const result: GenerateResult = {
+    content: [],
+    finishReason: 'unknown',
+    usage: { inputTokens: undefined, outputTokens: undefined, totalTokens: undefined },
+    warnings: [],
+    request,
+    response: { headers: response?.headers },
+  };
+  const texts = new Map<string, { type: 'text' | 'reasoning'; text: string }>();
+
+  const reader = stream.getReader();
+  for (let next = await reader.read(); !next.done; next = await reader.read()) {
+    const part = next.value;
+    switch (part.type) {
+      case 'stream-start':
+        result.warnings = part.warnings;
+        break;
+      case 'response-metadata':
+        result.response = { ...result.response, id: part.id, timestamp: part.timestamp, modelId: part.modelId };
+        break;
+      case 'text-start':
+      case 'reasoning-start': {
+        const content = { type: part.type === 'text-start' ? ('text' as const) : ('reasoning' as const), text: '' };
+        texts.set(part.id, content);
+        result.content.push(content);
+        break;
+      }
+      case 'text-delta':
+      case 'reasoning-delta': {
+        const content = texts.get(part.id);
+        if (content) {
+          content.text += part.delta;
+        }
+        break;
+      }
+      case 'tool-call':
+      case 'tool-result':
+      case 'source':
+      case 'file':
+        result.content.push(part);
+        break;
+      case 'finish':
+        result.finishReason = part.finishReason;
+        result.usage = part.usage;
+        result.providerMetadata = part.providerMetadata;
+        break;
+      case 'error':
+        throw part.error;
+    }
+  }
+  return result;
+}
+
+// A model that picks a tier by prompt size, then tries the tier's chain in order. Rate limits, server errors and
+// context-length errors move on to the next model (context-length errors straight to the next, larger tier);
+// rate-limited models are skipped until their cooldown ends, unless nothing else is left.
+export function createRoutedModel(role: ModelRole, tiers: ModelTier[]): LanguageModelV2 {
+  const call = async <T>(
+    options: CallOptions,
+    run: (model: StreamingModel, name: string) => PromiseLike<T>,
+  ): Promise<T> => {
+    const promptTokens = estimatePromptTokens(options);
+    const firstTier = tiers.findIndex(tier => tier.maxInputTokens === undefined || promptTokens <= tier.maxInputTokens);
+    const candidates = tiers
+      .slice(firstTier === -1 ? tiers.length - 1 : firstTier)
+      .flatMap((tier, tierIndex) => tier.models.map(name => ({ name, tierIndex })));
+
+    // Rate-limited models go last rather than being dropped, so a call still has something to try
+    const now = Date.now();
+    const ordered = [
+      ...candidates.filter(candidate => (cooldowns.get(candidate.name) ?? 0) <= now),
+      ...candidates.filter(candidate => (cooldowns.get(candidate.name) ?? 0) > now),
+    ];
+
+    let lastError: unknown;
+    let skipTier: number | null = null;
+    for (const [index, { name, tierIndex }] of ordered.entries()) {
+      if (tierIndex === skipTier) {
+        continue;
+      }
+      try {
+        const result = await run(languageModel(name), name);
+        cooldowns.delete(name);
+        return result;
+      } catch (error) {
+        const failure = classifyModelError(error);
+        if (!failure || options.abortSignal?.aborted) {
+          throw error;
+        }
+        lastError = error;
+        if (failure === 'rate-limit') {
+          cooldowns.set(name, Date.now() + cooldownMs(error));
+        }
+        if (failure === 'context-length') {
+          skipTier = tierIndex;
+        }
+        const next = ordered.slice(index + 1).find(candidate => candidate.tierIndex !== skipTier);
+        console.warn(
+          `⚠️ ${name} failed (${failure})${next ? `, falling back to ${next.name}` : ''}:`,
+          error instanceof Error ? error.message : error,
+        );
+      }
+    }
+    throw lastError;
+  };
+
+  return {
+    specificationVersion: 'v2',
+    provider: ROUTED_MODEL_PROVIDER,
+    modelId: role,
+    supportedUrls: {},
+    // Both report the model that answered as provider/model, so usage and cost are attributed to it
+    doGenerate: options =>
+      call(options, async (model, name) => {
+        const result = await collectStream(await model.doStream(options));
+        return { ...result, response: { ...result.response, modelId: name } };
+      }),
+    doStream: options =>
+      call(options, async (model, name) => {
+        const result = await model.doStream(options);
+        return { ...result, stream: result.stream.pipeThrough(withModelId(name)) };
+      }),
+  };
+}
@@ -0,0 +1,76 @@
+import { tmpdir } from 'node:os';
+import { join } from 'node:path';
+import { createWorker } from 'tesseract.js';
+
+// tesseract.js caches downloaded language data in the working directory unless told otherwise
+const OCR_CACHE_PATH = join(tmpdir(), 'pdf-questions-tessdata');
+
+export interface OcrPageResult {
+  text: string;
+  // 0-1, the engine's mean word confidence for the page
+  confidence: number;
+}
+
+// Recognizes text in page images; engines get the whole batch so they can set up and tear down once per document
+export interface OcrEngine {
+  id: string;
+  recognize(images: Buffer[]): Promise<OcrPageResult[]>;
+}
+
+export interface TesseractEngineOptions {
+  // Tesseract language codes joined with "+", e.g. "eng+deu"
+  languages?: string;
+  // Directory or URL holding <lang>.traineddata files; tesseract.js downloads them from its CDN when unset
+  langPath?: string;
+}
+
+// Default engine: tesseract.js runs in a WebAssembly worker, no system binaries required. It downloads its language
+// data from a CDN on first use, so offline deployments must set langPath (PDF_OCR_LANG_PATH).
+export function createTesseractEngine(options: TesseractEngineOptions = {}): OcrEngine {
+  const languages = options.languages || 'eng';
+
+  return {
+    id: `tesseract-${languages}`,
+    recognize: async images => {
+      if (images.length === 0) {
+        return [];
+      }
+
+      const worker = await createWorker(languages, undefined, {
+        cachePath: OCR_CACHE_PATH,
+        ...(options.langPath ? { langPath: options.langPath } : {}),
+      });
+      try {
+        const results: OcrPageResult[] = [];
+        // One worker recognizes pages sequentially; OCR is CPU-bound, so parallel pages would not finish sooner
+        for (const image of images) {
+          const { data } = await worker.recognize(image);
+          results.push({ text: data.text.trim(), confidence: Math.round(data.confidence) / 100 });
+        }
+        return results;
+      } finally {
+        await worker.terminate();
+      }
+    },
+  };
+}
+
+let defaultEngine: OcrEngine | null | undefined;
+
+// PDF_OCR_ENGINE selects the engine: "tesseract" (default) or "none" to disable OCR
+export function getOcrEngine(): OcrEngine | null {
+  if (defaultEngine === undefined) {
+    const configured = process.env.PDF_OCR_ENGINE?.trim() || 'tesseract';
+    if (configured === 'none') {
+      defaultEngine = null;
+    } else if (configured === 'tesseract') {
+      defaultEngine = createTesseractEngine({
+        languages: process.env.PDF_OCR_LANGUAGES?.trim(),
+        langPath: process.env.PDF_OCR_LANG_PATH?.trim(),
+      });
+    } else {
+      throw new Error(`Unknown PDF_OCR_ENGINE "${configured}"; expected "tesseract" or "none"`);
+    }
+  }
+  return defaultEngine;
+}
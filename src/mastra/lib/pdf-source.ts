@@ -0,0 +1,140 @@
+import { readdir, readFile, realpath, stat } from 'node:fs/promises';
+import path from 'node:path';
+import { z } from 'zod';
+import { assertPdfBytes, downloadPdf, getDownloadDefaults, PdfDownloadError } from './download';
+import type { ProgressListener } from './progress';
+
+export const pdfSourceSchema = z.discriminatedUnion('type', [
+  z.object({
+    type: z.literal('url'),
+    url: z.string().describe('URL of the PDF file to download'),
+    headers: z
+      .record(z.string())
+      .optional()
+      .describe('Extra HTTP headers to send, e.g. Authorization for files behind auth'),
+  }),
+  z.object({
+    type: z.literal('file'),
+    path: z.string().describe('Path to a PDF file on the local filesystem'),
+  }),
+  z.object({
+    type: z.literal('base64'),
+    data: z.string().describe('Base64-encoded PDF bytes (a data: URL prefix is allowed)'),
+    filename: z.string().optional().describe('Original filename, used for logging'),
+  }),
+]);
+
+export type PdfSource = z.infer<typeof pdfSourceSchema>;
+
+// Human-readable description of a source for logs and error messages
+export function describePdfSource(source: PdfSource): string {
+  switch (source.type) {
+    case 'url':
+      return source.url;
+    case 'file':
+      return source.path;
+    case 'base64':
+      return source.filename ? `uploaded file ${source.filename}` : 'base64 upload';
+  }
+}
+
+// Load the raw PDF bytes from any supported source, applying the same size and format checks to each
+export async function loadPdfSource(source: PdfSource, onProgress?: ProgressListener): Promise<Buffer> {
+  if (source.type === 'url') {
+    return downloadPdf(source.url, { headers: source.headers, onProgress });
+  }
+
+  const { maxBytes } = getDownloadDefaults();
+  const buffer = source.type === 'file' ? await readPdfFile(source.path, maxBytes) : decodeBase64Pdf(source.data);
+
+  if (buffer.length > maxBytes) {
+    throw tooLargeError(buffer.length, maxBytes);
+  }
+  assertPdfBytes(buffer);
+  onProgress?.({ type: 'download-progress', bytesReceived: buffer.length, totalBytes: buffer.length });
+
+  return buffer;
+}
+
+function tooLargeError(size: number, maxBytes: number): PdfDownloadError {
+  return new PdfDownloadError('TOO_LARGE', `PDF is ${size} bytes, exceeding the ${maxBytes} byte limit`);
+}
+
+// Local paths come from tool and workflow callers, so they may only be read inside PDF_FILE_ROOT; without it file
+// and folder sources are refused. Relative paths are taken from the root, and symlinks are resolved first, so a
+// link inside the root cannot point outside it.
+async function resolveInsideFileRoot(sourcePath: string): Promise<string> {
+  const fileRoot = process.env.PDF_FILE_ROOT?.trim();
+  if (!fileRoot) {
+    throw new Error('Local file sources are disabled; set PDF_FILE_ROOT to the directory they may be read from');
+  }
+
+  let rootPath: string;
+  let filePath: string;
+  try {
+    rootPath = await realpath(path.resolve(fileRoot));
+    filePath = await realpath(path.resolve(rootPath, sourcePath));
+  } catch (error) {
+    throw new Error(`Failed to read ${sourcePath}: ${error instanceof Error ? error.message : 'Unknown error'}`);
+  }
+
+  const relative = path.relative(rootPath, filePath);
+  if (relative === '..' || relative.startsWith(`..${path.sep}`) || path.isAbsolute(relative)) {
+    throw new Error(`File path is outside the allowed directory: ${sourcePath}`);
+  }
+
+  return filePath;
+}
+
+// List the PDF files directly inside a folder as file sources, sorted by name for a stable order
+export async function listPdfFilesInFolder(folder: string): Promise<PdfSource[]> {
+  const folderPath = await resolveInsideFileRoot(folder);
+
+  let entries;
+  try {
+    entries = await readdir(folderPath, { withFileTypes: true });
+  } catch (error) {
+    throw new Error(`Failed to read folder ${folder}: ${error instanceof Error ? error.message : 'Unknown error'}`);
+  }
+
+  return entries
+    .filter(entry => entry.isFile() && entry.name.toLowerCase().endsWith('.pdf'))
+    .map(entry => entry.name)
+    .sort()
+    .map(name => ({ type: 'file' as const, path: path.join(folderPath, name) }));
+}
+
+// Check the size on disk first, so an oversized file is refused without reading it into memory
+async function readPdfFile(sourcePath: string, maxBytes: number): Promise<Buffer> {
+  const filePath = await resolveInsideFileRoot(sourcePath);
+
+  let size: number;
+  try {
+    size = (await stat(filePath)).size;
+  } catch (error) {
+    throw new Error(
+      `Failed to read PDF file ${sourcePath}: ${error instanceof Error ? error.message : 'Unknown error'}`,
+    );
+  }
+  if (size > maxBytes) {
+    throw tooLargeError(size, maxBytes);
+  }
+
+  try {
+    return await readFile(filePath);
+  } catch (error) {
+    throw new Error(
+      `Failed to read PDF file ${sourcePath}: ${error instanceof Error ? error.message : 'Unknown error'}`,
+    );
+  }
+}
+
+function decodeBase64Pdf(data: string): Buffer {
+  const buffer = Buffer.from(data.replace(/^data:[^;,]*;base64,/, ''), 'base64');
+
+  if (buffer.length === 0) {
+    throw new Error('Invalid PDF upload: empty base64 data');
+  }
+
+  return buffer;
+}
@@ -0,0 +1,12 @@
+import { getDocument, type PDFDocumentProxy } from 'pdfjs-dist/legacy/build/pdf.mjs';
+
+// Open a PDF with pdf.js for the duration of the callback, releasing its worker and memory afterwards
+export async function withPdfDocument<T>(pdfBuffer: Buffer, fn: (pdf: PDFDocumentProxy) => Promise<T>): Promise<T> {
+  // pdf.js transfers the data it is given, so hand it a copy rather than the caller's buffer
+  const loadingTask = getDocument({ data: new Uint8Array(pdfBuffer), verbosity: 0 });
+  try {
+    return await fn(await loadingTask.promise);
+  } finally {
+    await loadingTask.destroy();
+  }
+}
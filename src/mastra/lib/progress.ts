@@ -0,0 +1,74 @@
+import type { ToolStream } from '@mastra/core/tools';
+import type { Question } from '../tools/generate-questions-from-text-tool';
+
+// Download progress is reported at most once per this many bytes, plus once when the body is complete
+const DOWNLOAD_PROGRESS_INTERVAL_BYTES = 256 * 1024;
+
+// Progress of a PDF through loading, parsing, summarization and question generation.
+// Workflow steps and tools write these to their writer, so they arrive as `workflow-step-output`
+// (or `tool-output`) chunks whose `payload.output` is the event.
+export type PdfProgressEvent =
+  | {
+      // First event of a batch run, so a client can resume the batch even if the run dies before its report
+      type: 'batch-started';
+      batchId: string;
+      totalDocuments: number;
+    }
+  | {
+      type: 'download-progress';
+      bytesReceived: number;
+      // From Content-Length; null when the server did not send it
+      totalBytes: number | null;
+    }
+  | {
+      type: 'pages-parsed';
+      pagesParsed: number;
+      // Known once parsing has finished
+      totalPages: number | null;
+    }
+  | {
+      type: 'chunk-summarized';
+      // 0 for the chunk summaries, 1+ for the merge levels
+      level: number;
+      chunksSummarized: number;
+      totalChunks: number;
+    }
+  | {
+      type: 'question-generated';
+      question: Question;
+    }
+  | {
+      type: 'question-replaced';
+      // Position of the weak question in the step's question list, and its stem. Questions generated per section
+      // stream in completion order, so clients should match on the stem.
+      index: number;
+      replacedStem: string;
+      question: Question;
+    };
+
+export type ProgressListener = (event: PdfProgressEvent) => void;
+
+// Forward progress events to a step or tool writer. Writes are not awaited and their failures are ignored,
+// so a client that disconnected or a closed stream never slows down or fails the run.
+export function progressToWriter(writer: ToolStream | undefined): ProgressListener | undefined {
+  if (!writer) {
+    return undefined;
+  }
+  return event => {
+    writer.write(event).catch(() => {});
+  };
+}
+
+// Report download progress in coarse steps rather than once per network chunk
+export function throttleDownloadProgress(
+  onProgress: ProgressListener | undefined,
+  totalBytes: number | null,
+): (bytesReceived: number, done?: boolean) => void {
+  let reported = 0;
+  return (bytesReceived, done = false) => {
+    if (onProgress && (done || bytesReceived - reported >= DOWNLOAD_PROGRESS_INTERVAL_BYTES)) {
+      reported = bytesReceived;
+      onProgress({ type: 'download-progress', bytesReceived, totalBytes });
+    }
+  };
+}
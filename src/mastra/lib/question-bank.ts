@@ -0,0 +1,486 @@
+import { randomUUID } from 'node:crypto';
+import { addColumnIfMissing, db } from './db';
+import type { Embedder } from './embedder';
+import { fitQuestionsToMix, resolveQuestionMix, type QuestionMix } from './generation-profile';
+import { pdfVectorStore } from './rag';
+import { textSimilarity } from './similarity';
+import { NEAR_DUPLICATE_SIMILARITY } from '../scorers/question-quality-scorer';
+import type { GenerationProfile, Question } from '../tools/generate-questions-from-text-tool';
+
+export const DEFAULT_BANK_SEARCH_LIMIT = 20;
+// Topic search over-fetches from the vector index, since tag, type and difficulty filters apply afterwards
+const TOPIC_CANDIDATE_FACTOR = 5;
+
+export interface BankQuestion {
+  id: string;
+  version: number;
+  // SHA-256 of the PDF the question was generated from
+  documentHash: string;
+  source: string | null;
+  question: Question;
+  tags: string[];
+  profile: GenerationProfile | null;
+  createdAt: number;
+  updatedAt: number;
+}
+
+export interface BankQuestionVersion {
+  version: number;
+  question: Question;
+  tags: string[];
+  editedBy: string | null;
+  note: string | null;
+  createdAt: number;
+}
+
+export interface BankDuplicate {
+  stem: string;
+  // The question already in the bank (or earlier in the same insert) that this one duplicates
+  existingId: string;
+  similarity: number;
+}
+
+export interface AddToBankInput {
+  // Tenant the questions belong to; duplicates are only looked for among the tenant's own questions
+  tenantId?: string;
+  documentHash: string;
+  source?: string;
+  questions: Question[];
+  tags?: string[];
+  profile?: GenerationProfile;
+}
+
+export interface AddToBankResult {
+  added: BankQuestion[];
+  duplicates: BankDuplicate[];
+  // Bank id for every input question, in order: the new id, or the id of the question it duplicates
+  questionIds: string[];
+}
+
+export interface BankSearchFilters {
+  // Only the tenant's questions; without a tenant, only questions saved without one
+  tenantId?: string;
+  // Free-text topic, matched semantically against stems, answers, sections and tags
+  topic?: string;
+  documentHash?: string;
+  // Questions must carry all of these tags
+  tags?: string[];
+  type?: Question['type'];
+  difficulty?: Question['difficulty'];
+  limit?: number;
+}
+
+export interface BankSearchResult extends BankQuestion {
+  // Similarity to the topic; null when searching without a topic
+  score: number | null;
+}
+
+export interface AssembledQuiz {
+  questions: BankSearchResult[];
+  // Requested counts that the bank could not fill
+  missing: QuestionMix;
+  shortfall: number;
+}
+
+let tablesReady: Promise<void> | null = null;
+
+function ensureBankTables(): Promise<void> {
+  if (!tablesReady) {
+    tablesReady = db
+      .batch(
+        [
+          `CREATE TABLE IF NOT EXISTS question_bank (
+            id TEXT PRIMARY KEY,
+            version INTEGER NOT NULL,
+            document_hash TEXT NOT NULL,
+            source TEXT,
+            question TEXT NOT NULL,
+            stem TEXT NOT NULL,
+            type TEXT NOT NULL,
+            difficulty TEXT NOT NULL,
+            tags TEXT NOT NULL,
+            profile TEXT,
+            created_at INTEGER NOT NULL,
+            updated_at INTEGER NOT NULL,
+            tenant_id TEXT
+          )`,
+          'CREATE INDEX IF NOT EXISTS question_bank_document ON question_bank (document_hash)',
+          `CREATE TABLE IF NOT EXISTS question_bank_versions (
+            question_id TEXT NOT NULL,
+            version INTEGER NOT NULL,
+            question TEXT NOT NULL,
+            tags TEXT NOT NULL,
+            edited_by TEXT,
+            note TEXT,
+            created_at INTEGER NOT NULL,
+            PRIMARY KEY (question_id, version)
+          )`,
+        ],
+        'write',
+      )
+      .then(() => addColumnIfMissing('question_bank', 'tenant_id', 'TEXT'))
+      .catch(error => {
+        tablesReady = null;
+        throw error;
+      });
+  }
+  return tablesReady;
+}
+
+// One index per embedder, like the document chunks
+function indexNameFor(embedder: Embedder): string {
+  return `question_bank_${embedder.id.toLowerCase().replace(/[^a-z0-9]+/g, '_')}`;
+}
+
+const indexesReady = new Map<string, Promise<void>>();
+
+function ensureVectorIndex(indexName: string, dimension: number): Promise<void> {
+  let ready = indexesReady.get(indexName);
+  if (!ready) {
+    ready = pdfVectorStore.createIndex({ indexName, dimension, metric: 'cosine' }).catch(error => {
+      indexesReady.delete(indexName);
+      throw error;
+    });
+    indexesReady.set(indexName, ready);
+  }
+  return ready;
+}
+
+function normalizeTags(tags: string[] = []): string[] {
+  return [...new Set(tags.map(tag => tag.trim().toLowerCase()).filter(Boolean))].sort();
+}
+
+// Same comparison the quality scorer uses to flag near-duplicates within a generated set
+function duplicateText(question: Question): string {
+  return `${question.stem} ${question.correctAnswer}`;
+}
+
+function topicText(question: Question, tags: string[]): string {
+  return [question.section, question.stem, question.correctAnswer, tags.join(' ')].filter(Boolean).join('\n');
+}
+
+async function indexQuestions(embedder: Embedder, questions: BankQuestion[], tenantId?: string): Promise<void> {
+  if (questions.length === 0) {
+    return;
+  }
+  const vectors = await embedder.embed(questions.map(entry => topicText(entry.question, entry.tags)));
+  const indexName = indexNameFor(embedder);
+  await ensureVectorIndex(indexName, vectors[0].length);
+  await pdfVectorStore.upsert({
+    indexName,
+    vectors,
+    ids: questions.map(entry => entry.id),
+    metadata: questions.map(entry => ({
+      questionId: entry.id,
+      documentHash: entry.documentHash,
+      ...(tenantId && { tenantId }),
+    })),
+  });
+}
+
+function rowToBankQuestion(row: Record<string, unknown>): BankQuestion {
+  return {
+    id: String(row.id),
+    version: Number(row.version),
+    documentHash: String(row.document_hash),
+    source: row.source === null ? null : String(row.source),
+    question: JSON.parse(String(row.question)) as Question,
+    tags: JSON.parse(String(row.tags)) as string[],
+    profile: row.profile === null ? null : (JSON.parse(String(row.profile)) as GenerationProfile),
+    createdAt: Number(row.created_at),
+    updatedAt: Number(row.updated_at),
+  };
+}
+
+function versionStatement(entry: BankQuestion, editedBy: string | null, note: string | null) {
+  return {
+    sql: `INSERT INTO question_bank_versions (question_id, version, question, tags, edited_by, note, created_at)
+          VALUES (?, ?, ?, ?, ?, ?, ?)`,
+    args: [
+      entry.id,
+      entry.version,
+      JSON.stringify(entry.question),
+      JSON.stringify(entry.tags),
+      editedBy,
+      note,
+      entry.updatedAt,
+    ],
+  };
+}
+
+// Store new questions, skipping any that near-duplicate a question already in the bank or earlier in the input
+export async function addQuestionsToBank(embedder: Embedder, input: AddToBankInput): Promise<AddToBankResult> {
+  await ensureBankTables();
+
+  const existing = await db.execute({
+    sql: 'SELECT id, question FROM question_bank WHERE tenant_id IS ?',
+    args: [input.tenantId ?? null],
+  });
+  const known = existing.rows.map(row => ({
+    id: String(row.id),
+    text: duplicateText(JSON.parse(String(row.question)) as Question),
+  }));
+
+  const tags = normalizeTags(input.tags);
+  const now = Date.now();
+  const result: AddToBankResult = { added: [], duplicates: [], questionIds: [] };
+
+  for (const question of input.questions) {
+    const text = duplicateText(question);
+    const closest = known.reduce<{ id: string; similarity: number } | null>((best, candidate) => {
+      const similarity = textSimilarity(text, candidate.text);
+      return similarity > (best?.similarity ?? 0) ? { id: candidate.id, similarity } : best;
+    }, null);
+
+    if (closest && closest.similarity >= NEAR_DUPLICATE_SIMILARITY) {
+      result.duplicates.push({
+        stem: question.stem,
+        existingId: closest.id,
+        similarity: Math.round(closest.similarity * 100) / 100,
+      });
+      result.questionIds.push(closest.id);
+      continue;
+    }
+
+    const entry: BankQuestion = {
+      id: randomUUID(),
+      version: 1,
+      documentHash: input.documentHash,
+      source: input.source ?? null,
+      question,
+      tags,
+      profile: input.profile ?? null,
+      createdAt: now,
+      updatedAt: now,
+    };
+    result.added.push(entry);
+    result.questionIds.push(entry.id);
+    known.push({ id: entry.id, text });
+  }
+
+  if (result.added.length > 0) {
+    await db.batch(
+      result.added.flatMap(entry => [
+        {
+          sql: `INSERT INTO question_bank
+                  (id, version, document_hash, source, question, stem, type, difficulty, tags, profile, created_at, updated_at,
+                   tenant_id)
+                VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)`,
+          args: [
+            entry.id,
+            entry.version,
+            entry.documentHash,
+            entry.source,
+            JSON.stringify(entry.question),
+            entry.question.stem,
+            entry.question.type,
+            entry.question.difficulty,
+            JSON.stringify(entry.tags),
+            entry.profile ? JSON.stringify(entry.profile) : null,
+            entry.createdAt,
+            entry.updatedAt,
+            input.tenantId ?? null,
+          ],
+        },
+        versionStatement(entry, null, 'created'),
+      ]),
+      'write',
+    );
+    await indexQuestions(embedder, result.added, input.tenantId);
+  }
+
+  return result;
+}
+
+// Questions of one tenant by id, in the given order; ids of other tenants' questions are left out like unknown ids
+export async function getBankQuestions(ids: string[], tenantId?: string): Promise<BankQuestion[]> {
+  if (ids.length === 0) {
+    return [];
+  }
+  await ensureBankTables();
+
+  const result = await db.execute({
+    sql: `SELECT * FROM question_bank WHERE id IN (${ids.map(() => '?').join(', ')}) AND tenant_id IS ?`,
+    args: [...ids, tenantId ?? null],
+  });
+  const byId = new Map(result.rows.map(row => [String(row.id), rowToBankQuestion(row)]));
+  return ids.flatMap(id => byId.get(id) ?? []);
+}
+
+export interface UpdateBankQuestionInput {
+  // Fields to change; the rest of the question is kept
+  edits?: Partial<Omit<Question, 'citations'>>;
+  // Replaces the tag list
+  tags?: string[];
+  editedBy?: string;
+  note?: string;
+}
+
+// Edit a question, keeping the previous version in its history
+export async function updateBankQuestion(
+  embedder: Embedder,
+  id: string,
+  input: UpdateBankQuestionInput,
+  tenantId?: string,
+): Promise<BankQuestion> {
+  const [current] = await getBankQuestions([id], tenantId);
+  if (!current) {
+    throw new Error(`Question ${id} is not in the bank`);
+  }
+
+  const question = { ...current.question, ...input.edits };
+  if (question.type !== 'multiple_choice') {
+    question.options = [];
+  } else if (!question.options.includes(question.correctAnswer)) {
+    throw new Error('The correct answer of a multiple choice question must be one of its options');
+  }
+
+  const updated: BankQuestion = {
+    ...current,
+    version: current.version + 1,
+    question,
+    tags: input.tags ? normalizeTags(input.tags) : current.tags,
+    updatedAt: Date.now(),
+  };
+
+  await db.batch(
+    [
+      {
+        sql: `UPDATE question_bank SET version = ?, question = ?, stem = ?, type = ?, difficulty = ?, tags = ?, updated_at = ?
+              WHERE id = ? AND version = ?`,
+        args: [
+          updated.version,
+          JSON.stringify(updated.question),
+          updated.question.stem,
+          updated.question.type,
+          updated.question.difficulty,
+          JSON.stringify(updated.tags),
+          updated.updatedAt,
+          id,
+          current.version,
+        ],
+      },
+      versionStatement(updated, input.editedBy ?? null, input.note ?? null),
+    ],
+    'write',
+  );
+  await indexQuestions(embedder, [updated], tenantId);
+
+  return updated;
+}
+
+// Every version of a question, oldest first
+export async function getBankQuestionHistory(id: string, tenantId?: string): Promise<BankQuestionVersion[]> {
+  await ensureBankTables();
+
+  const result = await db.execute({
+    sql: `SELECT v.version, v.question, v.tags, v.edited_by, v.note, v.created_at
+          FROM question_bank_versions v JOIN question_bank q ON q.id = v.question_id
+          WHERE v.question_id = ? AND q.tenant_id IS ? ORDER BY v.version`,
+    args: [id, tenantId ?? null],
+  });
+
+  return result.rows.map(row => ({
+    version: Number(row.version),
+    question: JSON.parse(String(row.question)) as Question,
+    tags: JSON.parse(String(row.tags)) as string[],
+    editedBy: row.edited_by === null ? null : String(row.edited_by),
+    note: row.note === null ? null : String(row.note),
+    createdAt: Number(row.created_at),
+  }));
+}
+
+function matchesFilters(entry: BankQuestion, filters: BankSearchFilters): boolean {
+  const tags = normalizeTags(filters.tags);
+  return (
+    (!filters.documentHash || entry.documentHash === filters.documentHash) &&
+    (!filters.type || entry.question.type === filters.type) &&
+    (!filters.difficulty || entry.question.difficulty === filters.difficulty) &&
+    tags.every(tag => entry.tags.includes(tag))
+  );
+}
+
+// Find questions by topic (most similar first) and/or by document, tags, type and difficulty (newest first)
+export async function searchQuestionBank(embedder: Embedder, filters: BankSearchFilters): Promise<BankSearchResult[]> {
+  await ensureBankTables();
+  const limit = filters.limit ?? DEFAULT_BANK_SEARCH_LIMIT;
+
+  if (filters.topic) {
+    const indexName = indexNameFor(embedder);
+    if (!(await pdfVectorStore.listIndexes()).includes(indexName)) {
+      return [];
+    }
+
+    const [queryVector] = await embedder.embed([filters.topic]);
+    const matches = await pdfVectorStore.query({
+      indexName,
+      queryVector,
+      topK: limit * TOPIC_CANDIDATE_FACTOR,
+      ...((filters.documentHash || filters.tenantId) && {
+        filter: {
+          ...(filters.documentHash && { documentHash: filters.documentHash }),
+          ...(filters.tenantId && { tenantId: filters.tenantId }),
+        },
+      }),
+    });
+    const scores = new Map(matches.map(match => [match.id, Math.round(match.score * 1000) / 1000]));
+
+    return (
+      await getBankQuestions(
+        matches.map(match => match.id),
+        filters.tenantId,
+      )
+    )
+      .filter(entry => matchesFilters(entry, filters))
+      .slice(0, limit)
+      .map(entry => ({ ...entry, score: scores.get(entry.id) ?? null }));
+  }
+
+  const conditions = ['tenant_id IS ?'];
+  const args: (string | null)[] = [filters.tenantId ?? null];
+  if (filters.documentHash) {
+    conditions.push('document_hash = ?');
+    args.push(filters.documentHash);
+  }
+  if (filters.type) {
+    conditions.push('type = ?');
+    args.push(filters.type);
+  }
+  if (filters.difficulty) {
+    conditions.push('difficulty = ?');
+    args.push(filters.difficulty);
+  }
+
+  const result = await db.execute({
+    sql: `SELECT * FROM question_bank WHERE ${conditions.join(' AND ')} ORDER BY updated_at DESC`,
+    args,
+  });
+
+  return result.rows
+    .map(rowToBankQuestion)
+    .filter(entry => matchesFilters(entry, filters))
+    .slice(0, limit)
+    .map(entry => ({ ...entry, score: null }));
+}
+
+// Pick `count` matching questions from the bank, following the profile's type and difficulty mix when given
+export async function assembleQuiz(
+  embedder: Embedder,
+  filters: Omit<BankSearchFilters, 'limit'>,
+  count: number,
+  profile?: GenerationProfile,
+): Promise<AssembledQuiz> {
+  const candidates = await searchQuestionBank(embedder, { ...filters, limit: count * TOPIC_CANDIDATE_FACTOR });
+  const mix = resolveQuestionMix(profile, count);
+  const fitted = fitQuestionsToMix(
+    candidates.map(candidate => candidate.question),
+    mix,
+    count,
+  );
+
+  // fitQuestionsToMix keeps question objects, so map them back to their bank entries
+  const chosen = new Set(fitted.questions);
+  const questions = candidates.filter(candidate => chosen.has(candidate.question));
+
+  return { questions, missing: fitted.missing, shortfall: count - questions.length };
+}
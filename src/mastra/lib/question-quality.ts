@@ -0,0 +1,99 @@
+import type { ScorerJudgeResults } from '@mastra/core/evals';
+import type { Mastra } from '@mastra/core/mastra';
+import type { Question } from '../tools/generate-questions-from-text-tool';
+import {
+  combineQuestionScores,
+  questionQualityScorer,
+  type QuestionQualityInput,
+  type QuestionQualityScore,
+} from '../scorers/question-quality-scorer';
+import { assertTokensAvailable, recordTokens } from './tenants';
+
+export const DEFAULT_QUALITY_THRESHOLD = 0.7;
+export const DEFAULT_MAX_REGENERATION_ROUNDS = 2;
+
+export interface QualityRecordContext {
+  // Workflow run the scores belong to
+  runId: string;
+  // Step that produced the evaluation, recorded as the scored entity
+  entityId: string;
+  iteration: number;
+  // Tenant whose token quota pays for the judge calls
+  tenantId?: string;
+}
+
+// Tokens spent by every judge call of a scorer run, including failed attempts that reported usage
+function judgeTokens(judge: ScorerJudgeResults | undefined): number {
+  return Object.values(judge ?? {})
+    .flatMap(step => step?.executions ?? [])
+    .reduce((total, { usage }) => {
+      const { totalTokens, inputTokens = 0, outputTokens = 0 } = usage ?? {};
+      return total + (totalTokens ?? inputTokens + outputTokens);
+    }, 0);
+}
+
+// Score a set of questions with the quality scorer and record one score per question in the Mastra evals store.
+// The judge is advisory: when it fails, the questions come back unscored (null) instead of failing the run.
+// Its calls count against the tenant's token quota like any agent call; an exhausted quota leaves them unscored.
+export async function evaluateQuestionQuality(
+  mastra: Mastra,
+  input: QuestionQualityInput,
+  questions: Question[],
+  record: QualityRecordContext,
+): Promise<(QuestionQualityScore | null)[]> {
+  if (questions.length === 0) {
+    return [];
+  }
+
+  let result: Awaited<ReturnType<typeof questionQualityScorer.run>>;
+  try {
+    await assertTokensAvailable(record.tenantId);
+    result = await questionQualityScorer.run({ runId: record.runId, input, output: { questions } });
+  } catch (error) {
+    console.warn(
+      `⚠️ Quality judge failed; leaving ${questions.length} question(s) unscored:`,
+      error instanceof Error ? error.message : error,
+    );
+    return questions.map(() => null);
+  }
+  await recordTokens(record.tenantId, judgeTokens(result.judge));
+
+  const scores = combineQuestionScores(
+    questions,
+    result.preprocessStepResult?.similarities ?? [],
+    result.analyzeStepResult?.questions ?? [],
+  );
+
+  // Recording is best-effort: a storage problem must not fail question generation
+  try {
+    const store = await mastra.getStorage()?.getStore('scores');
+    if (store) {
+      await Promise.all(
+        questions.map((question, index) =>
+          store.saveScore({
+            runId: record.runId,
+            scorerId: questionQualityScorer.id,
+            scorer: {
+              id: questionQualityScorer.id,
+              name: questionQualityScorer.name,
+              description: questionQualityScorer.description,
+            },
+            entityId: record.entityId,
+            entityType: 'STEP',
+            entity: { id: record.entityId },
+            source: 'LIVE',
+            output: question,
+            score: scores[index].overall,
+            reason: scores[index].reason,
+            analyzeStepResult: { ...scores[index] },
+            metadata: { questionIndex: index, iteration: record.iteration },
+          }),
+        ),
+      );
+    }
+  } catch (error) {
+    console.warn('⚠️ Could not record question quality scores:', error instanceof Error ? error.message : error);
+  }
+
+  return scores;
+}
@@ -0,0 +1,84 @@
+import { addColumnIfMissing, db } from './db';
+import type { QuizSession } from './quiz';
+
+let tableReady: Promise<void> | null = null;
+
+function ensureQuizTable(): Promise<void> {
+  if (!tableReady) {
+    tableReady = db
+      .execute(
+        `CREATE TABLE IF NOT EXISTS quiz_sessions (
+          thread_id TEXT PRIMARY KEY,
+          questions TEXT NOT NULL,
+          answers TEXT NOT NULL,
+          current_index INTEGER,
+          difficulty TEXT NOT NULL,
+          started_at INTEGER NOT NULL,
+          updated_at INTEGER NOT NULL,
+          tenant_id TEXT
+        )`,
+      )
+      .then(() => addColumnIfMissing('quiz_sessions', 'tenant_id', 'TEXT'))
+      .catch(error => {
+        tableReady = null;
+        throw error;
+      });
+  }
+  return tableReady;
+}
+
+// One quiz per memory thread; the answer key stays here instead of in the conversation. Thread ids are chosen by
+// the client, so a thread that holds another tenant's quiz is never overwritten.
+export async function saveQuizSession(session: QuizSession, tenantId?: string): Promise<void> {
+  await ensureQuizTable();
+
+  const result = await db.execute({
+    sql: `INSERT INTO quiz_sessions
+            (thread_id, questions, answers, current_index, difficulty, started_at, updated_at, tenant_id)
+          VALUES (?, ?, ?, ?, ?, ?, ?, ?)
+          ON CONFLICT (thread_id) DO UPDATE SET
+            questions = excluded.questions,
+            answers = excluded.answers,
+            current_index = excluded.current_index,
+            difficulty = excluded.difficulty,
+            started_at = excluded.started_at,
+            updated_at = excluded.updated_at
+          WHERE quiz_sessions.tenant_id IS excluded.tenant_id`,
+    args: [
+      session.threadId,
+      JSON.stringify(session.questions),
+      JSON.stringify(session.answers),
+      session.currentIndex,
+      session.difficulty,
+      session.startedAt,
+      Date.now(),
+      tenantId ?? null,
+    ],
+  });
+  if (result.rowsAffected === 0) {
+    throw new Error(`Thread ${session.threadId} is already in use; start the quiz in a new thread`);
+  }
+}
+
+// The tenant's quiz in the thread; without a tenant, a quiz started without one
+export async function getQuizSession(threadId: string, tenantId?: string): Promise<QuizSession | null> {
+  await ensureQuizTable();
+
+  const result = await db.execute({
+    sql: 'SELECT * FROM quiz_sessions WHERE thread_id = ? AND tenant_id IS ?',
+    args: [threadId, tenantId ?? null],
+  });
+  const row = result.rows[0];
+  if (!row) {
+    return null;
+  }
+
+  return {
+    threadId,
+    questions: JSON.parse(String(row.questions)),
+    answers: JSON.parse(String(row.answers)),
+    currentIndex: row.current_index === null ? null : Number(row.current_index),
+    difficulty: String(row.difficulty) as QuizSession['difficulty'],
+    startedAt: Number(row.started_at),
+  };
+}
@@ -0,0 +1,158 @@
+import { z } from 'zod';
+import { difficultySchema, type Question } from '../tools/generate-questions-from-text-tool';
+
+// An answer scoring at least this is correct, at least PARTIAL_SCORE partially correct
+export const CORRECT_SCORE = 0.8;
+export const PARTIAL_SCORE = 0.4;
+// A topic whose answers average below this is reported as weak
+export const WEAK_TOPIC_SCORE = 0.6;
+
+type Difficulty = Question['difficulty'];
+
+const DIFFICULTIES: Difficulty[] = ['easy', 'medium', 'hard'];
+
+export const rubricCriterionSchema = z.object({
+  criterion: z.string().describe('What the answer had to contain, taken from the reference answer'),
+  met: z.enum(['yes', 'partly', 'no']),
+  comment: z.string().describe('What the answer got right or missed for this criterion'),
+});
+
+export const quizGradeSchema = z.object({
+  score: z.number().min(0).max(1).describe('0-1, the share of the rubric the answer satisfies'),
+  verdict: z.enum(['correct', 'partial', 'incorrect']),
+  feedback: z.string().describe('Feedback for the student: what was right, what was missing, and the correct answer'),
+  rubric: z
+    .array(rubricCriterionSchema)
+    .describe('Per-criterion grading for free-text answers; empty for multiple choice'),
+});
+
+export const quizProgressSchema = z.object({
+  totalQuestions: z.number(),
+  answered: z.number(),
+  correct: z.number().describe('Answers graded correct'),
+  score: z.number().describe('Average score of the answered questions (0-1)'),
+  currentDifficulty: difficultySchema.describe('Difficulty the next question is picked at'),
+  weakTopics: z
+    .array(z.object({ topic: z.string(), answered: z.number(), averageScore: z.number() }))
+    .describe(`Topics whose answers average below ${WEAK_TOPIC_SCORE}, weakest first`),
+  finished: z.boolean(),
+});
+
+export type QuizGrade = z.infer<typeof quizGradeSchema>;
+export type QuizProgress = z.infer<typeof quizProgressSchema>;
+
+export interface QuizQuestion extends Question {
+  // Section, bank tag or cited page the question is about, for weak-topic tracking
+  topic: string;
+}
+
+export interface QuizAnswer {
+  index: number;
+  answer: string;
+  grade: QuizGrade;
+}
+
+export interface QuizSession {
+  threadId: string;
+  questions: QuizQuestion[];
+  answers: QuizAnswer[];
+  // Question that was asked and not answered yet
+  currentIndex: number | null;
+  difficulty: Difficulty;
+  startedAt: number;
+}
+
+export function topicOf(question: Question, tags: string[] = []): string {
+  if (question.section) {
+    return question.section;
+  }
+  if (tags.length > 0) {
+    return tags[0];
+  }
+  const page = question.citations[0]?.page;
+  return page ? `page ${page}` : 'general';
+}
+
+export function verdictFor(score: number): QuizGrade['verdict'] {
+  return score >= CORRECT_SCORE ? 'correct' : score >= PARTIAL_SCORE ? 'partial' : 'incorrect';
+}
+
+function normalizeAnswer(text: string): string {
+  return text
+    .trim()
+    .toLowerCase()
+    .replace(/\s+/g, ' ')
+    .replace(/[.!]+$/, '');
+}
+
+// Multiple choice is graded without a model: the answer must be the correct option, by text or by its letter
+export function gradeMultipleChoice(question: Question, answer: string): QuizGrade {
+  const normalized = normalizeAnswer(answer);
+  const letter = /^\(?([a-z])[).:]?$/.exec(normalized)?.[1];
+  const chosen =
+    letter && question.options.length > 0 && letter.charCodeAt(0) - 97 < question.options.length
+      ? question.options[letter.charCodeAt(0) - 97]
+      : answer;
+  const correct = normalizeAnswer(chosen) === normalizeAnswer(question.correctAnswer);
+
+  return {
+    score: correct ? 1 : 0,
+    verdict: correct ? 'correct' : 'incorrect',
+    feedback: correct
+      ? `Correct. ${question.referenceAnswer}`
+      : `Not quite. The correct answer is "${question.correctAnswer}". ${question.referenceAnswer}`,
+    rubric: [],
+  };
+}
+
+// Step up after a correct answer, down after an incorrect one, and stay after a partial one
+export function nextDifficulty(current: Difficulty, grade: QuizGrade): Difficulty {
+  const step = grade.verdict === 'correct' ? 1 : grade.verdict === 'incorrect' ? -1 : 0;
+  const index = Math.min(DIFFICULTIES.length - 1, Math.max(0, DIFFICULTIES.indexOf(current) + step));
+  return DIFFICULTIES[index];
+}
+
+// The unasked question closest to the target difficulty, preferring weak topics, then the original order
+export function pickNextQuestion(session: QuizSession): number | null {
+  const asked = new Set(session.answers.map(answer => answer.index));
+  const weak = new Set(summarizeQuizProgress(session).weakTopics.map(entry => entry.topic));
+  const target = DIFFICULTIES.indexOf(session.difficulty);
+
+  let best: { index: number; rank: number } | null = null;
+  for (const [index, question] of session.questions.entries()) {
+    if (asked.has(index)) {
+      continue;
+    }
+    const rank = Math.abs(DIFFICULTIES.indexOf(question.difficulty) - target) * 2 + (weak.has(question.topic) ? 0 : 1);
+    if (!best || rank < best.rank) {
+      best = { index, rank };
+    }
+  }
+  return best?.index ?? null;
+}
+
+export function summarizeQuizProgress(session: QuizSession): QuizProgress {
+  const round = (value: number) => Math.round(value * 100) / 100;
+  const byTopic = new Map<string, number[]>();
+  for (const answer of session.answers) {
+    const topic = session.questions[answer.index].topic;
+    byTopic.set(topic, [...(byTopic.get(topic) ?? []), answer.grade.score]);
+  }
+
+  const average = (scores: number[]) => scores.reduce((sum, score) => sum + score, 0) / scores.length;
+  const weakTopics = [...byTopic]
+    .map(([topic, scores]) => ({ topic, answered: scores.length, averageScore: round(average(scores)) }))
+    .filter(entry => entry.averageScore < WEAK_TOPIC_SCORE)
+    .sort((a, b) => a.averageScore - b.averageScore);
+
+  const answered = session.answers.length;
+  return {
+    totalQuestions: session.questions.length,
+    answered,
+    correct: session.answers.filter(answer => answer.grade.verdict === 'correct').length,
+    score: answered > 0 ? round(average(session.answers.map(answer => answer.grade.score))) : 0,
+    currentDifficulty: session.difficulty,
+    weakTopics,
+    finished: answered === session.questions.length,
+  };
+}
@@ -0,0 +1,270 @@
+import { LibSQLVector } from '@mastra/libsql';
+import { addColumnIfMissing, db, MASTRA_DB_URL } from './db';
+import type { LayoutBlock, LayoutDocument } from './layout';
+import { splitTextIntoChunks } from './summarize';
+import type { Embedder } from './embedder';
+
+// Small chunks keep retrieved passages focused enough to cite a single page
+export const DEFAULT_RAG_CHUNK_TOKENS = 300;
+export const DEFAULT_RAG_TOP_K = 5;
+export const MAX_RAG_TOP_K = 50;
+
+export const pdfVectorStore = new LibSQLVector({ id: 'pdf-vector-store', url: MASTRA_DB_URL });
+
+export interface DocumentChunk {
+  page: number;
+  // Heading path the chunk sits under, e.g. "2 Methods > 2.1 Sampling"; empty before the first heading
+  section: string;
+  text: string;
+}
+
+export interface IngestedDocument {
+  threadId: string;
+  tenantId?: string;
+  documentId: string;
+  source: string;
+  pagesCount: number;
+  chunkCount: number;
+  ingestedAt: number;
+}
+
+export interface RetrievedPassage {
+  documentId: string;
+  source: string;
+  page: number;
+  section: string;
+  text: string;
+  score: number;
+}
+
+function blockText(block: LayoutBlock): string {
+  return block.type === 'table' ? block.rows.map(row => row.join(' | ')).join('\n') : block.text;
+}
+
+// Split a layout document into retrieval chunks that never cross a page and restart at every heading
+export function chunkLayoutDocument(
+  document: LayoutDocument,
+  maxChunkTokens: number = DEFAULT_RAG_CHUNK_TOKENS,
+): DocumentChunk[] {
+  const chunks: DocumentChunk[] = [];
+  const headingPath: { level: number; text: string }[] = [];
+
+  for (const page of document.pages) {
+    let blocks: string[] = [];
+
+    const flush = () => {
+      const section = headingPath.map(heading => heading.text).join(' > ');
+      for (const text of splitTextIntoChunks(blocks.join('\n\n'), maxChunkTokens)) {
+        chunks.push({ page: page.pageNumber, section, text });
+      }
+      blocks = [];
+    };
+
+    for (const block of page.blocks) {
+      if (block.type === 'heading') {
+        flush();
+        while (headingPath.length > 0 && headingPath[headingPath.length - 1].level >= block.level) {
+          headingPath.pop();
+        }
+        headingPath.push({ level: block.level, text: block.text });
+        // The heading stays in the chunk text so a search for the section title finds its content
+        blocks.push(block.text);
+      } else {
+        blocks.push(blockText(block));
+      }
+    }
+
+    flush();
+  }
+
+  return chunks;
+}
+
+// One index per embedder, since vectors of different models (or dimensions) cannot be compared
+function indexNameFor(embedder: Embedder): string {
+  return `pdf_chunks_${embedder.id.toLowerCase().replace(/[^a-z0-9]+/g, '_')}`;
+}
+
+const indexesReady = new Map<string, Promise<void>>();
+
+function ensureVectorIndex(indexName: string, dimension: number): Promise<void> {
+  let ready = indexesReady.get(indexName);
+  if (!ready) {
+    ready = pdfVectorStore.createIndex({ indexName, dimension, metric: 'cosine' }).catch(error => {
+      indexesReady.delete(indexName);
+      throw error;
+    });
+    indexesReady.set(indexName, ready);
+  }
+  return ready;
+}
+
+let tableReady: Promise<void> | null = null;
+
+function ensureThreadDocumentsTable(): Promise<void> {
+  if (!tableReady) {
+    tableReady = db
+      .execute(
+        `CREATE TABLE IF NOT EXISTS pdf_thread_documents (
+          thread_id TEXT NOT NULL,
+          document_id TEXT NOT NULL,
+          source TEXT NOT NULL,
+          pages_count INTEGER NOT NULL,
+          chunk_count INTEGER NOT NULL,
+          ingested_at INTEGER NOT NULL,
+          tenant_id TEXT,
+          PRIMARY KEY (thread_id, document_id)
+        )`,
+      )
+      .then(() => addColumnIfMissing('pdf_thread_documents', 'tenant_id', 'TEXT'))
+      .catch(error => {
+        tableReady = null;
+        throw error;
+      });
+  }
+  return tableReady;
+}
+
+export interface IngestDocumentInput {
+  threadId: string;
+  // Tenant the thread belongs to; its chunks are only ever searched on the tenant's behalf
+  tenantId?: string;
+  // Content hash of the PDF, so re-ingesting the same bytes replaces rather than duplicates its chunks
+  documentId: string;
+  source: string;
+  document: LayoutDocument;
+}
+
+// Vector metadata and filters that scope chunks to a thread, and to its tenant in multi-tenant mode
+function threadScope(threadId: string, tenantId?: string) {
+  return { threadId, ...(tenantId && { tenantId }) };
+}
+
+// Embed a document's chunks into the vector index, scoped to one memory thread
+export async function ingestDocument(embedder: Embedder, input: IngestDocumentInput): Promise<IngestedDocument> {
+  const chunks = chunkLayoutDocument(input.document);
+  if (chunks.length === 0) {
+    throw new Error('The PDF has no text to index');
+  }
+
+  console.log(`🧩 Embedding ${chunks.length} chunks with ${embedder.id}...`);
+  const vectors = await embedder.embed(
+    chunks.map(chunk => (chunk.section ? `${chunk.section}\n${chunk.text}` : chunk.text)),
+  );
+
+  const indexName = indexNameFor(embedder);
+  await ensureVectorIndex(indexName, vectors[0].length);
+
+  await pdfVectorStore.deleteVectors({
+    indexName,
+    filter: { ...threadScope(input.threadId, input.tenantId), documentId: input.documentId },
+  });
+  await pdfVectorStore.upsert({
+    indexName,
+    vectors,
+    ids: chunks.map(
+      (_chunk, index) => `${input.tenantId ? `${input.tenantId}:` : ''}${input.threadId}:${input.documentId}:${index}`,
+    ),
+    metadata: chunks.map(chunk => ({
+      ...threadScope(input.threadId, input.tenantId),
+      documentId: input.documentId,
+      source: input.source,
+      page: chunk.page,
+      section: chunk.section,
+      text: chunk.text,
+    })),
+  });
+
+  const record: IngestedDocument = {
+    threadId: input.threadId,
+    ...(input.tenantId && { tenantId: input.tenantId }),
+    documentId: input.documentId,
+    source: input.source,
+    pagesCount: input.document.pages.length,
+    chunkCount: chunks.length,
+    ingestedAt: Date.now(),
+  };
+
+  await ensureThreadDocumentsTable();
+  await db.execute({
+    sql: `INSERT INTO pdf_thread_documents
+            (thread_id, document_id, source, pages_count, chunk_count, ingested_at, tenant_id)
+          VALUES (?, ?, ?, ?, ?, ?, ?)
+          ON CONFLICT (thread_id, document_id) DO UPDATE SET
+            source = excluded.source,
+            pages_count = excluded.pages_count,
+            chunk_count = excluded.chunk_count,
+            ingested_at = excluded.ingested_at,
+            tenant_id = excluded.tenant_id`,
+    args: [
+      record.threadId,
+      record.documentId,
+      record.source,
+      record.pagesCount,
+      record.chunkCount,
+      record.ingestedAt,
+      input.tenantId ?? null,
+    ],
+  });
+
+  return record;
+}
+
+// Documents ingested into a thread by the tenant, most recent first; without a tenant, those ingested without one
+export async function listThreadDocuments(threadId: string, tenantId?: string): Promise<IngestedDocument[]> {
+  await ensureThreadDocumentsTable();
+
+  const result = await db.execute({
+    sql: `SELECT document_id, source, pages_count, chunk_count, ingested_at FROM pdf_thread_documents
+          WHERE thread_id = ? AND tenant_id IS ? ORDER BY ingested_at DESC`,
+    args: [threadId, tenantId ?? null],
+  });
+
+  return result.rows.map(row => ({
+    threadId,
+    ...(tenantId && { tenantId }),
+    documentId: String(row.document_id),
+    source: String(row.source),
+    pagesCount: Number(row.pages_count),
+    chunkCount: Number(row.chunk_count),
+    ingestedAt: Number(row.ingested_at),
+  }));
+}
+
+export interface SearchDocumentsInput {
+  threadId: string;
+  tenantId?: string;
+  query: string;
+  topK?: number;
+  // Restrict the search to one ingested document
+  documentId?: string;
+}
+
+// Retrieve the passages most similar to the query, only from documents the tenant ingested into the thread
+export async function searchDocuments(embedder: Embedder, input: SearchDocumentsInput): Promise<RetrievedPassage[]> {
+  const indexName = indexNameFor(embedder);
+  const indexes = await pdfVectorStore.listIndexes();
+  if (!indexes.includes(indexName)) {
+    return [];
+  }
+
+  const [queryVector] = await embedder.embed([input.query]);
+  const results = await pdfVectorStore.query({
+    indexName,
+    queryVector,
+    topK: input.topK ?? DEFAULT_RAG_TOP_K,
+    filter: {
+      ...threadScope(input.threadId, input.tenantId),
+      ...(input.documentId && { documentId: input.documentId }),
+    },
+  });
+
+  return results.map(result => ({
+    documentId: String(result.metadata?.documentId ?? ''),
+    source: String(result.metadata?.source ?? ''),
+    page: Number(result.metadata?.page ?? 0),
+    section: String(result.metadata?.section ?? ''),
+    text: String(result.metadata?.text ?? ''),
+    score: Math.round(result.score * 1000) / 1000,
+  }));
+}
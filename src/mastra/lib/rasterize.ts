@@ -0,0 +1,47 @@
+import { withPdfDocument } from './pdfjs';
+
+// 2x the PDF's 72 dpi gives ~144 dpi, enough for OCR of body text without huge bitmaps
+export const DEFAULT_RASTER_SCALE = 2;
+
+interface CanvasAndContext {
+  canvas: { toBuffer(mimeType: 'image/png'): Buffer };
+  context: unknown;
+}
+
+interface CanvasFactory {
+  create(width: number, height: number): CanvasAndContext;
+  destroy(canvasAndContext: CanvasAndContext): void;
+}
+
+// Render the given 1-based pages to PNG images, keyed by page number
+export async function rasterizePdfPages(
+  pdfBuffer: Buffer,
+  pageNumbers: number[],
+  scale: number = DEFAULT_RASTER_SCALE,
+): Promise<Map<number, Buffer>> {
+  const images = new Map<number, Buffer>();
+
+  await withPdfDocument(pdfBuffer, async pdf => {
+    const canvasFactory = pdf.canvasFactory as CanvasFactory;
+
+    for (const pageNumber of pageNumbers) {
+      const page = await pdf.getPage(pageNumber);
+      const viewport = page.getViewport({ scale });
+      const canvasAndContext = canvasFactory.create(Math.ceil(viewport.width), Math.ceil(viewport.height));
+
+      try {
+        await page.render({
+          canvas: canvasAndContext.canvas as unknown as HTMLCanvasElement,
+          canvasContext: canvasAndContext.context as CanvasRenderingContext2D,
+          viewport,
+        }).promise;
+        images.set(pageNumber, canvasAndContext.canvas.toBuffer('image/png'));
+      } finally {
+        canvasFactory.destroy(canvasAndContext);
+        page.cleanup();
+      }
+    }
+  });
+
+  return images;
+}
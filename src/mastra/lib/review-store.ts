@@ -0,0 +1,78 @@
+import { addColumnIfMissing, db } from './db';
+import type { ReviewRecord } from './review';
+
+let tableReady: Promise<void> | null = null;
+
+function ensureReviewTable(): Promise<void> {
+  if (!tableReady) {
+    tableReady = db
+      .execute(
+        `CREATE TABLE IF NOT EXISTS pdf_question_reviews (
+          run_id TEXT NOT NULL,
+          round INTEGER NOT NULL,
+          position INTEGER NOT NULL,
+          reviewer TEXT NOT NULL,
+          action TEXT NOT NULL,
+          stem TEXT NOT NULL,
+          comment TEXT,
+          decided_at TEXT NOT NULL,
+          tenant_id TEXT,
+          PRIMARY KEY (run_id, round, position)
+        )`,
+      )
+      .then(() => addColumnIfMissing('pdf_question_reviews', 'tenant_id', 'TEXT'))
+      .catch(error => {
+        tableReady = null;
+        throw error;
+      });
+  }
+  return tableReady;
+}
+
+// Audit trail of review decisions, kept independently of the workflow snapshot
+export async function saveReviewRecords(runId: string, records: ReviewRecord[], tenantId?: string): Promise<void> {
+  if (records.length === 0) {
+    return;
+  }
+  await ensureReviewTable();
+
+  await db.batch(
+    records.map((record, position) => ({
+      sql: `INSERT OR REPLACE INTO pdf_question_reviews
+              (run_id, round, position, reviewer, action, stem, comment, decided_at, tenant_id)
+            VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?)`,
+      args: [
+        runId,
+        record.round,
+        position,
+        record.reviewer,
+        record.action,
+        record.stem,
+        record.comment ?? null,
+        record.decidedAt,
+        tenantId ?? null,
+      ],
+    })),
+    'write',
+  );
+}
+
+export async function getReviewRecords(runId: string): Promise<ReviewRecord[]> {
+  await ensureReviewTable();
+
+  const result = await db.execute({
+    sql: `SELECT round, reviewer, action, stem, comment, decided_at, tenant_id FROM pdf_question_reviews
+          WHERE run_id = ? ORDER BY round, position`,
+    args: [runId],
+  });
+
+  return result.rows.map(row => ({
+    round: Number(row.round),
+    reviewer: String(row.reviewer),
+    action: String(row.action) as ReviewRecord['action'],
+    stem: String(row.stem),
+    ...(row.comment !== null && { comment: String(row.comment) }),
+    decidedAt: String(row.decided_at),
+    ...(row.tenant_id !== null && { tenantId: String(row.tenant_id) }),
+  }));
+}
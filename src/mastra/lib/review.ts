@@ -0,0 +1,173 @@
+import { z } from 'zod';
+import { questionSchema, type Question } from '../tools/generate-questions-from-text-tool';
+import { questionQualityScoreSchema } from '../scorers/question-quality-scorer';
+import { modelUsageSchema } from './usage';
+
+export const reviewActionSchema = z
+  .enum(['approve', 'edit', 'reject', 'regenerate'])
+  .describe('approve as is, apply edits, drop the question, or replace it with a newly generated one');
+
+const questionEditsSchema = questionSchema
+  .omit({ citations: true, section: true })
+  .partial()
+  .describe('Fields to change; everything else is kept');
+
+export const reviewDecisionSchema = z.object({
+  index: z.number().describe('Position of the question in the draft'),
+  action: reviewActionSchema,
+  edits: questionEditsSchema.optional().describe('Required for edit'),
+  comment: z.string().optional().describe('Reason for the decision; passed to the generator for regenerate'),
+});
+
+export const reviewResumeSchema = z.object({
+  reviewer: z.string().min(1).describe('Who is reviewing, e.g. an email address; recorded with every decision'),
+  decisions: z
+    .array(reviewDecisionSchema)
+    .describe('Decisions for individual questions; draft questions without a decision are approved'),
+});
+
+export const reviewDraftQuestionSchema = questionSchema.extend({
+  pending: z.boolean().describe('True for questions this round is asked to review (new or regenerated)'),
+  score: questionQualityScoreSchema
+    .extend({ passed: z.boolean() })
+    .nullable()
+    .describe('Quality score from evaluation; null when evaluation was disabled or the judge failed'),
+});
+
+export const reviewRecordSchema = z.object({
+  round: z.number(),
+  reviewer: z.string(),
+  action: reviewActionSchema,
+  // The question as the reviewer saw it
+  stem: z.string(),
+  comment: z.string().optional(),
+  decidedAt: z.string().describe('ISO 8601 timestamp'),
+  // `reviewer` is whatever the caller typed; this is the tenant whose API key submitted the decision
+  tenantId: z.string().optional(),
+});
+
+export const reviewDraftSchema = z.object({
+  round: z.number().describe('1 for the first review, +1 after every round with regeneration requests'),
+  questions: z.array(reviewDraftQuestionSchema).describe('The draft question set, in order'),
+  history: z.array(reviewRecordSchema).describe('Decisions recorded in earlier rounds'),
+  errors: z
+    .array(z.string())
+    .optional()
+    .describe('Problems with the last submitted decisions; nothing was applied, please resubmit'),
+  usage: z.array(modelUsageSchema).optional().describe('Tokens spent regenerating questions in earlier rounds'),
+});
+
+export const reviewSummarySchema = z.object({
+  approvedBy: z.string().describe('Reviewer who submitted the final round'),
+  approvedAt: z.string().describe('ISO 8601 timestamp of the final approval'),
+  rounds: z.number(),
+  decisions: z.array(reviewRecordSchema).describe('Every recorded decision, across all rounds'),
+});
+
+export type ReviewDecision = z.infer<typeof reviewDecisionSchema>;
+export type ReviewResume = z.infer<typeof reviewResumeSchema>;
+export type ReviewDraftQuestion = z.infer<typeof reviewDraftQuestionSchema>;
+export type ReviewRecord = z.infer<typeof reviewRecordSchema>;
+export type ReviewDraft = z.infer<typeof reviewDraftSchema>;
+
+export interface ReviewOutcome {
+  // The surviving questions, in draft order, with edits applied; regenerate requests keep their place
+  questions: ReviewDraftQuestion[];
+  // Positions in `questions` to regenerate, with the reviewer's comments as feedback
+  regenerate: { index: number; comment?: string }[];
+  records: ReviewRecord[];
+}
+
+// An edit must leave a well-formed question behind, e.g. a multiple choice question whose answer is an option
+function editedQuestion(question: ReviewDraftQuestion, edits: ReviewDecision['edits']): ReviewDraftQuestion | string {
+  const edited = { ...question, ...edits };
+  if (edited.type !== 'multiple_choice') {
+    return { ...edited, options: [] };
+  }
+  if (edited.options.length < 2) {
+    return 'a multiple choice question needs at least two options';
+  }
+  if (!edited.options.includes(edited.correctAnswer)) {
+    return 'the correct answer must be one of the options';
+  }
+  return edited;
+}
+
+// Check every decision before applying any, so a typo never applies half a review
+export function validateReviewDecisions(draft: ReviewDraft, decisions: ReviewDecision[]): string[] {
+  const errors: string[] = [];
+  const seen = new Set<number>();
+
+  for (const decision of decisions) {
+    const label = `Question ${decision.index}`;
+    const question = draft.questions[decision.index];
+    if (!Number.isInteger(decision.index) || !question) {
+      errors.push(`${label}: no such question in the draft (0-${draft.questions.length - 1})`);
+      continue;
+    }
+    if (seen.has(decision.index)) {
+      errors.push(`${label}: more than one decision`);
+    }
+    seen.add(decision.index);
+
+    if (decision.action === 'edit') {
+      const edited = decision.edits ? editedQuestion(question, decision.edits) : 'edit needs `edits`';
+      if (typeof edited === 'string') {
+        errors.push(`${label}: ${edited}`);
+      }
+    }
+  }
+
+  return errors;
+}
+
+export function createReviewDraft(questions: Question[], scores: ReviewDraftQuestion['score'][]): ReviewDraft {
+  return {
+    round: 1,
+    questions: questions.map((question, index) => ({ ...question, pending: true, score: scores[index] ?? null })),
+    history: [],
+  };
+}
+
+// Apply one round of validated decisions. Pending questions without a decision count as approved.
+export function applyReviewDecisions(draft: ReviewDraft, resume: ReviewResume, decidedAt: Date): ReviewOutcome {
+  const byIndex = new Map(resume.decisions.map(decision => [decision.index, decision]));
+  const outcome: ReviewOutcome = { questions: [], regenerate: [], records: [] };
+
+  draft.questions.forEach((question, index) => {
+    const decision = byIndex.get(index);
+    if (!decision && !question.pending) {
+      outcome.questions.push(question);
+      return;
+    }
+
+    const action = decision?.action ?? 'approve';
+    outcome.records.push({
+      round: draft.round,
+      reviewer: resume.reviewer,
+      action,
+      stem: question.stem,
+      ...(decision?.comment && { comment: decision.comment }),
+      decidedAt: decidedAt.toISOString(),
+    });
+
+    switch (action) {
+      case 'reject':
+        return;
+      case 'edit':
+        outcome.questions.push({
+          ...(editedQuestion(question, decision!.edits) as ReviewDraftQuestion),
+          pending: false,
+        });
+        return;
+      case 'regenerate':
+        outcome.regenerate.push({ index: outcome.questions.length, comment: decision?.comment });
+        outcome.questions.push(question);
+        return;
+      default:
+        outcome.questions.push({ ...question, pending: false });
+    }
+  });
+
+  return outcome;
+}
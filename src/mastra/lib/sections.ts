@@ -0,0 +1,260 @@
+import type { LayoutBlock, LayoutDocument } from './layout';
+import type { PdfOutlineItem } from './metadata';
+import type { PdfPageText } from './util';
+
+// Sections shorter than this cannot support a question and get no quota
+export const MIN_SECTION_CHARS = 300;
+// Pages grouped per section when the document has neither an outline nor headings
+const PAGES_PER_FALLBACK_SECTION = 5;
+const FRONT_MATTER_TITLE = 'Front matter';
+
+export type SectionSource = 'outline' | 'headings' | 'pages';
+
+export interface DocumentSection {
+  title: string;
+  startPage: number;
+  endPage: number;
+  // The section's text split by page, so citations can be checked against the right page
+  pages: PdfPageText[];
+  characterCount: number;
+}
+
+export interface DocumentSections {
+  source: SectionSource;
+  sections: DocumentSection[];
+}
+
+interface PositionedBlock {
+  pageNumber: number;
+  block: LayoutBlock;
+}
+
+interface SectionStart {
+  title: string;
+  blockIndex: number;
+}
+
+function blockText(block: LayoutBlock): string {
+  return block.type === 'table' ? block.rows.map(row => row.join(' | ')).join('\n') : block.text;
+}
+
+function normalizeTitle(text: string): string {
+  return text
+    .toLowerCase()
+    .replace(/[^\p{L}\p{N}]+/gu, ' ')
+    .trim();
+}
+
+// Top-level bookmarks, descending into a lone root bookmark (e.g. the book title) to reach its chapters
+function outlineEntries(outline: PdfOutlineItem[]): PdfOutlineItem[] {
+  let entries = outline.filter(item => item.page !== null);
+  while (entries.length === 1 && entries[0].items.some(item => item.page !== null)) {
+    entries = entries[0].items.filter(item => item.page !== null);
+  }
+  return entries;
+}
+
+// A bookmark starts at the heading with its title on its target page, or at the top of that page
+function outlineStarts(outline: PdfOutlineItem[], blocks: PositionedBlock[]): SectionStart[] {
+  const starts: SectionStart[] = [];
+  let searchFrom = 0;
+
+  for (const entry of outlineEntries(outline)) {
+    const title = normalizeTitle(entry.title);
+    const firstOnPage = blocks.findIndex(
+      (positioned, index) => index >= searchFrom && positioned.pageNumber >= entry.page!,
+    );
+    if (firstOnPage === -1) {
+      continue;
+    }
+
+    const heading = blocks.findIndex(
+      (positioned, index) =>
+        index >= firstOnPage &&
+        positioned.pageNumber === blocks[firstOnPage].pageNumber &&
+        positioned.block.type === 'heading' &&
+        title !== '' &&
+        normalizeTitle(positioned.block.text).startsWith(title),
+    );
+    const blockIndex = heading === -1 ? firstOnPage : heading;
+    starts.push({ title: entry.title, blockIndex });
+    searchFrom = blockIndex + 1;
+  }
+
+  return starts;
+}
+
+// Without an outline, the highest heading level that occurs at least twice splits the document
+function headingStarts(blocks: PositionedBlock[]): SectionStart[] {
+  const levels = [...new Set(blocks.flatMap(({ block }) => (block.type === 'heading' ? [block.level] : [])))].sort(
+    (a, b) => a - b,
+  );
+
+  for (const level of levels) {
+    const starts = blocks.flatMap(({ block }, blockIndex) =>
+      block.type === 'heading' && block.level === level ? [{ title: block.text, blockIndex }] : [],
+    );
+    if (starts.length >= 2) {
+      return starts;
+    }
+  }
+
+  return [];
+}
+
+function pageStarts(blocks: PositionedBlock[]): SectionStart[] {
+  const starts: SectionStart[] = [];
+  const lastPage = blocks[blocks.length - 1]?.pageNumber ?? 0;
+
+  for (let startPage = 1; startPage <= lastPage; startPage += PAGES_PER_FALLBACK_SECTION) {
+    const blockIndex = blocks.findIndex(positioned => positioned.pageNumber >= startPage);
+    const endPage = Math.min(startPage + PAGES_PER_FALLBACK_SECTION - 1, lastPage);
+    if (blockIndex !== -1 && !starts.some(start => start.blockIndex === blockIndex)) {
+      starts.push({ title: startPage === endPage ? `Page ${startPage}` : `Pages ${startPage}-${endPage}`, blockIndex });
+    }
+  }
+
+  return starts;
+}
+
+function buildSection(title: string, blocks: PositionedBlock[]): DocumentSection {
+  const pages: PdfPageText[] = [];
+  for (const { pageNumber, block } of blocks) {
+    const last = pages[pages.length - 1];
+    if (last?.pageNumber === pageNumber) {
+      last.text = `${last.text}\n${blockText(block)}`;
+    } else {
+      pages.push({ pageNumber, text: blockText(block) });
+    }
+  }
+
+  return {
+    title,
+    startPage: pages[0].pageNumber,
+    endPage: pages[pages.length - 1].pageNumber,
+    pages,
+    characterCount: pages.reduce((sum, page) => sum + page.text.length, 0),
+  };
+}
+
+// Split a document into sections using its bookmarks, else its detected headings, else fixed page ranges
+export function splitIntoSections(document: LayoutDocument, outline: PdfOutlineItem[] = []): DocumentSections {
+  const blocks: PositionedBlock[] = document.pages.flatMap(page =>
+    page.blocks.map(block => ({ pageNumber: page.pageNumber, block })),
+  );
+  if (blocks.length === 0) {
+    return { source: 'pages', sections: [] };
+  }
+
+  let source: SectionSource = 'outline';
+  let starts = outlineStarts(outline, blocks);
+  if (starts.length < 2) {
+    source = 'headings';
+    starts = headingStarts(blocks);
+  }
+  if (starts.length < 2) {
+    source = 'pages';
+    starts = pageStarts(blocks);
+  }
+
+  const sections: DocumentSection[] = [];
+
+  // Text before the first section (title page, abstract, ...) becomes its own section
+  if (starts[0].blockIndex > 0) {
+    sections.push(buildSection(FRONT_MATTER_TITLE, blocks.slice(0, starts[0].blockIndex)));
+  }
+
+  starts.forEach((start, index) => {
+    const end = starts[index + 1]?.blockIndex ?? blocks.length;
+    if (end > start.blockIndex) {
+      sections.push(buildSection(start.title, blocks.slice(start.blockIndex, end)));
+    }
+  });
+
+  return { source, sections };
+}
+
+// Spread the question budget across sections: every usable section gets at least one question when the budget
+// allows, the rest goes to longer sections in proportion to their length, and no section exceeds its quota
+export function allocateSectionQuotas(
+  sections: DocumentSection[],
+  totalQuestions: number,
+  maxPerSection: number = Number.POSITIVE_INFINITY,
+): number[] {
+  const quotas = sections.map(() => 0);
+  const usable = sections
+    .map((section, index) => ({ index, length: section.characterCount }))
+    .filter(section => section.length >= MIN_SECTION_CHARS);
+  if (usable.length === 0 || totalQuestions <= 0 || maxPerSection <= 0) {
+    return quotas;
+  }
+
+  // Too few questions for every section: give one each to the longest sections
+  if (totalQuestions < usable.length) {
+    [...usable]
+      .sort((a, b) => b.length - a.length)
+      .slice(0, totalQuestions)
+      .forEach(section => (quotas[section.index] = 1));
+    return quotas;
+  }
+
+  usable.forEach(section => (quotas[section.index] = 1));
+  let remaining = totalQuestions - usable.length;
+
+  // Hand out the rest one at a time to the section with the most text per allocated question
+  while (remaining > 0) {
+    const candidates = usable.filter(section => quotas[section.index] < maxPerSection);
+    if (candidates.length === 0) {
+      break;
+    }
+    const next = candidates.reduce((best, section) =>
+      section.length / (quotas[section.index] + 1) > best.length / (quotas[best.index] + 1) ? section : best,
+    );
+    quotas[next.index] += 1;
+    remaining -= 1;
+  }
+
+  return quotas;
+}
+
+export interface SectionCoverage {
+  title: string;
+  startPage: number;
+  endPage: number;
+  characterCount: number;
+  quota: number;
+  questionCount: number;
+  // Positions of the section's questions in the returned question list
+  questionIndexes: number[];
+}
+
+export interface CoverageReport {
+  source: SectionSource;
+  sectionsTotal: number;
+  sectionsCovered: number;
+  sections: SectionCoverage[];
+}
+
+export function buildCoverageReport(
+  source: SectionSource,
+  sections: DocumentSection[],
+  quotas: number[],
+  questionIndexes: number[][],
+): CoverageReport {
+  const coverage = sections.map((section, index) => ({
+    title: section.title,
+    startPage: section.startPage,
+    endPage: section.endPage,
+    characterCount: section.characterCount,
+    quota: quotas[index] ?? 0,
+    questionCount: questionIndexes[index]?.length ?? 0,
+    questionIndexes: questionIndexes[index] ?? [],
+  }));
+
+  return {
+    source,
+    sectionsTotal: sections.length,
+    sectionsCovered: coverage.filter(section => section.questionCount > 0).length,
+    sections: coverage,
+  };
+}
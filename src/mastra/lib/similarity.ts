@@ -0,0 +1,60 @@
+// Word-level comparison used to spot near-duplicate questions without a model call
+
+const STOP_WORDS = new Set([
+  'a',
+  'an',
+  'and',
+  'are',
+  'as',
+  'by',
+  'does',
+  'for',
+  'how',
+  'in',
+  'is',
+  'of',
+  'on',
+  'or',
+  'the',
+  'to',
+  'what',
+  'which',
+  'why',
+  'with',
+]);
+
+function contentWords(text: string): string[] {
+  return text
+    .toLowerCase()
+    .replace(/[^\p{L}\p{N}\s]/gu, ' ')
+    .split(/\s+/)
+    .filter(word => word.length > 1 && !STOP_WORDS.has(word));
+}
+
+// Word unigrams plus bigrams, so reordered phrasings still overlap but shared vocabulary alone does not dominate
+function shingles(text: string): Set<string> {
+  const words = contentWords(text);
+  const result = new Set(words);
+  for (let i = 0; i < words.length - 1; i++) {
+    result.add(`${words[i]} ${words[i + 1]}`);
+  }
+  return result;
+}
+
+// Jaccard similarity in [0, 1]; 1 means the texts share every content word and word pair
+export function textSimilarity(a: string, b: string): number {
+  const left = shingles(a);
+  const right = shingles(b);
+  if (left.size === 0 || right.size === 0) {
+    return 0;
+  }
+
+  let shared = 0;
+  for (const item of left) {
+    if (right.has(item)) {
+      shared++;
+    }
+  }
+
+  return shared / (left.size + right.size - shared);
+}
@@ -0,0 +1,228 @@
+import type { Agent } from '@mastra/core/agent';
+import type { RequestContext } from '@mastra/core/di';
+import { mapWithConcurrency } from './util';
+import type { ProgressListener } from './progress';
+import { addModelUsage, agentModelName, answeringModelName, type ModelUsage } from './usage';
+
+// Rough heuristic used for budgeting: ~4 characters per token for English text
+const CHARS_PER_TOKEN = 4;
+
+// Bump when the summarization prompts change so cached summaries are not reused
+export const SUMMARY_PROMPT_VERSION = 'map-reduce-outline-v2';
+
+export const DEFAULT_MAX_CHUNK_TOKENS = 8000;
+export const DEFAULT_SUMMARY_CONCURRENCY = 4;
+
+export interface SummaryLevelUsage {
+  level: number;
+  calls: number;
+  inputTokens: number;
+  outputTokens: number;
+  totalTokens: number;
+}
+
+export interface ChunkedSummaryResult {
+  summary: string;
+  chunkCount: number;
+  levels: SummaryLevelUsage[];
+  // Tokens per model that answered; differs from the agent's model only when it falls back
+  usage: ModelUsage[];
+}
+
+export interface ChunkedSummaryOptions {
+  maxChunkTokens?: number;
+  concurrency?: number;
+  // Table of contents lines (e.g. from the PDF bookmarks), used to organize the summary by the document's own sections
+  outline?: string[];
+  onProgress?: ProgressListener;
+  // Stops outstanding model calls when the run is cancelled
+  abortSignal?: AbortSignal;
+  // Passed to every model call, so the calling tenant's token quota applies
+  requestContext?: RequestContext;
+  // The agent's model in provider/model format; looked up from the agent when omitted
+  modelName?: string;
+}
+
+export function estimateTokens(text: string): number {
+  return Math.ceil(text.length / CHARS_PER_TOKEN);
+}
+
+// Split text into chunks that fit the token budget, keeping page boundaries where possible
+export function splitTextIntoChunks(text: string, maxChunkTokens: number = DEFAULT_MAX_CHUNK_TOKENS): string[] {
+  // A budget below one token would never advance through the text
+  if (!Number.isFinite(maxChunkTokens) || maxChunkTokens < 1) {
+    throw new RangeError(`maxChunkTokens must be at least 1, got ${maxChunkTokens}`);
+  }
+  const maxChars = maxChunkTokens * CHARS_PER_TOKEN;
+  const pages = text
+    .split(/\n\s*\n/)
+    .map(page => page.trim())
+    .filter(page => page.length > 0);
+
+  const chunks: string[] = [];
+  let current = '';
+
+  for (const page of pages) {
+    // A single page larger than the budget is split on sentence boundaries
+    const pieces = page.length > maxChars ? splitOversizedText(page, maxChars) : [page];
+
+    for (const piece of pieces) {
+      if (current && current.length + piece.length + 2 > maxChars) {
+        chunks.push(current);
+        current = '';
+      }
+      current = current ? `${current}\n\n${piece}` : piece;
+    }
+  }
+
+  if (current) {
+    chunks.push(current);
+  }
+
+  return chunks;
+}
+
+function splitOversizedText(text: string, maxChars: number): string[] {
+  const sentences = text.match(/[^.!?]+[.!?]+\s*|[^.!?]+$/g) || [text];
+  const pieces: string[] = [];
+  let current = '';
+
+  for (const sentence of sentences) {
+    // Hard-split sentences that on their own exceed the budget
+    for (let start = 0; start < sentence.length; start += maxChars) {
+      const part = sentence.slice(start, start + maxChars);
+      if (current && current.length + part.length > maxChars) {
+        pieces.push(current.trim());
+        current = '';
+      }
+      current += part;
+    }
+  }
+
+  if (current.trim()) {
+    pieces.push(current.trim());
+  }
+
+  return pieces;
+}
+
+// Group partial summaries into batches that fit the token budget for the next reduce pass
+function groupForReduce(summaries: string[], maxChunkTokens: number): string[][] {
+  const maxChars = maxChunkTokens * CHARS_PER_TOKEN;
+  const groups: string[][] = [];
+  let current: string[] = [];
+  let currentLength = 0;
+
+  for (const summary of summaries) {
+    if (current.length > 0 && currentLength + summary.length > maxChars) {
+      groups.push(current);
+      current = [];
+      currentLength = 0;
+    }
+    current.push(summary);
+    currentLength += summary.length;
+  }
+
+  if (current.length > 0) {
+    groups.push(current);
+  }
+
+  // Always make progress: never produce as many groups as there were inputs
+  if (groups.length === summaries.length && summaries.length > 1) {
+    const paired: string[][] = [];
+    for (let i = 0; i < summaries.length; i += 2) {
+      paired.push(summaries.slice(i, i + 2));
+    }
+    return paired;
+  }
+
+  return groups;
+}
+
+// Map-reduce summarization: summarize chunks in parallel, then merge the partial summaries hierarchically
+export async function summarizeInChunks(
+  agent: Agent,
+  text: string,
+  options: ChunkedSummaryOptions = {},
+): Promise<ChunkedSummaryResult> {
+  const maxChunkTokens = options.maxChunkTokens ?? DEFAULT_MAX_CHUNK_TOKENS;
+  const concurrency = options.concurrency ?? DEFAULT_SUMMARY_CONCURRENCY;
+
+  const chunks = splitTextIntoChunks(text, maxChunkTokens);
+  if (chunks.length === 0) {
+    throw new Error('No text to summarize');
+  }
+
+  const modelName = options.modelName ?? (await agentModelName(agent));
+  const levels: SummaryLevelUsage[] = [];
+  const modelUsage: ModelUsage[] = [];
+
+  // Only the final summary is organized by section; partial summaries cover too little of the document to use it
+  const outlineContext =
+    options.outline && options.outline.length > 0
+      ? `\n\nThe document's table of contents is below. Organize the summary by these sections and keep their names:\n${options.outline.join('\n')}`
+      : '';
+
+  const runLevel = async (level: number, prompts: string[]): Promise<string[]> => {
+    const usage: SummaryLevelUsage = { level, calls: 0, inputTokens: 0, outputTokens: 0, totalTokens: 0 };
+    levels.push(usage);
+
+    return mapWithConcurrency(prompts, concurrency, async prompt => {
+      const result = await agent.generate([{ role: 'user', content: prompt }], {
+        abortSignal: options.abortSignal,
+        requestContext: options.requestContext,
+      });
+      usage.calls += 1;
+      usage.inputTokens += result.usage?.inputTokens ?? 0;
+      usage.outputTokens += result.usage?.outputTokens ?? 0;
+      usage.totalTokens += result.usage?.totalTokens ?? 0;
+      addModelUsage(modelUsage, answeringModelName(modelName, result.response), result.usage);
+      options.onProgress?.({
+        type: 'chunk-summarized',
+        level,
+        chunksSummarized: usage.calls,
+        totalChunks: prompts.length,
+      });
+      return result.text || '';
+    });
+  };
+
+  console.log(`🧩 Summarizing ${chunks.length} chunk(s) with up to ${concurrency} in parallel...`);
+
+  // Map: a document that fits in a single chunk is summarized in one call
+  let summaries = await runLevel(
+    0,
+    chunks.length === 1
+      ? [`Please provide a comprehensive summary of this PDF content:${outlineContext}\n\n${chunks[0]}`]
+      : chunks.map(
+          (chunk, index) =>
+            `Please provide a comprehensive summary of this section of a PDF (part ${index + 1} of ${chunks.length}):\n\n${chunk}`,
+        ),
+  );
+
+  // Reduce: merge partial summaries until a single summary remains
+  let level = 1;
+  while (summaries.length > 1) {
+    const groups = groupForReduce(summaries, maxChunkTokens);
+    console.log(`🔗 Reducing ${summaries.length} partial summaries into ${groups.length} (level ${level})...`);
+
+    const isFinal = groups.length === 1;
+    summaries = await runLevel(
+      level,
+      groups.map(
+        group =>
+          `The following are summaries of consecutive sections of the same PDF. Combine them into a single comprehensive summary of the whole document:${isFinal ? outlineContext : ''}\n\n${group
+            .map((summary, index) => `--- Section summary ${index + 1} ---\n${summary}`)
+            .join('\n\n')}`,
+      ),
+    );
+    level += 1;
+  }
+
+  return {
+    summary: summaries[0],
+    chunkCount: chunks.length,
+    levels,
+    usage: modelUsage,
+  };
+}
@@ -0,0 +1,77 @@
+import { db } from './db';
+
+export interface TenantUsage {
+  pages: number;
+  tokens: number;
+}
+
+let tableReady: Promise<void> | null = null;
+
+function ensureTenantUsageTable(): Promise<void> {
+  if (!tableReady) {
+    tableReady = db
+      .execute(
+        `CREATE TABLE IF NOT EXISTS tenant_usage (
+          tenant_id TEXT NOT NULL,
+          day TEXT NOT NULL,
+          pages INTEGER NOT NULL DEFAULT 0,
+          tokens INTEGER NOT NULL DEFAULT 0,
+          PRIMARY KEY (tenant_id, day)
+        )`,
+      )
+      .then(() => undefined)
+      .catch(error => {
+        tableReady = null;
+        throw error;
+      });
+  }
+  return tableReady;
+}
+
+// Pages and tokens a tenant used on one UTC day (YYYY-MM-DD)
+export async function getTenantUsage(tenantId: string, day: string): Promise<TenantUsage> {
+  await ensureTenantUsageTable();
+
+  const result = await db.execute({
+    sql: 'SELECT pages, tokens FROM tenant_usage WHERE tenant_id = ? AND day = ?',
+    args: [tenantId, day],
+  });
+
+  const row = result.rows[0];
+  return { pages: Number(row?.pages ?? 0), tokens: Number(row?.tokens ?? 0) };
+}
+
+// Add pages unless that takes the day's total over maxPages; checked and written in one statement, so concurrent
+// requests cannot both slip under the limit. Returns false when nothing was added.
+export async function addTenantPages(
+  tenantId: string,
+  day: string,
+  pages: number,
+  maxPages: number | null,
+): Promise<boolean> {
+  await ensureTenantUsageTable();
+
+  if (maxPages !== null && pages > maxPages) {
+    return false;
+  }
+
+  const result = await db.execute({
+    sql: `INSERT INTO tenant_usage (tenant_id, day, pages, tokens) VALUES (?, ?, ?, 0)
+          ON CONFLICT (tenant_id, day) DO UPDATE SET pages = pages + excluded.pages
+          WHERE ? IS NULL OR pages + excluded.pages <= ?`,
+    args: [tenantId, day, pages, maxPages, maxPages],
+  });
+
+  return result.rowsAffected > 0;
+}
+
+// Tokens are only known once a model has answered, so they are recorded without a check
+export async function addTenantTokens(tenantId: string, day: string, tokens: number): Promise<void> {
+  await ensureTenantUsageTable();
+
+  await db.execute({
+    sql: `INSERT INTO tenant_usage (tenant_id, day, pages, tokens) VALUES (?, ?, 0, ?)
+          ON CONFLICT (tenant_id, day) DO UPDATE SET tokens = tokens + excluded.tokens`,
+    args: [tenantId, day, tokens],
+  });
+}
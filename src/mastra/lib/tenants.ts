@@ -0,0 +1,166 @@
+import { createHash, timingSafeEqual } from 'node:crypto';
+import { z } from 'zod';
+import type { RequestContext } from '@mastra/core/di';
+import { addTenantPages, addTenantTokens, getTenantUsage } from './tenant-usage-store';
+
+// RequestContext key the auth middleware stores the calling tenant's id under
+export const TENANT_ID_KEY = 'tenantId';
+
+export const tenantConfigSchema = z.object({
+  id: z
+    .string()
+    .regex(/^[A-Za-z0-9_-]+$/)
+    .describe('Stable tenant id; used as the memory resource id and stored with cached data and bank questions'),
+  apiKeys: z.array(z.string().min(16)).min(1).describe('Keys the tenant authenticates with; several allow rotation'),
+  maxPagesPerDay: z.number().int().positive().optional(),
+  maxTokensPerDay: z.number().int().positive().optional(),
+});
+
+export type TenantConfig = z.infer<typeof tenantConfigSchema>;
+
+export type TenantQuota = 'pages' | 'tokens';
+
+export const quotaStatusSchema = z.object({
+  tenantId: z.string(),
+  day: z.string().describe('UTC day the usage counts towards (YYYY-MM-DD); quotas reset at midnight UTC'),
+  pages: z.object({ used: z.number(), limit: z.number().nullable().describe('null when unlimited') }),
+  tokens: z.object({ used: z.number(), limit: z.number().nullable().describe('null when unlimited') }),
+});
+
+export type QuotaStatus = z.infer<typeof quotaStatusSchema>;
+
+export class QuotaExceededError extends Error {
+  readonly quota: TenantQuota;
+  readonly tenantId: string;
+  readonly used: number;
+  readonly limit: number;
+
+  constructor(quota: TenantQuota, tenantId: string, used: number, limit: number, message?: string) {
+    super(message ?? `Tenant ${tenantId} has used ${used} of ${limit} ${quota} allowed today`);
+    this.name = 'QuotaExceededError';
+    this.quota = quota;
+    this.tenantId = tenantId;
+    this.used = used;
+    this.limit = limit;
+  }
+
+  toJSON() {
+    return { code: 'QUOTA_EXCEEDED', quota: this.quota, message: this.message, used: this.used, limit: this.limit };
+  }
+}
+
+// TENANTS is a JSON array of tenant configs. Unlike other settings it is not replaced by a default when invalid:
+// silently running without authentication would expose every tenant's data.
+export function getTenants(): TenantConfig[] {
+  if (!process.env.TENANTS?.trim()) {
+    return [];
+  }
+  const tenants = z.array(tenantConfigSchema).parse(JSON.parse(process.env.TENANTS));
+  const ids = tenants.map(tenant => tenant.id);
+  const duplicate = ids.find((id, index) => ids.indexOf(id) !== index);
+  if (duplicate) {
+    throw new Error(`TENANTS lists tenant "${duplicate}" more than once`);
+  }
+  return tenants;
+}
+
+// Without configured tenants the server is single-tenant: no API keys, no quotas, one shared scope
+export function tenantsEnabled(): boolean {
+  return getTenants().length > 0;
+}
+
+function keyDigest(apiKey: string): Buffer {
+  return createHash('sha256').update(apiKey).digest();
+}
+
+// Digests have a fixed length, so keys are compared in constant time whatever their length
+export function findTenantByApiKey(apiKey: string): TenantConfig | null {
+  const digest = keyDigest(apiKey);
+  return (
+    getTenants().find(tenant => tenant.apiKeys.some(candidate => timingSafeEqual(keyDigest(candidate), digest))) ?? null
+  );
+}
+
+// The calling tenant, or undefined in single-tenant mode and for calls made outside the server (scripts, tests)
+export function getTenantId(requestContext?: RequestContext): string | undefined {
+  const tenantId = requestContext?.get(TENANT_ID_KEY);
+  return typeof tenantId === 'string' && tenantId ? tenantId : undefined;
+}
+
+function envLimit(name: string): number | null {
+  const value = Number(process.env[name]);
+  return Number.isFinite(value) && value > 0 ? value : null;
+}
+
+// A tenant's own limits, else TENANT_MAX_PAGES_PER_DAY / TENANT_MAX_TOKENS_PER_DAY; null means unlimited
+export function getTenantLimits(tenantId: string): Record<TenantQuota, number | null> {
+  const tenant = getTenants().find(candidate => candidate.id === tenantId);
+  return {
+    pages: tenant?.maxPagesPerDay ?? envLimit('TENANT_MAX_PAGES_PER_DAY'),
+    tokens: tenant?.maxTokensPerDay ?? envLimit('TENANT_MAX_TOKENS_PER_DAY'),
+  };
+}
+
+// Quotas are per UTC day
+export function usageDay(date = new Date()): string {
+  return date.toISOString().slice(0, 10);
+}
+
+export async function getQuotaStatus(tenantId: string): Promise<QuotaStatus> {
+  const day = usageDay();
+  const usage = await getTenantUsage(tenantId, day);
+  const limits = getTenantLimits(tenantId);
+  return {
+    tenantId,
+    day,
+    pages: { used: usage.pages, limit: limits.pages },
+    tokens: { used: usage.tokens, limit: limits.tokens },
+  };
+}
+
+// Quotas that are already used up; a request that needs one of them cannot succeed today
+export function exhaustedQuotas(status: QuotaStatus): TenantQuota[] {
+  return (['pages', 'tokens'] as const).filter(
+    quota => status[quota].limit !== null && status[quota].used >= status[quota].limit!,
+  );
+}
+
+// Count a processed document against the tenant's page quota, refusing it when it does not fit in what is left
+export async function chargePages(tenantId: string | undefined, pages: number): Promise<void> {
+  if (!tenantId) {
+    return;
+  }
+  const limit = getTenantLimits(tenantId).pages;
+  if (await addTenantPages(tenantId, usageDay(), pages, limit)) {
+    return;
+  }
+  const { pages: used } = await getTenantUsage(tenantId, usageDay());
+  throw new QuotaExceededError(
+    'pages',
+    tenantId,
+    used,
+    limit!,
+    `This ${pages}-page document exceeds the daily page quota of tenant ${tenantId} (${used} of ${limit} pages used today)`,
+  );
+}
+
+export async function assertTokensAvailable(tenantId: string | undefined): Promise<void> {
+  if (!tenantId) {
+    return;
+  }
+  const limit = getTenantLimits(tenantId).tokens;
+  if (limit === null) {
+    return;
+  }
+  const { tokens: used } = await getTenantUsage(tenantId, usageDay());
+  if (used >= limit) {
+    throw new QuotaExceededError('tokens', tenantId, used, limit);
+  }
+}
+
+export async function recordTokens(tenantId: string | undefined, tokens: number): Promise<void> {
+  if (!tenantId || tokens <= 0) {
+    return;
+  }
+  await addTenantTokens(tenantId, usageDay(), tokens);
+}
@@ -0,0 +1,26 @@
+import { noopObserve, type ToolExecutionContext, type ValidationError } from '@mastra/core/tools';
+
+// What a workflow step passes when it runs a tool directly; the observability helpers are filled in here
+export type ToolCallContext = Partial<Omit<ToolExecutionContext, 'observe'>>;
+
+interface CallableTool<TInput, TOutput> {
+  id: string;
+  execute?: (inputData: TInput, context: any) => Promise<TOutput | ValidationError | void>;
+}
+
+// Run a tool outside an agent. Input validation errors are returned like the tool returns them; a tool that
+// returns nothing (it suspended) is an error, since none of the tools called this way can suspend.
+export async function callTool<TInput, TOutput>(
+  tool: CallableTool<TInput, TOutput>,
+  inputData: TInput,
+  context: ToolCallContext = {},
+): Promise<TOutput | ValidationError> {
+  if (!tool.execute) {
+    throw new Error(`Tool ${tool.id} cannot be executed`);
+  }
+  const result = await tool.execute(inputData, { observe: noopObserve, ...context });
+  if (result === undefined) {
+    throw new Error(`Tool ${tool.id} returned no result`);
+  }
+  return result;
+}
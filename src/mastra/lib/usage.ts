@@ -0,0 +1,186 @@
+import type { Agent } from '@mastra/core/agent';
+import { z } from 'zod';
+import { estimateTokens } from './summarize';
+import { ROUTED_MODEL_PROVIDER } from './model';
+
+// USD per million tokens; override or extend with MODEL_PRICES, e.g. {"openai/gpt-4o": {"input": 2.5, "output": 10}}
+export const DEFAULT_MODEL_PRICES: Record<string, ModelPrice> = {
+  'openai/gpt-4o': { input: 2.5, output: 10 },
+  'openai/gpt-4o-mini': { input: 0.15, output: 0.6 },
+  'openai/gpt-4.1': { input: 2, output: 8 },
+  'openai/gpt-4.1-mini': { input: 0.4, output: 1.6 },
+  'openai/gpt-4.1-nano': { input: 0.1, output: 0.4 },
+};
+
+export interface ModelPrice {
+  input: number;
+  output: number;
+}
+
+export const modelUsageSchema = z.object({
+  model: z.string().describe('Model in provider/model format'),
+  calls: z.number().describe('Number of model calls'),
+  inputTokens: z.number().describe('Prompt tokens'),
+  outputTokens: z.number().describe('Completion tokens'),
+  totalTokens: z.number(),
+});
+
+export const stepUsageSchema = z.object({
+  step: z.string(),
+  models: z.array(modelUsageSchema),
+});
+
+export const compressionSchema = z.object({
+  fullTextTokens: z.number().describe('Tokens of the full extracted text'),
+  summaryTokens: z.number().describe('Tokens of the summary that is sent instead'),
+  ratio: z.number().describe('summaryTokens / fullTextTokens'),
+  reduction: z.number().describe('Share of the full-text tokens saved by sending the summary (0-1)'),
+});
+
+const pricedModelUsageSchema = modelUsageSchema.extend({
+  estimatedCost: z.number().nullable().describe('USD; null when the price table has no entry for the model'),
+});
+
+const usageTotalsSchema = z.object({
+  calls: z.number(),
+  inputTokens: z.number(),
+  outputTokens: z.number(),
+  totalTokens: z.number(),
+  estimatedCost: z.number().describe('USD, for the models with a known price'),
+});
+
+export const usageReportSchema = z.object({
+  steps: z.array(usageTotalsSchema.extend({ step: z.string(), models: z.array(pricedModelUsageSchema) })),
+  models: z.array(pricedModelUsageSchema).describe('Usage per model across all steps'),
+  total: usageTotalsSchema,
+  unpricedModels: z.array(z.string()).describe('Models left out of the cost estimates'),
+  compression: compressionSchema
+    .nullable()
+    .describe('Summary size compared with the full text; null when no summary was produced'),
+});
+
+export type ModelUsage = z.infer<typeof modelUsageSchema>;
+export type StepUsage = z.infer<typeof stepUsageSchema>;
+export type Compression = z.infer<typeof compressionSchema>;
+export type UsageReport = z.infer<typeof usageReportSchema>;
+
+// Token counts as reported by `generate`; providers may leave any of them out
+type TokenCounts = { inputTokens?: number; outputTokens?: number; totalTokens?: number } | undefined;
+
+// The model an agent calls, in the provider/model format the price table uses
+export async function agentModelName(agent: Agent): Promise<string> {
+  const model = await agent.getModel();
+  return `${model.provider}/${model.modelId}`;
+}
+
+// A routed model answers with one of its fallbacks, which `generate` reports as the response's modelId
+export function answeringModelName(agentModel: string, response: { modelId?: string } | undefined): string {
+  return agentModel.startsWith(`${ROUTED_MODEL_PROVIDER}/`) && response?.modelId ? response.modelId : agentModel;
+}
+
+// Add one call's tokens to the model's running totals
+export function addModelUsage(usage: ModelUsage[], model: string, tokens: TokenCounts): void {
+  let entry = usage.find(candidate => candidate.model === model);
+  if (!entry) {
+    entry = { model, calls: 0, inputTokens: 0, outputTokens: 0, totalTokens: 0 };
+    usage.push(entry);
+  }
+  const inputTokens = tokens?.inputTokens ?? 0;
+  const outputTokens = tokens?.outputTokens ?? 0;
+  entry.calls += 1;
+  entry.inputTokens += inputTokens;
+  entry.outputTokens += outputTokens;
+  entry.totalTokens += tokens?.totalTokens ?? inputTokens + outputTokens;
+}
+
+export function mergeModelUsage(lists: ModelUsage[][]): ModelUsage[] {
+  const merged: ModelUsage[] = [];
+  for (const entry of lists.flat()) {
+    const existing = merged.find(candidate => candidate.model === entry.model);
+    if (existing) {
+      existing.calls += entry.calls;
+      existing.inputTokens += entry.inputTokens;
+      existing.outputTokens += entry.outputTokens;
+      existing.totalTokens += entry.totalTokens;
+    } else {
+      merged.push({ ...entry });
+    }
+  }
+  return merged;
+}
+
+// Both sides are estimated the same way (~4 characters per token), since the full text is never actually sent
+export function measureCompression(fullText: string, summary: string): Compression | null {
+  if (!fullText || !summary) {
+    return null;
+  }
+  const fullTextTokens = estimateTokens(fullText);
+  const summaryTokens = estimateTokens(summary);
+  const ratio = Math.round((summaryTokens / fullTextTokens) * 1000) / 1000;
+  return { fullTextTokens, summaryTokens, ratio, reduction: Math.round((1 - ratio) * 1000) / 1000 };
+}
+
+export function getModelPrices(): Record<string, ModelPrice> {
+  if (!process.env.MODEL_PRICES) {
+    return DEFAULT_MODEL_PRICES;
+  }
+  try {
+    return { ...DEFAULT_MODEL_PRICES, ...(JSON.parse(process.env.MODEL_PRICES) as Record<string, ModelPrice>) };
+  } catch (error) {
+    console.warn('⚠️ MODEL_PRICES is not valid JSON, using the default prices:', error);
+    return DEFAULT_MODEL_PRICES;
+  }
+}
+
+// Exact match first, then the longest entry the model name extends, e.g. dated snapshots like gpt-4o-2024-08-06
+function priceFor(model: string, prices: Record<string, ModelPrice>): ModelPrice | null {
+  if (prices[model]) {
+    return prices[model];
+  }
+  const base = Object.keys(prices)
+    .filter(name => model.startsWith(`${name}-`))
+    .sort((a, b) => b.length - a.length)[0];
+  return base ? prices[base] : null;
+}
+
+function estimateCost(usage: ModelUsage, prices: Record<string, ModelPrice>): number | null {
+  const price = priceFor(usage.model, prices);
+  if (!price) {
+    return null;
+  }
+  const cost = (usage.inputTokens * price.input + usage.outputTokens * price.output) / 1_000_000;
+  return Math.round(cost * 1_000_000) / 1_000_000;
+}
+
+function totalsOf(models: z.infer<typeof pricedModelUsageSchema>[]): z.infer<typeof usageTotalsSchema> {
+  const sum = (pick: (entry: z.infer<typeof pricedModelUsageSchema>) => number) =>
+    models.reduce((total, entry) => total + pick(entry), 0);
+  return {
+    calls: sum(entry => entry.calls),
+    inputTokens: sum(entry => entry.inputTokens),
+    outputTokens: sum(entry => entry.outputTokens),
+    totalTokens: sum(entry => entry.totalTokens),
+    estimatedCost: Math.round(sum(entry => entry.estimatedCost ?? 0) * 1_000_000) / 1_000_000,
+  };
+}
+
+export function buildUsageReport(
+  steps: StepUsage[],
+  compression: Compression | null,
+  prices: Record<string, ModelPrice> = getModelPrices(),
+): UsageReport {
+  const price = (models: ModelUsage[]) =>
+    models.map(entry => ({ ...entry, estimatedCost: estimateCost(entry, prices) }));
+
+  const models = price(mergeModelUsage(steps.map(step => step.models)));
+  return {
+    steps: steps.map(step => {
+      const priced = price(step.models);
+      return { step: step.step, ...totalsOf(priced), models: priced };
+    }),
+    models,
+    total: totalsOf(models),
+    unpricedModels: models.filter(entry => entry.estimatedCost === null).map(entry => entry.model),
+    compression,
+  };
+}
@@ -1,56 +1,49 @@
 // @ts-ignore
 import PDFParser from 'pdf2json';
+import { buildLayoutDocument, renderLayoutPageText, type LayoutDocument, type LayoutPage } from './layout';
+import { getOcrEngine, type OcrEngine } from './ocr';
+import type { ProgressListener } from './progress';
+import { rasterizePdfPages } from './rasterize';
 
-// Simple function to extract text from PDF using pure JavaScript
-export async function extractTextFromPDF(pdfBuffer: Buffer): Promise<{ extractedText: string; pagesCount: number }> {
-  if (!pdfBuffer || pdfBuffer.length === 0) {
-    throw new Error('Invalid PDF file: empty buffer');
-  }
+// Bump when extraction output changes so cached extractions are not reused
+export const EXTRACTION_VERSION = 'layout-ocr-v1';
 
-  console.log('🔍 Extracting text from PDF...');
+export interface PdfPageText {
+  pageNumber: number;
+  text: string;
+}
+
+export interface ExtractedPdfPage extends PdfPageText {
+  // Whether the text came from OCR because the page had no text layer
+  ocr: boolean;
+  // 0-1 OCR confidence; null for pages with native text
+  ocrConfidence: number | null;
+}
+
+export interface ExtractTextOptions {
+  // Engine used for pages without a text layer; null disables OCR (default: PDF_OCR_ENGINE)
+  ocrEngine?: OcrEngine | null;
+  onProgress?: ProgressListener;
+}
 
+// Parse the PDF's text layer into the layout model
+function parsePdfLayout(pdfBuffer: Buffer, onProgress?: ProgressListener): Promise<LayoutDocument> {
   return new Promise((resolve, reject) => {
     const pdfParser = new PDFParser();
 
+    // pdf2json emits each page as it is parsed, then null when done
+    let pagesParsed = 0;
+    pdfParser.on('data', (page: unknown) => {
+      if (page) {
+        pagesParsed += 1;
+        onProgress?.({ type: 'pages-parsed', pagesParsed, totalPages: null });
+      }
+    });
+
     pdfParser.on('pdfParser_dataReady', (pdfData: any) => {
       try {
-        let extractedText = '';
-        let pageCount = 0;
-
-        if (pdfData && pdfData.Pages) {
-          pageCount = pdfData.Pages.length;
-
-          for (const page of pdfData.Pages) {
-            if (page.Texts) {
-              for (const textItem of page.Texts) {
-                if (textItem.R) {
-                  for (const textRun of textItem.R) {
-                    if (textRun.T) {
-                      // Decode URI component to get readable text
-                      const decodedText = decodeURIComponent(textRun.T);
-                      extractedText += decodedText + ' ';
-                    }
-                  }
-                }
-              }
-            }
-            extractedText += '\n\n'; // Add page break
-          }
-        }
-
-        extractedText = extractedText.trim();
-
-        if (!extractedText) {
-          reject(new Error('No text could be extracted from the PDF'));
-          return;
-        }
-
-        console.log(`✅ Extracted ${extractedText.length} characters from ${pageCount} pages`);
-
-        resolve({
-          extractedText,
-          pagesCount: pageCount,
-        });
+        // Sort text runs into lines, columns, headings and tables instead of raw emit order
+        resolve(buildLayoutDocument(pdfData || {}));
       } catch (error) {
         reject(new Error(`Text extraction failed: ${error instanceof Error ? error.message : 'Unknown error'}`));
       }
@@ -60,7 +53,148 @@ export async function extractTextFromPDF(pdfBuffer: Buffer): Promise<{ extracted
       reject(new Error(`PDF parsing failed: ${error.parserError || error.message || 'Unknown error'}`));
     });
 
+    // pdf2json reads the underlying ArrayBuffer from offset 0, so copy pooled/sliced buffers into their own memory
+    let parseableBuffer = pdfBuffer;
+    if (pdfBuffer.byteOffset !== 0) {
+      parseableBuffer = Buffer.alloc(pdfBuffer.length);
+      pdfBuffer.copy(parseableBuffer);
+    }
+
     // Parse the PDF buffer
-    pdfParser.parseBuffer(pdfBuffer);
+    pdfParser.parseBuffer(parseableBuffer);
   });
 }
+
+// OCR output has no font information, so each blank-line separated run becomes a paragraph
+function ocrTextToBlocks(text: string): LayoutPage['blocks'] {
+  return text
+    .split(/\n\s*\n/)
+    .map(paragraph => paragraph.replace(/\s*\n\s*/g, ' ').trim())
+    .filter(paragraph => paragraph.length > 0)
+    .map(paragraph => ({ type: 'paragraph', text: paragraph, lines: [] }));
+}
+
+// Rasterize and OCR the pages that have no text runs (scans), filling their blocks in the layout document
+async function ocrTextlessPages(
+  pdfBuffer: Buffer,
+  document: LayoutDocument,
+  engine: OcrEngine,
+): Promise<Map<number, number>> {
+  const confidences = new Map<number, number>();
+  const textless = document.pages.filter(page => page.blocks.length === 0);
+  if (textless.length === 0) {
+    return confidences;
+  }
+
+  console.log(`🖨️ ${textless.length} page(s) have no text layer, running OCR with ${engine.id}...`);
+
+  const images = await rasterizePdfPages(
+    pdfBuffer,
+    textless.map(page => page.pageNumber),
+  );
+  const results = await engine.recognize(textless.map(page => images.get(page.pageNumber)!));
+
+  textless.forEach((page, index) => {
+    page.blocks = ocrTextToBlocks(results[index].text);
+    confidences.set(page.pageNumber, results[index].confidence);
+  });
+
+  return confidences;
+}
+
+// Extract text from PDF using pure JavaScript, in reading order, alongside a structured layout model.
+// Pages without a text layer are rasterized and OCR'd, then merged with the native pages in page order.
+export async function extractTextFromPDF(
+  pdfBuffer: Buffer,
+  options: ExtractTextOptions = {},
+): Promise<{
+  extractedText: string;
+  pagesCount: number;
+  pages: ExtractedPdfPage[];
+  document: LayoutDocument;
+  // OCR of the pages without a text layer failed, so those pages are empty; such an extraction is not cached
+  ocrFailed: boolean;
+}> {
+  if (!pdfBuffer || pdfBuffer.length === 0) {
+    throw new Error('Invalid PDF file: empty buffer');
+  }
+
+  console.log('🔍 Extracting text from PDF...');
+
+  const document = await parsePdfLayout(pdfBuffer, options.onProgress);
+  options.onProgress?.({
+    type: 'pages-parsed',
+    pagesParsed: document.pages.length,
+    totalPages: document.pages.length,
+  });
+
+  const engine = options.ocrEngine === undefined ? getOcrEngine() : options.ocrEngine;
+  let ocrConfidences = new Map<number, number>();
+  let ocrError: string | null = null;
+  if (engine) {
+    try {
+      ocrConfidences = await ocrTextlessPages(pdfBuffer, document, engine);
+    } catch (error) {
+      // OCR is a fallback: if it fails, documents with some native text are still usable
+      ocrError = error instanceof Error ? error.message : 'Unknown error';
+      console.warn('⚠️ OCR failed:', ocrError);
+    }
+  }
+
+  const pages: ExtractedPdfPage[] = document.pages.map(page => ({
+    pageNumber: page.pageNumber,
+    text: renderLayoutPageText(page),
+    ocr: ocrConfidences.has(page.pageNumber),
+    ocrConfidence: ocrConfidences.get(page.pageNumber) ?? null,
+  }));
+  const pageCount = pages.length;
+
+  // Pages are separated by a blank line (page break)
+  const extractedText = pages
+    .map(page => page.text)
+    .join('\n\n')
+    .trim();
+
+  if (!extractedText) {
+    throw new Error(
+      ocrError
+        ? `No text could be extracted from the PDF (OCR failed: ${ocrError})`
+        : 'No text could be extracted from the PDF',
+    );
+  }
+
+  console.log(
+    `✅ Extracted ${extractedText.length} characters from ${pageCount} pages` +
+      (ocrConfidences.size > 0 ? ` (${ocrConfidences.size} via OCR)` : ''),
+  );
+
+  return {
+    extractedText,
+    pagesCount: pageCount,
+    pages,
+    document,
+    ocrFailed: ocrError !== null,
+  };
+}
+
+// Run an async mapper over items with at most `concurrency` calls in flight, preserving input order
+export async function mapWithConcurrency<T, R>(
+  items: T[],
+  concurrency: number,
+  mapper: (item: T, index: number) => Promise<R>,
+): Promise<R[]> {
+  const results: R[] = new Array(items.length);
+  let nextIndex = 0;
+
+  const worker = async () => {
+    while (nextIndex < items.length) {
+      const index = nextIndex++;
+      results[index] = await mapper(items[index], index);
+    }
+  };
+
+  const workerCount = Math.max(1, Math.min(concurrency, items.length));
+  await Promise.all(Array.from({ length: workerCount }, () => worker()));
+
+  return results;
+}
@@ -0,0 +1,99 @@
+import type { ContextWithMastra } from '@mastra/core/server';
+import { MASTRA_RESOURCE_ID_KEY } from '@mastra/core/di';
+import { TENANT_ID_KEY, exhaustedQuotas, findTenantByApiKey, getQuotaStatus, tenantsEnabled } from '../lib/tenants';
+import { findRunOwnership } from '../lib/jobs';
+
+// Mastra's own API and this project's routes; everything else (e.g. the Studio UI assets) stays public
+const PROTECTED_PATHS = ['/api/*', '/pdf-questions/*'];
+
+// Built-in workflow routes that act on every run of a workflow or publish raw workflow events, whoever owns the runs
+const TENANT_BLOCKED_WORKFLOW_ROUTES = [
+  /^\/api\/workflows\/events$/,
+  /^\/api\/workflows\/[^/]+\/restart-all-active-workflow-runs/,
+];
+
+// The run a built-in workflow route acts on: /api/workflows/:workflowId/runs/:runId/... or ?runId=. The path
+// segment is decoded the way the router decodes it, so an escaped run id cannot skip the ownership check.
+function workflowRunId(c: ContextWithMastra): string | null {
+  const segment = c.req.path.match(/^\/api\/workflows\/[^/]+\/runs\/([^/]+)/)?.[1];
+  if (segment) {
+    try {
+      return decodeURIComponent(segment);
+    } catch {
+      return segment;
+    }
+  }
+  return c.req.query('runId') ?? null;
+}
+
+// Mastra's workflow routes scope runs by resource id, but let a caller reach runs stored without one and do not
+// check it on every route. A tenant key only reaches runs the tenant owns, or run ids no run uses yet.
+async function checkWorkflowAccess(c: ContextWithMastra, tenantId: string): Promise<Response | null> {
+  const path = c.req.path;
+  if (!path.startsWith('/api/workflows/')) {
+    return null;
+  }
+  if (TENANT_BLOCKED_WORKFLOW_ROUTES.some(pattern => pattern.test(path))) {
+    return c.json({ error: 'This route is not available with a tenant API key' }, 403);
+  }
+  const runId = workflowRunId(c);
+  if (runId && (await findRunOwnership(c.get('mastra'), tenantId, runId)) === 'foreign') {
+    return c.json({ error: 'Workflow run not found' }, 404);
+  }
+  return null;
+}
+
+// `Authorization: Bearer <key>` or `x-api-key: <key>`
+function readApiKey(c: ContextWithMastra): string | null {
+  const authorization = c.req.header('authorization');
+  const bearer = authorization?.match(/^Bearer\s+(.+)$/i)?.[1];
+  return bearer?.trim() || c.req.header('x-api-key')?.trim() || null;
+}
+
+// Identifies the tenant by API key and stores it in the RequestContext, which agents, tools and workflow runs
+// receive. The tenant id also becomes the memory resource id, overriding whatever the client sends, so a tenant
+// only ever reads and writes its own threads. Requests that would start work are refused once a quota is used up.
+async function tenantAuth(c: ContextWithMastra, next: () => Promise<void>) {
+  // Single-tenant mode: no configured tenants, no authentication
+  if (!tenantsEnabled()) {
+    return next();
+  }
+
+  const apiKey = readApiKey(c);
+  if (!apiKey) {
+    return c.json({ error: 'Missing API key; send it as "Authorization: Bearer <key>" or "x-api-key"' }, 401);
+  }
+  const tenant = findTenantByApiKey(apiKey);
+  if (!tenant) {
+    return c.json({ error: 'Unknown API key' }, 401);
+  }
+
+  const requestContext = c.get('requestContext');
+  requestContext.set(TENANT_ID_KEY, tenant.id);
+  requestContext.set(MASTRA_RESOURCE_ID_KEY, tenant.id);
+
+  const denied = await checkWorkflowAccess(c, tenant.id);
+  if (denied) {
+    return denied;
+  }
+
+  // Reads (run history, usage, bank lookups) stay available when a quota is used up
+  if (c.req.method !== 'GET') {
+    const quota = await getQuotaStatus(tenant.id);
+    const exhausted = exhaustedQuotas(quota);
+    if (exhausted.length > 0) {
+      return c.json(
+        {
+          error: `Daily ${exhausted.join(' and ')} quota of tenant ${tenant.id} is used up`,
+          code: 'QUOTA_EXCEEDED',
+          quota,
+        },
+        429,
+      );
+    }
+  }
+
+  return next();
+}
+
+export const tenantAuthMiddleware = PROTECTED_PATHS.map(path => ({ path, handler: tenantAuth }));
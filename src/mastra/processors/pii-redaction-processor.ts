@@ -0,0 +1,30 @@
+import type { ProcessInputArgs, Processor } from '@mastra/core/processors';
+import { piiRedactionEnabled, scanPii } from '../lib/guardrails';
+import { mapUserText } from './user-message-text';
+
+// Replaces emails, phone numbers and national ID numbers with placeholders before the input reaches the model,
+// when redaction is enabled (PDF_REDACT_PII, or per run through the RequestContext)
+export class PiiRedactionProcessor implements Processor<'pii-redaction'> {
+  readonly id = 'pii-redaction';
+  readonly name = 'PII redaction';
+
+  processInput({ messages, requestContext }: ProcessInputArgs) {
+    if (!piiRedactionEnabled(requestContext)) {
+      return messages;
+    }
+
+    let redacted = 0;
+    const guarded = mapUserText(messages, text => {
+      const result = scanPii(text, { redact: true });
+      redacted += result.findings.length;
+      return result.text;
+    });
+
+    if (redacted > 0) {
+      console.log(`🔒 Redacted ${redacted} PII value(s) from the input`);
+    }
+    return guarded;
+  }
+}
+
+export const piiRedactionProcessor = new PiiRedactionProcessor();
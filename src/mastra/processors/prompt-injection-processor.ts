@@ -0,0 +1,30 @@
+import type { ProcessInputArgs, Processor } from '@mastra/core/processors';
+import { neutralizeInjections, type GuardrailFinding } from '../lib/guardrails';
+import { mapUserText } from './user-message-text';
+
+// Document text reaches the agents inside user messages (summarization chunks, question prompts, pasted passages).
+// Sentences in it that address the model ("ignore the previous instructions", "call the ... tool") and chat-template
+// markup are replaced before the model sees them, so a PDF cannot redirect an agent or trigger its tools.
+export class PromptInjectionProcessor implements Processor<'prompt-injection-guard'> {
+  readonly id = 'prompt-injection-guard';
+  readonly name = 'Prompt injection guard';
+
+  processInput({ messages }: ProcessInputArgs) {
+    const findings: GuardrailFinding[] = [];
+    const guarded = mapUserText(messages, text => {
+      const result = neutralizeInjections(text);
+      findings.push(...result.findings);
+      return result.text;
+    });
+
+    if (findings.length > 0) {
+      console.warn(
+        `⚠️ Neutralized ${findings.length} instruction-like passage(s) in the input:`,
+        findings.map(finding => finding.excerpt),
+      );
+    }
+    return guarded;
+  }
+}
+
+export const promptInjectionProcessor = new PromptInjectionProcessor();
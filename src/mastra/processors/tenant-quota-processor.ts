@@ -0,0 +1,29 @@
+import type { ProcessInputArgs, ProcessOutputResultArgs, Processor } from '@mastra/core/processors';
+import { QuotaExceededError, assertTokensAvailable, getTenantId, recordTokens } from '../lib/tenants';
+
+// Meters every agent call against the calling tenant's daily token quota: a call is refused once the quota is used
+// up, and the tokens of a finished call are added to the tenant's usage. Calls without a tenant pass untouched.
+export class TenantQuotaProcessor implements Processor<'tenant-quota'> {
+  readonly id = 'tenant-quota';
+  readonly name = 'Tenant token quota';
+
+  async processInput({ messageList, requestContext, abort }: ProcessInputArgs) {
+    try {
+      await assertTokensAvailable(getTenantId(requestContext));
+    } catch (error) {
+      if (error instanceof QuotaExceededError) {
+        abort(error.message);
+      }
+      throw error;
+    }
+    return messageList;
+  }
+
+  async processOutputResult({ messageList, requestContext, result }: ProcessOutputResultArgs) {
+    const { totalTokens, inputTokens = 0, outputTokens = 0 } = result.usage;
+    await recordTokens(getTenantId(requestContext), totalTokens ?? inputTokens + outputTokens);
+    return messageList;
+  }
+}
+
+export const tenantQuotaProcessor = new TenantQuotaProcessor();
@@ -0,0 +1,29 @@
+import type { MastraDBMessage } from '@mastra/core/agent/message-list';
+
+// Apply a text transform to what the user (or a tool building a prompt from document text) sent; system
+// instructions and earlier assistant turns are the app's own text and stay as they are. A message keeps its text both
+// in its parts and as content.content, so each distinct text is transformed (and its findings counted) once.
+export function mapUserText(messages: MastraDBMessage[], transform: (text: string) => string): MastraDBMessage[] {
+  const transformed = new Map<string, string>();
+  const apply = (text: string) => {
+    if (!transformed.has(text)) {
+      transformed.set(text, transform(text));
+    }
+    return transformed.get(text)!;
+  };
+
+  return messages.map(message => {
+    if (message.role !== 'user') {
+      return message;
+    }
+    const { content } = message;
+    return {
+      ...message,
+      content: {
+        ...content,
+        parts: content.parts.map(part => (part.type === 'text' ? { ...part, text: apply(part.text) } : part)),
+        ...(typeof content.content === 'string' && { content: apply(content.content) }),
+      },
+    };
+  });
+}
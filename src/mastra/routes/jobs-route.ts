@@ -0,0 +1,63 @@
+import { registerApiRoute } from '@mastra/core/server';
+import type { WorkflowRunStatus } from '@mastra/core/workflows';
+import { DEFAULT_JOB_LIMIT, listJobs } from '../lib/jobs';
+import { getTenantId } from '../lib/tenants';
+
+const MAX_JOB_LIMIT = 100;
+
+const RUN_STATUSES: WorkflowRunStatus[] = [
+  'running',
+  'success',
+  'failed',
+  'tripwire',
+  'suspended',
+  'waiting',
+  'pending',
+  'canceled',
+  'bailed',
+  'paused',
+];
+
+// The calling tenant's workflow runs with their results, newest first; filter with ?workflowId=, ?status=, ?from=<ISO
+// date>, and page with ?limit= and ?offset=
+export const jobsRoute = registerApiRoute('/pdf-questions/jobs', {
+  method: 'GET',
+  handler: async c => {
+    const workflowId = c.req.query('workflowId') || undefined;
+    const status = c.req.query('status');
+    const from = c.req.query('from');
+    const limit = Number(c.req.query('limit') ?? DEFAULT_JOB_LIMIT);
+    const offset = Number(c.req.query('offset') ?? 0);
+
+    if (status && !RUN_STATUSES.includes(status as WorkflowRunStatus)) {
+      return c.json({ error: `status must be one of: ${RUN_STATUSES.join(', ')}` }, 400);
+    }
+
+    const fromDate = from ? new Date(from) : undefined;
+    if (fromDate && Number.isNaN(fromDate.getTime())) {
+      return c.json({ error: 'from must be an ISO date' }, 400);
+    }
+
+    if (!Number.isInteger(limit) || limit < 1 || limit > MAX_JOB_LIMIT) {
+      return c.json({ error: `limit must be a whole number from 1 to ${MAX_JOB_LIMIT}` }, 400);
+    }
+    if (!Number.isInteger(offset) || offset < 0) {
+      return c.json({ error: 'offset must be a whole number of at least 0' }, 400);
+    }
+
+    const mastra = c.get('mastra');
+    if (workflowId && !Object.keys(mastra.listWorkflows()).includes(workflowId)) {
+      return c.json({ error: `Unknown workflow ${workflowId}` }, 404);
+    }
+
+    const { jobs, total } = await listJobs(mastra, getTenantId(c.get('requestContext')), {
+      workflowId,
+      status: (status || undefined) as WorkflowRunStatus | undefined,
+      fromDate,
+      limit,
+      offset,
+    });
+
+    return c.json({ jobs, total, limit, offset });
+  },
+});
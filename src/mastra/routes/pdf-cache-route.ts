@@ -0,0 +1,31 @@
+import { registerApiRoute } from '@mastra/core/server';
+import { type CacheStage, invalidatePdfCache } from '../lib/cache';
+import { getTenantId } from '../lib/tenants';
+
+// Clears the calling tenant's cached extractions/summaries (all of them in single-tenant mode); filter with ?contentHash=, ?stage=extraction|summary and ?olderThan=<ISO date>
+export const invalidatePdfCacheRoute = registerApiRoute('/pdf-questions/cache', {
+  method: 'DELETE',
+  handler: async c => {
+    const contentHash = c.req.query('contentHash') || undefined;
+    const stage = c.req.query('stage');
+    const olderThan = c.req.query('olderThan');
+
+    if (stage && stage !== 'extraction' && stage !== 'summary') {
+      return c.json({ error: 'stage must be "extraction" or "summary"' }, 400);
+    }
+
+    const cutoff = olderThan ? new Date(olderThan) : undefined;
+    if (cutoff && Number.isNaN(cutoff.getTime())) {
+      return c.json({ error: 'olderThan must be an ISO date' }, 400);
+    }
+
+    const deleted = await invalidatePdfCache({
+      tenantId: getTenantId(c.get('requestContext')),
+      contentHash,
+      stage: (stage || undefined) as CacheStage | undefined,
+      olderThan: cutoff,
+    });
+
+    return c.json({ deleted });
+  },
+});
@@ -0,0 +1,18 @@
+import { registerApiRoute } from '@mastra/core/server';
+import { getBankQuestionHistory, getBankQuestions } from '../lib/question-bank';
+import { getTenantId } from '../lib/tenants';
+
+// A bank question with every earlier version, oldest first
+export const bankQuestionRoute = registerApiRoute('/pdf-questions/bank/:id', {
+  method: 'GET',
+  handler: async c => {
+    const id = c.req.param('id');
+    const tenantId = getTenantId(c.get('requestContext'));
+    const [question] = await getBankQuestions([id], tenantId);
+    if (!question) {
+      return c.json({ error: `Question ${id} is not in the bank` }, 404);
+    }
+    const history = await getBankQuestionHistory(id, tenantId);
+    return c.json({ question, history });
+  },
+});
@@ -0,0 +1,17 @@
+import { registerApiRoute } from '@mastra/core/server';
+import { getReviewRecords } from '../lib/review-store';
+import { isTenantRun } from '../lib/jobs';
+import { getTenantId } from '../lib/tenants';
+
+// Audit trail of who approved, edited, rejected or regenerated which question in a workflow run
+export const reviewRecordsRoute = registerApiRoute('/pdf-questions/reviews/:runId', {
+  method: 'GET',
+  handler: async c => {
+    const runId = c.req.param('runId');
+    if (!(await isTenantRun(c.get('mastra'), getTenantId(c.get('requestContext')), runId))) {
+      return c.json({ error: `Run ${runId} not found` }, 404);
+    }
+    const decisions = await getReviewRecords(runId);
+    return c.json({ runId, decisions });
+  },
+});
@@ -0,0 +1,14 @@
+import { registerApiRoute } from '@mastra/core/server';
+import { getQuotaStatus, getTenantId } from '../lib/tenants';
+
+// The calling tenant's page and token usage today and its daily limits
+export const tenantUsageRoute = registerApiRoute('/pdf-questions/usage', {
+  method: 'GET',
+  handler: async c => {
+    const tenantId = getTenantId(c.get('requestContext'));
+    if (!tenantId) {
+      return c.json({ error: 'Usage is tracked per tenant; no tenants are configured' }, 404);
+    }
+    return c.json(await getQuotaStatus(tenantId));
+  },
+});
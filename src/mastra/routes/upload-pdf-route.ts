@@ -0,0 +1,89 @@
+import { registerApiRoute } from '@mastra/core/server';
+import { getTenantId } from '../lib/tenants';
+
+const MAX_UPLOAD_BYTES = 50 * 1024 * 1024;
+// Room for the multipart boundaries and part headers around the file
+const MAX_BODY_BYTES = MAX_UPLOAD_BYTES + 64 * 1024;
+
+// Read the request body, stopping as soon as it passes maxBytes instead of buffering an oversized body first;
+// null when it is too large
+async function readBodyWithLimit(request: Request, maxBytes: number): Promise<Blob | null> {
+  if (!request.body) {
+    return new Blob([]);
+  }
+
+  const reader = request.body.getReader() as ReadableStreamDefaultReader<Uint8Array<ArrayBuffer>>;
+  const chunks: Uint8Array<ArrayBuffer>[] = [];
+  let received = 0;
+  for (;;) {
+    const { done, value } = await reader.read();
+    if (done) {
+      break;
+    }
+    received += value.length;
+    if (received > maxBytes) {
+      await reader.cancel();
+      return null;
+    }
+    chunks.push(value);
+  }
+  return new Blob(chunks);
+}
+
+// Accepts a multipart/form-data upload with a `file` field and starts pdfToQuestionsWorkflow on it
+export const uploadPdfRoute = registerApiRoute('/pdf-questions/upload', {
+  method: 'POST',
+  handler: async c => {
+    const mastra = c.get('mastra');
+
+    const tooLarge = () => c.json({ error: `Uploaded file exceeds the ${MAX_UPLOAD_BYTES} byte limit` }, 413);
+
+    // Refuse a declared oversized body before reading any of it; the streamed read below catches undeclared ones
+    if (Number(c.req.header('content-length') ?? 0) > MAX_BODY_BYTES) {
+      return tooLarge();
+    }
+
+    let form: FormData;
+    try {
+      const body = await readBodyWithLimit(c.req.raw, MAX_BODY_BYTES);
+      if (!body) {
+        return tooLarge();
+      }
+      form = await new Response(body, {
+        headers: { 'content-type': c.req.header('content-type') ?? '' },
+      }).formData();
+    } catch {
+      return c.json({ error: 'Expected a multipart/form-data request body' }, 400);
+    }
+
+    const file = form.get('file');
+    if (!(file instanceof File)) {
+      return c.json({ error: 'Missing PDF upload in the "file" form field' }, 400);
+    }
+
+    if (file.size === 0) {
+      return c.json({ error: 'Uploaded file is empty' }, 400);
+    }
+
+    if (file.size > MAX_UPLOAD_BYTES) {
+      return tooLarge();
+    }
+
+    const data = Buffer.from(await file.arrayBuffer()).toString('base64');
+
+    console.log(`📤 Received PDF upload: ${file.name} (${file.size} bytes)`);
+
+    const workflow = mastra.getWorkflow('pdfToQuestionsWorkflow');
+    // Owned by the calling tenant, like runs started through Mastra's workflow routes
+    const run = await workflow.createRun({ resourceId: getTenantId(c.get('requestContext')) });
+    const { runId } = await run.startAsync({
+      inputData: {
+        source: { type: 'base64', data, filename: file.name },
+      },
+      requestContext: c.get('requestContext'),
+    });
+
+    // The run continues in the background; poll the workflow run endpoints with runId for the result
+    return c.json({ runId, workflowId: 'pdfToQuestionsWorkflow' }, 202);
+  },
+});
@@ -0,0 +1,176 @@
+import { createScorer } from '@mastra/core/evals';
+import { z } from 'zod';
+import type { Question } from '../tools/generate-questions-from-text-tool';
+import { textSimilarity } from '../lib/similarity';
+import { resolveModel } from '../lib/model';
+
+const MAX_JUDGE_SOURCE_LENGTH = 24000;
+
+// Questions at least this similar to an earlier one are treated as duplicates
+export const NEAR_DUPLICATE_SIMILARITY = 0.6;
+
+export const questionQualityScoreSchema = z.object({
+  answerability: z.number().describe('0-1: how fully the source text supports the reference answer'),
+  clarity: z.number().describe('0-1: how unambiguous and well-formed the question is'),
+  distractorPlausibility: z
+    .number()
+    .nullable()
+    .describe('0-1: how plausible the wrong options are; null for questions without options'),
+  uniqueness: z.number().describe('0-1: 1 minus the highest similarity to an earlier question in the set'),
+  givesAwayAnswer: z.boolean().describe('Whether the stem or options reveal the correct answer'),
+  overall: z.number().describe('Weighted 0-1 quality score used for the regeneration threshold'),
+  reason: z.string().describe("The judge's explanation"),
+});
+
+export type QuestionQualityScore = z.infer<typeof questionQualityScoreSchema>;
+
+export interface QuestionQualityInput {
+  // Page-tagged source text the questions must be answerable from
+  sourceText: string;
+  // Questions already accepted, so new questions that repeat them count as duplicates
+  existingQuestions?: Question[];
+}
+
+export interface QuestionQualityOutput {
+  questions: Question[];
+}
+
+const judgementSchema = z.object({
+  questions: z.array(
+    z.object({
+      index: z.number().describe('0-based index of the question being judged'),
+      answerability: z.number().min(0).max(1),
+      clarity: z.number().min(0).max(1),
+      distractorPlausibility: z.number().min(0).max(1).nullable(),
+      givesAwayAnswer: z.boolean(),
+      reason: z.string(),
+    }),
+  ),
+});
+
+type Judgement = z.infer<typeof judgementSchema>['questions'][number];
+
+function questionText(question: Question): string {
+  return `${question.stem} ${question.correctAnswer}`;
+}
+
+function formatQuestionsForJudge(questions: Question[]): string {
+  return questions
+    .map((question, index) =>
+      [
+        `Question ${index} (${question.type}): ${question.stem}`,
+        ...question.options.map((option, optionIndex) => `  ${String.fromCharCode(65 + optionIndex)}. ${option}`),
+        `  Correct answer: ${question.correctAnswer}`,
+        `  Reference answer: ${question.referenceAnswer}`,
+      ].join('\n'),
+    )
+    .join('\n\n');
+}
+
+// Combine the judge's ratings and the duplicate check into one score per question
+export function combineQuestionScores(
+  questions: Question[],
+  similarities: number[],
+  judgements: Judgement[],
+): QuestionQualityScore[] {
+  return questions.map((question, index) => {
+    const judgement = judgements.find(entry => entry.index === index);
+    const uniqueness = 1 - (similarities[index] ?? 0);
+
+    // A question the judge skipped is treated as unverified rather than as good
+    const answerability = judgement?.answerability ?? 0;
+    const clarity = judgement?.clarity ?? 0;
+    const distractorPlausibility =
+      question.type === 'multiple_choice' ? (judgement?.distractorPlausibility ?? 0) : null;
+    const givesAwayAnswer = judgement?.givesAwayAnswer ?? false;
+
+    let overall =
+      distractorPlausibility === null
+        ? 0.5 * answerability + 0.25 * clarity + 0.25 * uniqueness
+        : 0.4 * answerability + 0.2 * clarity + 0.2 * distractorPlausibility + 0.2 * uniqueness;
+
+    // Hard failures cap the score regardless of the other criteria
+    if (answerability < 0.5) {
+      overall = Math.min(overall, answerability);
+    }
+    if (givesAwayAnswer) {
+      overall = Math.min(overall, 0.3);
+    }
+    if (similarities[index] >= NEAR_DUPLICATE_SIMILARITY) {
+      overall = 0;
+    }
+
+    const reasons: string[] = [];
+    if (!judgement) {
+      reasons.push('The judge did not rate this question.');
+    } else if (judgement.reason.trim() !== 'OK') {
+      reasons.push(judgement.reason.trim());
+    }
+    if (similarities[index] >= NEAR_DUPLICATE_SIMILARITY) {
+      reasons.push(`Near-duplicate of an earlier question (similarity ${similarities[index].toFixed(2)}).`);
+    }
+
+    return {
+      answerability,
+      clarity,
+      distractorPlausibility,
+      uniqueness: Math.round(uniqueness * 100) / 100,
+      givesAwayAnswer,
+      overall: Math.round(overall * 100) / 100,
+      reason: reasons.join(' ') || 'OK',
+    };
+  });
+}
+
+export const questionQualityScorer = createScorer<QuestionQualityInput, QuestionQualityOutput>({
+  id: 'question-quality-scorer',
+  name: 'Question quality',
+  description:
+    'Scores generated questions on answerability from the source, clarity, distractor plausibility and near-duplication',
+  judge: {
+    model: resolveModel('judge'),
+    instructions: `You are a strict assessment reviewer. You judge exam questions against the source material they were written from.
+Rate only what the source text supports; do not use outside knowledge to rescue a question.`,
+  },
+})
+  // Highest similarity of each question to any earlier or already accepted question
+  .preprocess(({ run }) => {
+    const previous = (run.input?.existingQuestions ?? []).map(questionText);
+    return {
+      similarities: run.output.questions.map(question => {
+        const text = questionText(question);
+        const maxSimilarity = Math.max(0, ...previous.map(other => textSimilarity(text, other)));
+        previous.push(text);
+        return maxSimilarity;
+      }),
+    };
+  })
+  .analyze({
+    description: 'LLM judge rating answerability, clarity, distractor plausibility and answer leakage',
+    outputSchema: judgementSchema,
+    createPrompt: ({ run }) => `Review each question below against the source text.
+
+For every question return:
+- answerability (0-1): 1 if the source text fully supports the correct and reference answers, 0 if it cannot be answered from the source
+- clarity (0-1): 1 if the question is unambiguous, grammatical and has exactly one defensible answer
+- distractorPlausibility (0-1): for multiple_choice only, how plausible the wrong options are to someone who has not read the source; null for other types
+- givesAwayAnswer: true if the stem or options reveal the correct answer (e.g. the answer is repeated in the stem, or it is the only option of its kind)
+- reason: one or two sentences explaining the main problems, or "OK"
+
+Source text:
+${run.input?.sourceText.substring(0, MAX_JUDGE_SOURCE_LENGTH) ?? ''}
+
+Questions:
+${formatQuestionsForJudge(run.output.questions)}`,
+  })
+  .generateScore(({ run, results }) => {
+    const scores = combineQuestionScores(
+      run.output.questions,
+      results.preprocessStepResult.similarities,
+      results.analyzeStepResult.questions,
+    );
+    return scores.length === 0 ? 0 : scores.reduce((sum, score) => sum + score.overall, 0) / scores.length;
+  })
+  .generateReason(
+    ({ run, score }) => `Average quality ${score.toFixed(2)} across ${run.output.questions.length} questions`,
+  );
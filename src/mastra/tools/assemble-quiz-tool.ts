@@ -0,0 +1,47 @@
+import { createTool } from '@mastra/core/tools';
+import { z } from 'zod';
+import { getEmbedder } from '../lib/embedder';
+import { assembleQuiz } from '../lib/question-bank';
+import { getTenantId } from '../lib/tenants';
+import { generationProfileSchema, questionMixSchema } from './generate-questions-from-text-tool';
+import { bankQuestionSchema, bankSearchFiltersSchema } from './search-question-bank-tool';
+
+export const assembleQuizTool = createTool({
+  id: 'assemble-quiz-tool',
+  description:
+    'Assembles a quiz from questions already in the question bank, optionally following a type and difficulty mix, without generating new questions',
+  inputSchema: bankSearchFiltersSchema.extend({
+    count: z.number().min(1).describe('Number of questions in the quiz'),
+    profile: generationProfileSchema
+      .pick({ questionTypes: true, difficulty: true })
+      .optional()
+      .describe('Type and difficulty mix of the quiz'),
+  }),
+  outputSchema: z.object({
+    questions: z.array(bankQuestionSchema).describe('The quiz questions'),
+    shortfall: z.number().describe('How many questions the bank could not supply; generate these if needed'),
+    missing: questionMixSchema.shape.requested.describe('Requested type and difficulty counts that were not filled'),
+  }),
+  execute: async (inputData, context) => {
+    const { count, profile, ...filters } = inputData;
+    console.log(`🧩 Assembling a ${count}-question quiz from the question bank`);
+
+    const quiz = await assembleQuiz(
+      getEmbedder(),
+      { ...filters, tenantId: getTenantId(context?.requestContext) },
+      count,
+      profile,
+    );
+
+    if (quiz.shortfall > 0) {
+      console.warn(`⚠️ The bank only had ${quiz.questions.length} matching question(s)`);
+    } else {
+      console.log('✅ Quiz assembled');
+    }
+    return {
+      questions: quiz.questions.map(({ score: _score, ...entry }) => entry),
+      shortfall: quiz.shortfall,
+      missing: quiz.missing,
+    };
+  },
+});
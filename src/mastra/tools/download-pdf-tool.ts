@@ -1,76 +1,262 @@
 import { createTool } from '@mastra/core/tools';
 import { z } from 'zod';
-import { extractTextFromPDF } from '../lib/util';
+import { describePdfSource, pdfSourceSchema } from '../lib/pdf-source';
+import { PdfDownloadError } from '../lib/download';
+import {
+  type ChunkedSummaryResult,
+  DEFAULT_MAX_CHUNK_TOKENS,
+  DEFAULT_SUMMARY_CONCURRENCY,
+  SUMMARY_PROMPT_VERSION,
+  summarizeInChunks,
+} from '../lib/summarize';
+import { getCachedStage, setCachedStage } from '../lib/cache';
+import { loadAndExtractPdf } from '../lib/extraction';
+import { getTenantId } from '../lib/tenants';
+import { describeModelConfiguration } from '../lib/model';
+import {
+  buildGuardrailReport,
+  guardPages,
+  guardText,
+  guardrailReportSchema,
+  piiRedactionEnabled,
+} from '../lib/guardrails';
+import { formatOutline, readPdfStructure, type PdfOutlineItem } from '../lib/metadata';
+import { splitIntoSections } from '../lib/sections';
+import type { LayoutDocument } from '../lib/layout';
+import { progressToWriter } from '../lib/progress';
+import { compressionSchema, measureCompression, modelUsageSchema } from '../lib/usage';
+
+export const pdfPageSchema = z.object({
+  pageNumber: z.number().describe('1-based page number'),
+  text: z.string().describe('Text extracted from this page'),
+  ocr: z.boolean().optional().describe('Whether the text came from OCR because the page had no text layer'),
+  ocrConfidence: z.number().nullable().optional().describe('0-1 OCR confidence; null for pages with native text'),
+});
+
+export const cacheModeSchema = z
+  .enum(['read-write', 'refresh', 'bypass'])
+  .describe('read-write: reuse and store cached results; refresh: recompute and overwrite; bypass: ignore the cache');
+
+const summaryLevelUsageSchema = z.object({
+  level: z.number().describe('Reduce level (0 = chunk summaries, 1+ = merged summaries)'),
+  calls: z.number().describe('Number of model calls made at this level'),
+  inputTokens: z.number().describe('Prompt tokens used at this level'),
+  outputTokens: z.number().describe('Completion tokens used at this level'),
+  totalTokens: z.number().describe('Total tokens used at this level'),
+});
+
+export const documentSectionSchema = z.object({
+  title: z.string().describe('Section title, from the bookmark or heading that starts it'),
+  startPage: z.number().describe('First page of the section'),
+  endPage: z.number().describe('Last page of the section'),
+  pages: z.array(pdfPageSchema).describe("The section's text, split by page"),
+  characterCount: z.number().describe('Number of characters in the section'),
+});
+
+export const sectionSourceSchema = z
+  .enum(['outline', 'headings', 'pages'])
+  .describe('What the sections were derived from: the PDF bookmarks, detected headings, or fixed page ranges');
+
+// The bookmarks help the summary and sections follow the document's structure; a PDF pdf.js cannot read still works
+export async function readOutline(pdfBuffer: Buffer): Promise<PdfOutlineItem[]> {
+  try {
+    return (await readPdfStructure(pdfBuffer)).outline;
+  } catch (error) {
+    console.warn('⚠️ Could not read the PDF outline:', error instanceof Error ? error.message : error);
+    return [];
+  }
+}
+
+function buildSections(document: LayoutDocument, outline: PdfOutlineItem[], redactPii: boolean) {
+  const { source, sections } = splitIntoSections(document, outline);
+  console.log(`📑 Split the document into ${sections.length} section(s) using its ${source}`);
+  return {
+    sections: sections.map(section => ({ ...section, pages: guardPages(section.pages, { redactPii }).pages })),
+    sectionSource: source,
+  };
+}
 
 export const pdfFetcherTool = createTool({
   id: 'download-pdf-tool',
-  description: 'Downloads a PDF from a URL, extracts text, and returns a comprehensive summary',
+  description:
+    'Loads a PDF from a URL, a local file path or base64 data, extracts text, and returns a comprehensive summary',
   inputSchema: z.object({
-    pdfUrl: z.string().describe('URL to the PDF file to download'),
+    source: pdfSourceSchema.describe('Where to load the PDF from: a URL, a local file path, or base64 data'),
+    maxChunkTokens: z
+      .number()
+      .int()
+      .positive()
+      .optional()
+      .describe(`Token budget per summarization chunk (default: ${DEFAULT_MAX_CHUNK_TOKENS})`),
+    concurrency: z
+      .number()
+      .int()
+      .positive()
+      .optional()
+      .describe(`Maximum number of chunks summarized in parallel (default: ${DEFAULT_SUMMARY_CONCURRENCY})`),
+    includePages: z
+      .boolean()
+      .optional()
+      .describe('Also return the per-page extracted text, e.g. for citing sources (default: false)'),
+    cacheMode: cacheModeSchema.optional().describe('How to use the extraction/summary cache (default: read-write)'),
+    includeSections: z
+      .boolean()
+      .optional()
+      .describe('Also split the document into sections by its outline or headings (default: false)'),
   }),
   outputSchema: z.object({
     summary: z.string().describe('AI-generated summary of the PDF content'),
-    fileSize: z.number().describe('Size of the downloaded file in bytes'),
+    fileSize: z.number().describe('Size of the PDF file in bytes'),
     pagesCount: z.number().describe('Number of pages in the PDF'),
     characterCount: z.number().describe('Number of characters extracted from the PDF'),
+    chunkCount: z.number().describe('Number of chunks the extracted text was split into'),
+    summaryUsage: z.array(summaryLevelUsageSchema).describe('Token usage for each summarization level'),
+    usage: z.array(modelUsageSchema).describe('Tokens used per model; empty when the summary came from the cache'),
+    compression: compressionSchema
+      .nullable()
+      .describe('Size of the summary compared with the full extracted text; null when there is no summary'),
+    ocrPages: z
+      .array(z.object({ pageNumber: z.number(), confidence: z.number() }))
+      .describe('Pages without a text layer whose text was recognized with OCR, with the OCR confidence (0-1)'),
+    pages: z.array(pdfPageSchema).optional().describe('Per-page extracted text (only when includePages is set)'),
+    sections: z
+      .array(documentSectionSchema)
+      .optional()
+      .describe('Document sections in reading order (only when includeSections is set)'),
+    sectionSource: sectionSourceSchema.optional(),
+    cache: z
+      .object({
+        contentHash: z.string().describe('SHA-256 of the PDF bytes'),
+        extractionHit: z.boolean().describe('Whether the text extraction came from the cache'),
+        summaryHit: z.boolean().describe('Whether the summary came from the cache'),
+      })
+      .describe('Cache status for each stage'),
+    guardrails: guardrailReportSchema.describe(
+      'Instruction-like text and PII found in the document; returned pages and sections carry the guarded text',
+    ),
   }),
   execute: async (inputData, context) => {
-    const { pdfUrl } = inputData;
+    const {
+      source,
+      maxChunkTokens,
+      concurrency,
+      includePages = false,
+      includeSections = false,
+      cacheMode = 'read-write',
+    } = inputData;
+    const readCache = cacheMode === 'read-write';
+    const writeCache = cacheMode !== 'bypass';
+    const sourceLabel = describePdfSource(source);
+    const onProgress = progressToWriter(context?.writer);
+    const tenantId = getTenantId(context?.requestContext);
 
-    console.log('📥 Downloading PDF from URL:', pdfUrl);
+    console.log('📥 Loading PDF from:', sourceLabel);
 
     try {
-      // Step 1: Download the PDF
-      const response = await fetch(pdfUrl);
-
-      if (!response.ok) {
-        throw new Error(`Failed to download PDF: ${response.status} ${response.statusText}`);
-      }
-
-      const arrayBuffer = await response.arrayBuffer();
-      const pdfBuffer = Buffer.from(arrayBuffer);
-
-      console.log(`✅ Downloaded PDF: ${pdfBuffer.length} bytes`);
+      // Steps 1-2: Load the PDF and extract its text (or reuse a cached extraction of the same bytes)
+      const {
+        pdfBuffer,
+        fileSize,
+        contentHash,
+        extraction: extractionResult,
+        extractionHit,
+      } = await loadAndExtractPdf(source, cacheMode, onProgress, tenantId);
 
-      // Step 2: Extract text from PDF
-      console.log('📄 Extracting text from PDF...');
-      const extractionResult = await extractTextFromPDF(pdfBuffer);
+      // Read at most once, and only when the summary or the sections need it
+      let outline: Promise<PdfOutlineItem[]> | null = null;
+      const getOutline = () => (outline ??= readOutline(pdfBuffer));
 
-      if (!extractionResult.extractedText || extractionResult.extractedText.trim() === '') {
-        throw new Error('No text could be extracted from the PDF');
+      // The document is untrusted: neutralize injected instructions, and redact PII when asked, before any model
+      // sees the text. Returned pages get the same treatment so quotes and citations match what the model read.
+      const redactPii = piiRedactionEnabled(context?.requestContext);
+      const guarded = guardPages(extractionResult.pages, { redactPii });
+      const guardrails = buildGuardrailReport(guarded.findings, redactPii);
+      if (guardrails.promptInjections > 0) {
+        console.warn(`🛡️ Neutralized ${guardrails.promptInjections} instruction-like passage(s) in the document`);
       }
 
-      console.log(
-        `✅ Extracted ${extractionResult.extractedText.length} characters from ${extractionResult.pagesCount} pages`,
-      );
-
-      // Step 3: Generate summary using the AI agent
-      console.log('🧠 Generating AI summary...');
+      // Step 3: Generate summary using the AI agent (cached per model, prompt version, chunk budget and redaction)
       const pdfSummarizationAgent = context?.mastra?.getAgent('pdfSummarizationAgent');
       if (!pdfSummarizationAgent) {
         throw new Error('PDF summarization agent not found');
       }
-      const summaryResult = await pdfSummarizationAgent.generate([
-        {
-          role: 'user',
-          content: `Please provide a comprehensive summary of this PDF content:\n\n${extractionResult.extractedText}`,
-        },
-      ]);
 
-      const summary = summaryResult.text || 'Summary could not be generated';
+      const model = await pdfSummarizationAgent.getModel();
+      const modelName = `${model.provider}/${model.modelId}`;
+      const summaryVariant = `${describeModelConfiguration(model)}:${SUMMARY_PROMPT_VERSION}:${maxChunkTokens ?? DEFAULT_MAX_CHUNK_TOKENS}${redactPii ? ':redacted' : ''}`;
+
+      let summaryResult = readCache
+        ? await getCachedStage<ChunkedSummaryResult>(contentHash, 'summary', summaryVariant, tenantId)
+        : null;
+      const summaryHit = summaryResult !== null;
 
-      console.log(`✅ Generated summary: ${summary.length} characters`);
+      if (summaryResult) {
+        console.log('♻️ Using cached summary');
+        // No tokens were spent on this run
+        summaryResult = { ...summaryResult, levels: [], usage: [] };
+        onProgress?.({
+          type: 'chunk-summarized',
+          level: 0,
+          chunksSummarized: summaryResult.chunkCount,
+          totalChunks: summaryResult.chunkCount,
+        });
+      } else {
+        console.log('🧠 Generating AI summary...');
+        const { text: documentText } = guardText(extractionResult.extractedText, { redactPii });
+        summaryResult = await summarizeInChunks(pdfSummarizationAgent, documentText, {
+          maxChunkTokens,
+          concurrency,
+          outline: formatOutline(await getOutline()),
+          onProgress,
+          abortSignal: context?.abortSignal,
+          requestContext: context?.requestContext,
+          modelName,
+        });
+        if (writeCache && summaryResult.summary) {
+          await setCachedStage(contentHash, 'summary', summaryVariant, summaryResult, tenantId);
+        }
+      }
+
+      // The summary is model output built from the document, and can repeat what the guard missed in the chunks
+      const summary = summaryResult.summary
+        ? guardText(summaryResult.summary, { redactPii }).text
+        : 'Summary could not be generated';
+
+      console.log(`✅ Generated summary: ${summary.length} characters from ${summaryResult.chunkCount} chunk(s)`);
+
+      const { usage } = summaryResult;
+      const compression = measureCompression(extractionResult.extractedText, summaryResult.summary);
+      context?.tracingContext?.currentSpan?.update({ metadata: { usage, compression } });
 
       return {
         summary,
-        fileSize: pdfBuffer.length,
+        fileSize,
         pagesCount: extractionResult.pagesCount,
         characterCount: extractionResult.extractedText.length,
+        chunkCount: summaryResult.chunkCount,
+        summaryUsage: summaryResult.levels,
+        usage,
+        compression,
+        ocrPages: extractionResult.pages
+          .filter(page => page.ocr)
+          .map(page => ({ pageNumber: page.pageNumber, confidence: page.ocrConfidence ?? 0 })),
+        ...(includePages ? { pages: guarded.pages } : {}),
+        ...(includeSections ? await buildSections(extractionResult.document, await getOutline(), redactPii) : {}),
+        cache: { contentHash, extractionHit, summaryHit },
+        guardrails,
       };
     } catch (error) {
       const errorMessage = error instanceof Error ? error.message : 'Unknown error';
       console.error('❌ PDF processing failed:', errorMessage);
-      throw new Error(`Failed to process PDF from URL: ${errorMessage}`);
+
+      // Keep the error code so callers can tell download failures apart
+      if (error instanceof PdfDownloadError) {
+        throw new PdfDownloadError(error.code, `Failed to process PDF from ${sourceLabel}: ${errorMessage}`, {
+          status: error.status,
+          retryable: error.retryable,
+        });
+      }
+      throw new Error(`Failed to process PDF from ${sourceLabel}: ${errorMessage}`);
     }
   },
 });
@@ -0,0 +1,31 @@
+import { createTool } from '@mastra/core/tools';
+import { z } from 'zod';
+import { questionSchema } from './generate-questions-from-text-tool';
+import { exportedFileSchema, exportFormatSchema, exportQuestions } from '../lib/exporters';
+
+export const exportQuestionsTool = createTool({
+  id: 'export-questions-tool',
+  description:
+    'Exports generated questions to an LMS or flashcard format: IMS QTI 2.1, Moodle GIFT, CSV, or Anki tab-separated notes',
+  inputSchema: z.object({
+    questions: z.array(questionSchema).describe('The questions to export, as returned by the question generator'),
+    format: exportFormatSchema,
+    title: z.string().optional().describe('Quiz title, used as the QTI title, GIFT category and Anki deck name'),
+  }),
+  outputSchema: z.object({
+    format: exportFormatSchema,
+    files: z.array(exportedFileSchema).describe('The exported files'),
+    questionCount: z.number().describe('Number of questions exported'),
+  }),
+  execute: async inputData => {
+    const { questions, format, title } = inputData;
+
+    console.log(`📦 Exporting ${questions.length} questions as ${format}...`);
+
+    const files = exportQuestions(questions, format, { title });
+
+    console.log(`✅ Exported ${files.length} file(s): ${files.map(file => file.filename).join(', ')}`);
+
+    return { format, files, questionCount: questions.length };
+  },
+});
@@ -1,22 +1,189 @@
+import type { Agent } from '@mastra/core/agent';
+import type { RequestContext } from '@mastra/core/di';
 import { createTool } from '@mastra/core/tools';
 import { z } from 'zod';
+import {
+  checkQuestionMix,
+  fitQuestionsToMix,
+  formatProfileInstructions,
+  profileForMix,
+  resolveQuestionMix,
+  type QuestionMix,
+} from '../lib/generation-profile';
+import { progressToWriter, type ProgressListener } from '../lib/progress';
+import type { PdfPageText } from '../lib/util';
+import { addModelUsage, agentModelName, answeringModelName, modelUsageSchema, type ModelUsage } from '../lib/usage';
+import { pdfPageSchema } from './download-pdf-tool';
 
 const MAX_TEXT_LENGTH = 4000;
+const MAX_SOURCE_LENGTH = 24000;
+// Shorter quotes ("the cell", "ATP") occur almost anywhere, so finding one proves nothing about the answer
+const MIN_QUOTE_WORDS = 4;
+// Every question is generated, checked and possibly judged by a model, so one request may not ask for more
+export const MAX_QUESTIONS = 50;
+
+export const questionTypeSchema = z
+  .enum(['multiple_choice', 'short_answer', 'essay', 'application'])
+  .describe('Kind of question');
+
+export const bloomLevelSchema = z
+  .enum(['remember', 'understand', 'apply', 'analyze', 'evaluate', 'create'])
+  .describe("Bloom's taxonomy level the question targets");
+
+export const difficultySchema = z.enum(['easy', 'medium', 'hard']).describe('Relative difficulty of the question');
+
+export const citationSchema = z.object({
+  page: z.number().describe('1-based page number of the PDF that supports the answer'),
+  quote: z.string().describe('Verbatim passage from that page that supports the answer'),
+  verified: z.boolean().describe('Whether the quoted passage was found on the cited page of the source text'),
+});
+
+export type Citation = z.infer<typeof citationSchema>;
+
+export const questionSchema = z.object({
+  type: questionTypeSchema,
+  stem: z.string().describe('The question text itself, without numbering or answer options'),
+  options: z
+    .array(z.string())
+    .describe('Answer options for multiple_choice questions (3-4 entries); empty for other types'),
+  correctAnswer: z.string().describe('The correct option text for multiple_choice, or a model answer for other types'),
+  referenceAnswer: z
+    .string()
+    .describe('A complete answer, grounded in the source, that explains why the correct answer is right'),
+  citations: z.array(citationSchema).describe('Source passages that support the reference answer'),
+  bloomLevel: bloomLevelSchema,
+  difficulty: difficultySchema,
+  section: z.string().optional().describe('Document section the question was generated from, in section mode'),
+});
+
+export type Question = z.infer<typeof questionSchema>;
+
+const difficultyCountsSchema = z
+  .object({ easy: z.number().min(0), medium: z.number().min(0), hard: z.number().min(0) })
+  .partial();
+
+const questionTypeCountsSchema = z
+  .object({
+    multiple_choice: z.number().min(0),
+    short_answer: z.number().min(0),
+    essay: z.number().min(0),
+    application: z.number().min(0),
+  })
+  .partial();
+
+export const generationProfileSchema = z.object({
+  audience: z
+    .string()
+    .optional()
+    .describe('Target audience or grade level, e.g. "8th grade" or "first-year nursing students"'),
+  difficulty: difficultyCountsSchema
+    .optional()
+    .describe('Relative share of each difficulty, e.g. { easy: 3, medium: 5, hard: 2 }; omitted levels get none'),
+  questionTypes: questionTypeCountsSchema
+    .optional()
+    .describe(
+      'Allowed question types and how many of each, e.g. { multiple_choice: 6, short_answer: 4 }; scaled to the question count, omitted types are not allowed',
+    ),
+  language: z
+    .string()
+    .optional()
+    .describe('Language to write the questions and answers in (default: the source language)'),
+  style: z.string().optional().describe('Custom style instructions, e.g. "use real-world scenarios"'),
+});
+
+export type GenerationProfile = z.infer<typeof generationProfileSchema>;
+
+// The model only proposes citations; verification happens against the extracted pages afterwards
+const generatedQuestionsSchema = z.object({
+  questions: z.array(
+    questionSchema.omit({ section: true }).extend({
+      citations: z.array(citationSchema.omit({ verified: true })),
+    }),
+  ),
+});
+
+type GeneratedQuestion = z.infer<typeof generatedQuestionsSchema>['questions'][number];
+
+export const questionMixSchema = z.object({
+  matches: z.boolean().describe('Whether the returned questions match the requested type and difficulty counts'),
+  requested: z.object({
+    types: questionTypeCountsSchema.nullable(),
+    difficulty: difficultyCountsSchema.nullable(),
+  }),
+  actual: z.object({
+    types: questionTypeCountsSchema,
+    difficulty: difficultyCountsSchema,
+  }),
+  issues: z.array(z.string()).describe('Differences between the requested and the returned mix'),
+});
+
+interface QuestionRequest {
+  extractedText: string;
+  pages: PdfPageText[];
+  count: number;
+  avoidQuestions: string[];
+  feedback: string[];
+  section?: string;
+  profile?: GenerationProfile;
+  mix: QuestionMix;
+  abortSignal?: AbortSignal;
+  requestContext?: RequestContext;
+  // Every model call adds its tokens here, under the agent's model
+  model: string;
+  usage: ModelUsage[];
+}
 
 export const generateQuestionsFromTextTool = createTool({
   id: 'generate-questions-from-text-tool',
   description: 'Generates comprehensive questions from text content',
   inputSchema: z.object({
     extractedText: z.string().describe('The extracted text to generate questions from'),
-    maxQuestions: z.number().optional().describe('Maximum number of questions to generate (default: 10)'),
+    maxQuestions: z
+      .number()
+      .int()
+      .positive()
+      .max(MAX_QUESTIONS)
+      .optional()
+      .describe(`Maximum number of questions to generate (default: 10, at most ${MAX_QUESTIONS})`),
+    pages: z
+      .array(pdfPageSchema)
+      .optional()
+      .describe('Per-page source text used to ground reference answers and page citations'),
+    avoidQuestions: z
+      .array(z.string())
+      .optional()
+      .describe('Stems of questions that already exist; new questions must not repeat them'),
+    feedback: z
+      .array(z.string())
+      .optional()
+      .describe('Reviewer feedback on rejected questions, to avoid repeating their problems'),
+    section: z
+      .string()
+      .optional()
+      .describe('Title of the document section the text comes from; questions are tagged with it'),
+    profile: generationProfileSchema
+      .optional()
+      .describe(
+        'Audience, difficulty mix, question types, language and style; with a profile exactly maxQuestions are requested',
+      ),
   }),
   outputSchema: z.object({
-    questions: z.array(z.string()).describe('Array of generated questions'),
+    questions: z.array(questionSchema).describe('Array of generated questions'),
     questionCount: z.number().describe('Number of questions generated'),
     success: z.boolean().describe('Whether question generation was successful'),
+    mix: questionMixSchema.optional().describe('How the returned questions compare to the profile, when one was given'),
+    usage: z.array(modelUsageSchema).describe('Tokens used per model'),
   }),
   execute: async (inputData, context) => {
-    const { extractedText, maxQuestions = 10 } = inputData;
+    const {
+      extractedText,
+      maxQuestions = 10,
+      pages = [],
+      avoidQuestions = [],
+      feedback = [],
+      section,
+      profile,
+    } = inputData;
 
     console.log('❓ Generating questions from extracted text...');
 
@@ -26,6 +193,7 @@ export const generateQuestionsFromTextTool = createTool({
         questions: [],
         questionCount: 0,
         success: false,
+        usage: [],
       };
     }
 
@@ -35,48 +203,61 @@ export const generateQuestionsFromTextTool = createTool({
       console.warn(`⚠️ Using first ${MAX_TEXT_LENGTH} characters only...`);
     }
 
+    const usage: ModelUsage[] = [];
     try {
       const agent = context?.mastra?.getAgent('textQuestionAgent');
       if (!agent) {
         throw new Error('Question generator agent not found');
       }
 
-      const streamResponse = await agent.stream([
-        {
-          role: 'user',
-          content: `Generate comprehensive questions based on the following content extracted from a PDF.
-Please create questions that test understanding, analysis, and application of the content.
-Generate up to ${maxQuestions} questions:
-
-${extractedText.substring(0, MAX_TEXT_LENGTH)}`,
-        },
-      ]);
-
-      let generatedContent = '';
+      const onProgress = progressToWriter(context?.writer);
+      const request = {
+        extractedText,
+        pages,
+        count: maxQuestions,
+        avoidQuestions,
+        feedback,
+        section,
+        profile,
+        abortSignal: context?.abortSignal,
+        requestContext: context?.requestContext,
+        model: await agentModelName(agent),
+        usage,
+      };
+      const withUsage = <T extends object>(result: T) => {
+        context?.tracingContext?.currentSpan?.update({ metadata: { usage } });
+        return { ...result, usage };
+      };
+      if (!profile) {
+        const questions = await requestQuestions(agent, {
+          ...request,
+          mix: resolveQuestionMix(undefined, maxQuestions),
+        });
+        return withUsage(buildResult(questions.slice(0, maxQuestions), onProgress));
+      }
 
-      for await (const chunk of streamResponse.textStream) {
-        generatedContent += chunk || '';
+      // Keep only what fits the requested mix, then ask once more for whatever is still missing
+      const mix = resolveQuestionMix(profile, maxQuestions);
+      let fitted = fitQuestionsToMix(await requestQuestions(agent, { ...request, mix }), mix, maxQuestions);
+      const shortfall = maxQuestions - fitted.questions.length;
+      if (shortfall > 0) {
+        console.log(`🔁 ${shortfall} question(s) missing from the requested mix, generating replacements...`);
+        const topUpProfile = profileForMix(profile, fitted.missing);
+        const topUp = await requestQuestions(agent, {
+          ...request,
+          count: shortfall,
+          avoidQuestions: [...avoidQuestions, ...fitted.questions.map(question => question.stem)],
+          profile: topUpProfile,
+          mix: resolveQuestionMix(topUpProfile, shortfall),
+        });
+        fitted = fitQuestionsToMix([...fitted.questions, ...topUp], mix, maxQuestions);
       }
 
-      if (generatedContent.trim().length > 20) {
-        // Parse the questions from the generated content
-        const questions = parseQuestionsFromText(generatedContent, maxQuestions);
-
-        console.log(`✅ Question generation successful: ${questions.length} questions generated`);
-
-        return {
-          questions,
-          questionCount: questions.length,
-          success: true,
-        };
-      } else {
-        console.warn('⚠️ Generated content too short for question parsing');
-        return {
-          questions: [],
-          questionCount: 0,
-          success: false,
-        };
+      const mixCheck = checkQuestionMix(fitted.questions, mix);
+      if (!mixCheck.matches) {
+        console.warn(`⚠️ Generated questions do not match the requested mix: ${mixCheck.issues.join('; ')}`);
       }
+      return withUsage({ ...buildResult(fitted.questions, onProgress), mix: mixCheck });
     } catch (error) {
       const errorMessage = error instanceof Error ? error.message : 'Unknown error';
       console.error('❌ Question generation failed:', errorMessage);
@@ -90,31 +271,175 @@ ${extractedText.substring(0, MAX_TEXT_LENGTH)}`,
         questions: [],
         questionCount: 0,
         success: false,
+        usage,
       };
     }
   },
 });
 
-// Helper function to parse questions from generated text
-function parseQuestionsFromText(text: string, maxQuestions: number): string[] {
-  // Split by common question patterns and clean up
-  const lines = text
-    .split('\n')
-    .map(line => line.trim())
-    .filter(line => line.length > 0)
-    .filter(line => line.includes('?') || line.match(/^\d+[\.\)]/)); // Question marks or numbered items
-
-  // Extract actual questions
-  const questions = lines
-    .map(line => {
-      // Remove numbering patterns like "1.", "1)", etc.
-      let cleaned = line.replace(/^\d+[\.\)]\s*/, '');
-      // Remove bullet points
-      cleaned = cleaned.replace(/^[\-\*\•]\s*/, '');
-      return cleaned.trim();
+async function requestQuestions(agent: Agent, request: QuestionRequest): Promise<Question[]> {
+  const {
+    extractedText,
+    pages,
+    count,
+    avoidQuestions,
+    feedback,
+    section,
+    profile,
+    mix,
+    abortSignal,
+    requestContext,
+    model,
+    usage,
+  } = request;
+
+  const response = await agent.generate(
+    [
+      {
+        role: 'user',
+        content: `Generate comprehensive questions based on the following content extracted from a PDF.
+Please create questions that test understanding, analysis, and application of the content.
+Generate ${profile ? 'exactly' : 'up to'} ${count} questions.${section ? `\nThe content is the section "${section}" of the document; only ask about this section.` : ''}
+For every question, provide a reference answer and cite the page number(s) and a verbatim quoted passage from the source pages that support it.
+${profile ? formatProfileInstructions(profile, mix) : ''}${formatRegenerationContext(avoidQuestions, feedback)}
+${extractedText.substring(0, MAX_TEXT_LENGTH)}${formatSourcePages(pages)}`,
+      },
+    ],
+    {
+      structuredOutput: {
+        schema: generatedQuestionsSchema,
+      },
+      abortSignal,
+      requestContext,
+    },
+  );
+  addModelUsage(usage, answeringModelName(model, response.response), response.totalUsage);
+
+  return verifyCitations(normalizeQuestions(response.object?.questions ?? []), pages).map(question =>
+    section ? { ...question, section } : question,
+  );
+}
+
+function buildResult(questions: Question[], onProgress?: ProgressListener) {
+  if (questions.length > 0) {
+    console.log(`✅ Question generation successful: ${questions.length} questions generated`);
+    questions.forEach(question => onProgress?.({ type: 'question-generated', question }));
+
+    return {
+      questions,
+      questionCount: questions.length,
+      success: true,
+    };
+  }
+
+  console.warn('⚠️ Model returned no usable questions');
+  return {
+    questions: [],
+    questionCount: 0,
+    success: false,
+  };
+}
+
+// The option an answer names by its text (ignoring case and spacing) or its letter ("B", "B)"), or null
+function matchOption(answer: string, options: string[]): string | null {
+  const normalized = normalizeForMatch(answer);
+  const byText = options.find(option => normalizeForMatch(option) === normalized);
+  if (byText) {
+    return byText;
+  }
+  const letter = answer.match(/^\(?([a-z])[\.\):]?$/i)?.[1];
+  return letter ? (options[letter.toLowerCase().charCodeAt(0) - 97] ?? null) : null;
+}
+
+// Helper function to clean up structured questions returned by the model
+function normalizeQuestions(questions: GeneratedQuestion[]): GeneratedQuestion[] {
+  return questions
+    .map(question => {
+      const options = question.type === 'multiple_choice' ? question.options.map(option => option.trim()) : [];
+      const correctAnswer = question.correctAnswer.trim();
+      return {
+        ...question,
+        // Strip numbering like "1." or "1)" the model sometimes keeps in the stem
+        stem: question.stem.replace(/^\d+[\.\)]\s*/, '').trim(),
+        options,
+        // Empty for a multiple-choice answer that is none of the options, which removes the question below
+        correctAnswer:
+          question.type === 'multiple_choice' ? (matchOption(correctAnswer, options) ?? '') : correctAnswer,
+        referenceAnswer: question.referenceAnswer.trim(),
+        citations: question.citations.filter(citation => citation.quote.trim().length > 0),
+      };
     })
-    .filter(q => q.length > 5) // Filter out very short strings
-    .slice(0, maxQuestions); // Limit to specified max questions
+    .filter(question => question.stem.length > 5)
+    .filter(
+      question =>
+        question.type !== 'multiple_choice' || (question.options.length >= 2 && question.correctAnswer !== ''),
+    );
+}
+
+// When replacing rejected questions, steer the model away from existing stems and the problems reviewers found
+function formatRegenerationContext(avoidQuestions: string[], feedback: string[]): string {
+  const sections: string[] = [];
+  if (avoidQuestions.length > 0) {
+    sections.push(
+      `Do not repeat or paraphrase any of these existing questions:\n${avoidQuestions.map(stem => `- ${stem}`).join('\n')}`,
+    );
+  }
+  if (feedback.length > 0) {
+    sections.push(
+      `Previous questions were rejected for these reasons; avoid the same problems:\n${feedback.map(reason => `- ${reason}`).join('\n')}`,
+    );
+  }
+  return sections.length > 0 ? `\n${sections.join('\n\n')}\n` : '';
+}
+
+// Render page-tagged source text, giving every page an equal share of the budget so late pages stay citable
+function formatSourcePages(pages: PdfPageText[]): string {
+  const nonEmptyPages = pages.filter(page => page.text.trim().length > 0);
+  if (nonEmptyPages.length === 0) {
+    return '';
+  }
+
+  const perPageLength = Math.floor(MAX_SOURCE_LENGTH / nonEmptyPages.length);
+  const rendered = nonEmptyPages
+    .map(page => `[Page ${page.pageNumber}]\n${page.text.substring(0, perPageLength)}`)
+    .join('\n\n');
+
+  return `\n\nSource pages (cite these page numbers):\n\n${rendered}`;
+}
+
+function normalizeForMatch(text: string): string {
+  return text
+    .toLowerCase()
+    .replace(/[\u2018\u2019]/g, "'")
+    .replace(/[\u201c\u201d]/g, '"')
+    .replace(/\s+/g, ' ')
+    .trim();
+}
+
+// Check each quoted passage against the extracted pages, correcting the page number when the quote is found elsewhere.
+// Quotes under MIN_QUOTE_WORDS words are never verified.
+function verifyCitations(questions: GeneratedQuestion[], pages: PdfPageText[]): Question[] {
+  const normalizedPages = pages.map(page => ({ pageNumber: page.pageNumber, text: normalizeForMatch(page.text) }));
+
+  return questions.map(question => ({
+    ...question,
+    citations: question.citations.map(citation => {
+      const quote = normalizeForMatch(citation.quote);
+      if (quote.split(' ').length < MIN_QUOTE_WORDS) {
+        return { ...citation, verified: false };
+      }
+      const citedPage = normalizedPages.find(page => page.pageNumber === citation.page);
+
+      if (citedPage?.text.includes(quote)) {
+        return { ...citation, verified: true };
+      }
+
+      const actualPage = normalizedPages.find(page => page.text.includes(quote));
+      if (actualPage) {
+        return { ...citation, page: actualPage.pageNumber, verified: true };
+      }
 
-  return questions;
+      return { ...citation, verified: false };
+    }),
+  }));
 }
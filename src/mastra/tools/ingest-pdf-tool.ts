@@ -0,0 +1,64 @@
+import { createTool } from '@mastra/core/tools';
+import { z } from 'zod';
+import { describePdfSource, pdfSourceSchema } from '../lib/pdf-source';
+import { loadAndExtractPdf } from '../lib/extraction';
+import { getTenantId } from '../lib/tenants';
+import { getEmbedder } from '../lib/embedder';
+import { ingestDocument } from '../lib/rag';
+import { cacheModeSchema } from './download-pdf-tool';
+
+export const ingestPdfTool = createTool({
+  id: 'ingest-pdf-tool',
+  description:
+    'Indexes a PDF for question answering in the current conversation: splits it into page- and section-scoped chunks and embeds them for retrieval',
+  inputSchema: z.object({
+    source: pdfSourceSchema.describe('Where to load the PDF from: a URL, a local file path, or base64 data'),
+    cacheMode: cacheModeSchema.optional().describe('How to use the extraction cache (default: read-write)'),
+  }),
+  outputSchema: z.object({
+    documentId: z.string().describe('Identifier of the ingested document (SHA-256 of the PDF bytes)'),
+    source: z.string().describe('Where the PDF was loaded from'),
+    pagesCount: z.number().describe('Number of pages in the PDF'),
+    chunkCount: z.number().describe('Number of chunks indexed for retrieval'),
+    embedder: z.string().describe('Embedder used for the chunks'),
+  }),
+  execute: async (inputData, context) => {
+    const { source, cacheMode = 'read-write' } = inputData;
+    const sourceLabel = describePdfSource(source);
+
+    // Documents are scoped to a memory thread, so one conversation never retrieves another's PDFs
+    const threadId = context?.agent?.threadId;
+    if (!threadId) {
+      throw new Error('Ingesting a PDF requires a memory thread; call the agent with a threadId');
+    }
+
+    console.log('📥 Ingesting PDF from:', sourceLabel);
+
+    const tenantId = getTenantId(context?.requestContext);
+    try {
+      const { contentHash, extraction } = await loadAndExtractPdf(source, cacheMode, undefined, tenantId);
+      const embedder = getEmbedder();
+      const record = await ingestDocument(embedder, {
+        threadId,
+        tenantId,
+        documentId: contentHash,
+        source: sourceLabel,
+        document: extraction.document,
+      });
+
+      console.log(`✅ Indexed ${record.chunkCount} chunks from ${record.pagesCount} pages`);
+
+      return {
+        documentId: record.documentId,
+        source: record.source,
+        pagesCount: record.pagesCount,
+        chunkCount: record.chunkCount,
+        embedder: embedder.id,
+      };
+    } catch (error) {
+      const errorMessage = error instanceof Error ? error.message : 'Unknown error';
+      console.error('❌ PDF ingestion failed:', errorMessage);
+      throw new Error(`Failed to ingest PDF from ${sourceLabel}: ${errorMessage}`);
+    }
+  },
+});
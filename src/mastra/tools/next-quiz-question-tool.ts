@@ -0,0 +1,68 @@
+import { createTool } from '@mastra/core/tools';
+import { z } from 'zod';
+import { guardText, piiRedactionEnabled } from '../lib/guardrails';
+import { pickNextQuestion, quizProgressSchema, summarizeQuizProgress } from '../lib/quiz';
+import { getQuizSession, saveQuizSession } from '../lib/quiz-store';
+import { getTenantId } from '../lib/tenants';
+import { difficultySchema, questionTypeSchema } from './generate-questions-from-text-tool';
+
+export const nextQuizQuestionTool = createTool({
+  id: 'next-quiz-question-tool',
+  description:
+    "Returns the next question of the conversation's quiz, without its answer, picked at a difficulty adapted to the student's answers so far",
+  inputSchema: z.object({}),
+  outputSchema: z.object({
+    finished: z.boolean().describe('True when every question has been answered'),
+    question: z
+      .object({
+        number: z.number().describe('1-based position of the question in the quiz'),
+        totalQuestions: z.number(),
+        type: questionTypeSchema,
+        stem: z.string(),
+        options: z.array(z.string()).describe('Answer options for multiple choice; empty otherwise'),
+        difficulty: difficultySchema,
+        topic: z.string(),
+      })
+      .optional()
+      .describe('The question to ask; absent when the quiz is finished'),
+    progress: quizProgressSchema,
+  }),
+  execute: async (_inputData, context) => {
+    const threadId = context?.agent?.threadId;
+    const tenantId = getTenantId(context?.requestContext);
+    const session = threadId ? await getQuizSession(threadId, tenantId) : null;
+    if (!session) {
+      throw new Error('No quiz in progress in this conversation; start one first');
+    }
+
+    // A question that was asked but not answered is asked again rather than skipped
+    const index = session.currentIndex ?? pickNextQuestion(session);
+    if (index === null) {
+      return { finished: true, progress: summarizeQuizProgress(session) };
+    }
+    if (session.currentIndex === null) {
+      await saveQuizSession({ ...session, currentIndex: index }, tenantId);
+    }
+
+    const { type, stem, options, difficulty, topic } = session.questions[index];
+    console.log(`❓ Asking quiz question ${session.answers.length + 1} (${difficulty})`);
+
+    // Quiz questions can come from the question bank, whose text is not guarded when it is stored
+    const redactPii = piiRedactionEnabled(context?.requestContext);
+    const guard = (text: string) => guardText(text, { redactPii }).text;
+
+    return {
+      finished: false,
+      question: {
+        number: session.answers.length + 1,
+        totalQuestions: session.questions.length,
+        type,
+        stem: guard(stem),
+        options: options.map(guard),
+        difficulty,
+        topic,
+      },
+      progress: summarizeQuizProgress(session),
+    };
+  },
+});
@@ -0,0 +1,137 @@
+import { createTool } from '@mastra/core/tools';
+import { z } from 'zod';
+import { describePdfSource, pdfSourceSchema } from '../lib/pdf-source';
+import { PdfDownloadError } from '../lib/download';
+import { loadAndExtractPdf } from '../lib/extraction';
+import { getTenantId } from '../lib/tenants';
+import { guardPdfStructure, piiRedactionEnabled } from '../lib/guardrails';
+import { computePageStats, countWords, detectLanguage, readPdfStructure, type PdfOutlineItem } from '../lib/metadata';
+import { cacheModeSchema } from './download-pdf-tool';
+
+const outlineItemSchema: z.ZodType<PdfOutlineItem> = z.lazy(() =>
+  z.object({
+    title: z.string().describe('Bookmark title'),
+    page: z.number().nullable().describe('1-based target page, or null when it cannot be resolved'),
+    url: z.string().nullable().describe('External link target, if the bookmark points outside the document'),
+    items: z.array(outlineItemSchema).describe('Nested bookmarks'),
+  }),
+);
+
+export const pdfMetadataTool = createTool({
+  id: 'pdf-metadata-tool',
+  description:
+    'Reads PDF metadata without summarizing: document info (title, author, dates), the bookmark outline, page sizes, hyperlinks, form fields, per-page character and word counts, and the detected language',
+  inputSchema: z.object({
+    source: pdfSourceSchema.describe('Where to load the PDF from: a URL, a local file path, or base64 data'),
+    cacheMode: cacheModeSchema.optional().describe('How to use the extraction cache (default: read-write)'),
+  }),
+  outputSchema: z.object({
+    info: z
+      .object({
+        title: z.string().nullable(),
+        author: z.string().nullable(),
+        subject: z.string().nullable(),
+        keywords: z.string().nullable(),
+        creator: z.string().nullable().describe('Application that created the original document'),
+        producer: z.string().nullable().describe('Application that produced the PDF'),
+        creationDate: z.string().nullable().describe('ISO 8601 creation date'),
+        modificationDate: z.string().nullable().describe('ISO 8601 modification date'),
+        pdfVersion: z.string().nullable(),
+      })
+      .describe('The document info dictionary'),
+    outline: z.array(outlineItemSchema).describe('Bookmark tree (table of contents); empty if the PDF has none'),
+    language: z.string().nullable().describe('Detected language of the whole document (ISO 639-3, e.g. "eng")'),
+    fileSize: z.number().describe('Size of the PDF file in bytes'),
+    pagesCount: z.number().describe('Number of pages in the PDF'),
+    characterCount: z.number().describe('Number of characters extracted from the PDF'),
+    wordCount: z.number().describe('Number of words extracted from the PDF'),
+    pages: z
+      .array(
+        z.object({
+          pageNumber: z.number(),
+          width: z.number().describe('Page width in points (1/72 inch)'),
+          height: z.number().describe('Page height in points (1/72 inch)'),
+          rotation: z.number().describe('Page rotation in degrees'),
+          characterCount: z.number(),
+          wordCount: z.number(),
+          language: z.string().nullable().describe('Detected language of the page, null when there is too little text'),
+        }),
+      )
+      .describe('Per-page dimensions and text statistics'),
+    links: z
+      .array(
+        z.object({
+          pageNumber: z.number().describe('Page the link is on'),
+          url: z.string().nullable().describe('External URL, or null for a link inside the document'),
+          targetPage: z.number().nullable().describe('Target page of an internal link'),
+        }),
+      )
+      .describe('Hyperlinks found on the pages'),
+    formFields: z
+      .array(
+        z.object({
+          pageNumber: z.number(),
+          name: z.string().describe('Fully qualified field name'),
+          type: z.string().describe('text, checkbox, radio, button, choice or signature'),
+          value: z.string().nullable().describe('Current value, if filled in'),
+          readOnly: z.boolean(),
+        }),
+      )
+      .describe('Interactive form fields'),
+  }),
+  execute: async (inputData, context) => {
+    const { source, cacheMode = 'read-write' } = inputData;
+    const sourceLabel = describePdfSource(source);
+
+    console.log('📥 Reading PDF metadata from:', sourceLabel);
+
+    try {
+      const { pdfBuffer, fileSize, extraction } = await loadAndExtractPdf(
+        source,
+        cacheMode,
+        undefined,
+        getTenantId(context?.requestContext),
+      );
+      // Tool results reach the model without passing its input processors, so the structure is guarded here
+      const structure = guardPdfStructure(await readPdfStructure(pdfBuffer), {
+        redactPii: piiRedactionEnabled(context?.requestContext),
+      });
+      const stats = new Map(computePageStats(extraction.pages).map(page => [page.pageNumber, page]));
+
+      const pages = structure.pages.map(page => ({
+        ...page,
+        characterCount: stats.get(page.pageNumber)?.characterCount ?? 0,
+        wordCount: stats.get(page.pageNumber)?.wordCount ?? 0,
+        language: stats.get(page.pageNumber)?.language ?? null,
+      }));
+
+      console.log(
+        `✅ Read metadata: ${pages.length} pages, ${structure.outline.length} top-level bookmarks, ${structure.links.length} links, ${structure.formFields.length} form fields`,
+      );
+
+      return {
+        info: structure.info,
+        outline: structure.outline,
+        language: detectLanguage(extraction.extractedText),
+        fileSize,
+        pagesCount: pages.length,
+        characterCount: extraction.extractedText.length,
+        wordCount: pages.reduce((sum, page) => sum + page.wordCount, 0),
+        pages,
+        links: structure.links,
+        formFields: structure.formFields,
+      };
+    } catch (error) {
+      const errorMessage = error instanceof Error ? error.message : 'Unknown error';
+      console.error('❌ Reading PDF metadata failed:', errorMessage);
+
+      if (error instanceof PdfDownloadError) {
+        throw new PdfDownloadError(error.code, `Failed to read metadata from ${sourceLabel}: ${errorMessage}`, {
+          status: error.status,
+          retryable: error.retryable,
+        });
+      }
+      throw new Error(`Failed to read metadata from ${sourceLabel}: ${errorMessage}`);
+    }
+  },
+});
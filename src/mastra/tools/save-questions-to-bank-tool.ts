@@ -0,0 +1,49 @@
+import { createTool } from '@mastra/core/tools';
+import { z } from 'zod';
+import { getEmbedder } from '../lib/embedder';
+import { addQuestionsToBank } from '../lib/question-bank';
+import { getTenantId } from '../lib/tenants';
+import { generationProfileSchema, questionSchema } from './generate-questions-from-text-tool';
+
+export const saveQuestionsToBankTool = createTool({
+  id: 'save-questions-to-bank-tool',
+  description:
+    'Stores generated questions in the persistent question bank, skipping near-duplicates of questions already there',
+  inputSchema: z.object({
+    documentHash: z
+      .string()
+      .describe(
+        'SHA-256 of the source PDF: `cache.contentHash` from the PDF fetcher or `documentId` from the ingester',
+      ),
+    source: z.string().optional().describe('Where the PDF was loaded from'),
+    questions: z.array(questionSchema).describe('Questions exactly as the question generator returned them'),
+    tags: z.array(z.string()).optional().describe('Topics or course labels to find the questions by later'),
+    profile: generationProfileSchema.optional().describe('Generation profile the questions were created with'),
+  }),
+  outputSchema: z.object({
+    added: z.array(z.object({ id: z.string(), stem: z.string() })).describe('Questions stored as new bank entries'),
+    duplicates: z
+      .array(
+        z.object({
+          stem: z.string(),
+          existingId: z.string().describe('Bank question it duplicates'),
+          similarity: z.number(),
+        }),
+      )
+      .describe('Questions that were not stored because the bank already has a near-identical one'),
+  }),
+  execute: async (inputData, context) => {
+    console.log(`🏦 Saving ${inputData.questions.length} question(s) to the question bank`);
+
+    const result = await addQuestionsToBank(getEmbedder(), {
+      ...inputData,
+      tenantId: getTenantId(context?.requestContext),
+    });
+
+    console.log(`✅ Added ${result.added.length}, skipped ${result.duplicates.length} duplicate(s)`);
+    return {
+      added: result.added.map(entry => ({ id: entry.id, stem: entry.question.stem })),
+      duplicates: result.duplicates,
+    };
+  },
+});
@@ -0,0 +1,71 @@
+import { createTool } from '@mastra/core/tools';
+import { z } from 'zod';
+import { getEmbedder } from '../lib/embedder';
+import { DEFAULT_RAG_TOP_K, listThreadDocuments, MAX_RAG_TOP_K, searchDocuments } from '../lib/rag';
+import { guardText, piiRedactionEnabled } from '../lib/guardrails';
+import { getTenantId } from '../lib/tenants';
+
+const passageSchema = z.object({
+  documentId: z.string().describe('Document the passage comes from'),
+  source: z.string().describe('Where the document was loaded from'),
+  page: z.number().describe('1-based page number to cite'),
+  section: z.string().describe('Heading path of the section the passage sits under (may be empty)'),
+  text: z.string().describe('Passage text'),
+  score: z.number().describe('Similarity to the query, higher is more relevant'),
+});
+
+export const searchPdfTool = createTool({
+  id: 'search-pdf-tool',
+  description:
+    'Searches the PDFs ingested in the current conversation and returns the most relevant passages with their page numbers',
+  inputSchema: z.object({
+    query: z.string().describe('What to look for, phrased as a question or keywords'),
+    topK: z
+      .number()
+      .int()
+      .positive()
+      .max(MAX_RAG_TOP_K)
+      .optional()
+      .describe(`Number of passages to return (default: ${DEFAULT_RAG_TOP_K}, at most ${MAX_RAG_TOP_K})`),
+    documentId: z.string().optional().describe('Only search this ingested document'),
+  }),
+  outputSchema: z.object({
+    passages: z.array(passageSchema).describe('Matching passages, most relevant first'),
+    documents: z
+      .array(z.object({ documentId: z.string(), source: z.string(), pagesCount: z.number() }))
+      .describe('Documents ingested in this conversation'),
+  }),
+  execute: async (inputData, context) => {
+    const { query, topK, documentId } = inputData;
+
+    const threadId = context?.agent?.threadId;
+    if (!threadId) {
+      throw new Error('Searching PDFs requires a memory thread; call the agent with a threadId');
+    }
+
+    const tenantId = getTenantId(context?.requestContext);
+    const documents = await listThreadDocuments(threadId, tenantId);
+    if (documents.length === 0) {
+      console.log('ℹ️ No PDFs ingested in this thread yet');
+      return { passages: [], documents: [] };
+    }
+
+    console.log(`🔎 Searching ${documents.length} document(s) for: ${query}`);
+
+    const passages = await searchDocuments(getEmbedder(), { threadId, tenantId, query, topK, documentId });
+
+    console.log(`✅ Found ${passages.length} passage(s)`);
+
+    // Tool results reach the model without passing its input processors, so passages are guarded here
+    const redactPii = piiRedactionEnabled(context?.requestContext);
+
+    return {
+      passages: passages.map(passage => ({ ...passage, text: guardText(passage.text, { redactPii }).text })),
+      documents: documents.map(document => ({
+        documentId: document.documentId,
+        source: document.source,
+        pagesCount: document.pagesCount,
+      })),
+    };
+  },
+});
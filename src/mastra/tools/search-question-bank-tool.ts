@@ -0,0 +1,65 @@
+import { createTool } from '@mastra/core/tools';
+import { z } from 'zod';
+import { getEmbedder } from '../lib/embedder';
+import { guardQuestion, piiRedactionEnabled } from '../lib/guardrails';
+import { DEFAULT_BANK_SEARCH_LIMIT, searchQuestionBank } from '../lib/question-bank';
+import { getTenantId } from '../lib/tenants';
+import {
+  difficultySchema,
+  generationProfileSchema,
+  questionSchema,
+  questionTypeSchema,
+} from './generate-questions-from-text-tool';
+
+export const bankQuestionSchema = z.object({
+  id: z.string().describe('Question bank id'),
+  version: z.number().describe('Current version; starts at 1 and increases with every edit'),
+  documentHash: z.string().describe('SHA-256 of the PDF the question was generated from'),
+  source: z.string().nullable().describe('Where that PDF was loaded from'),
+  question: questionSchema,
+  tags: z.array(z.string()),
+  profile: generationProfileSchema.nullable().describe('Generation profile the question was created with'),
+  createdAt: z.number().describe('Unix epoch milliseconds'),
+  updatedAt: z.number().describe('Unix epoch milliseconds'),
+});
+
+export const bankSearchFiltersSchema = z.object({
+  topic: z.string().optional().describe('What the questions should be about; matched by meaning, not exact words'),
+  documentHash: z.string().optional().describe('Only questions generated from this PDF (its SHA-256)'),
+  tags: z.array(z.string()).optional().describe('Only questions carrying all of these tags'),
+  type: questionTypeSchema.optional(),
+  difficulty: difficultySchema.optional(),
+});
+
+export const searchQuestionBankTool = createTool({
+  id: 'search-question-bank-tool',
+  description:
+    'Finds previously generated questions in the question bank by topic, source document, tags, type or difficulty',
+  inputSchema: bankSearchFiltersSchema.extend({
+    limit: z
+      .number()
+      .optional()
+      .describe(`Maximum number of questions to return (default: ${DEFAULT_BANK_SEARCH_LIMIT})`),
+  }),
+  outputSchema: z.object({
+    questions: z
+      .array(bankQuestionSchema.extend({ score: z.number().nullable().describe('Similarity to the topic, if given') }))
+      .describe('Matching questions, most relevant (or, without a topic, most recently updated) first'),
+  }),
+  execute: async (inputData, context) => {
+    console.log('🔎 Searching the question bank:', JSON.stringify(inputData));
+
+    const questions = await searchQuestionBank(getEmbedder(), {
+      ...inputData,
+      tenantId: getTenantId(context?.requestContext),
+    });
+
+    console.log(`✅ Found ${questions.length} question(s)`);
+
+    // Bank questions can be edited or imported, and tool results skip the agent's input processors
+    const redactPii = piiRedactionEnabled(context?.requestContext);
+    return {
+      questions: questions.map(entry => ({ ...entry, question: guardQuestion(entry.question, { redactPii }) })),
+    };
+  },
+});
@@ -0,0 +1,87 @@
+import { createTool, type ToolExecutionContext } from '@mastra/core/tools';
+import { z } from 'zod';
+import { getBankQuestions } from '../lib/question-bank';
+import { getTenantId } from '../lib/tenants';
+import { quizProgressSchema, summarizeQuizProgress, topicOf, type QuizProgress, type QuizSession } from '../lib/quiz';
+import { saveQuizSession } from '../lib/quiz-store';
+import { difficultySchema, questionSchema } from './generate-questions-from-text-tool';
+
+// Mirror the quiz progress into the quiz agent's working memory. The session table stays the source of truth,
+// so a failure here only costs the agent its summary.
+export async function writeQuizProgress(
+  context: ToolExecutionContext | undefined,
+  progress: QuizProgress,
+): Promise<void> {
+  const threadId = context?.agent?.threadId;
+  try {
+    const memory = await context?.mastra?.getAgent('quizAgent').getMemory();
+    if (memory && threadId) {
+      await memory.updateWorkingMemory({
+        threadId,
+        resourceId: context?.agent?.resourceId,
+        workingMemory: JSON.stringify(progress),
+      });
+    }
+  } catch (error) {
+    console.warn('⚠️ Could not update quiz working memory:', error instanceof Error ? error.message : error);
+  }
+}
+
+export const startQuizTool = createTool({
+  id: 'start-quiz-tool',
+  description:
+    'Starts a quiz in the current conversation from generated questions or question bank ids, replacing any quiz in progress',
+  inputSchema: z.object({
+    questions: z.array(questionSchema).optional().describe('Questions exactly as the question generator returned them'),
+    bankQuestionIds: z.array(z.string()).optional().describe('Question bank ids to quiz on'),
+    startDifficulty: difficultySchema.optional().describe('Difficulty of the first question (default: medium)'),
+  }),
+  outputSchema: z.object({
+    totalQuestions: z.number(),
+    topics: z.array(z.string()).describe('Topics the quiz covers'),
+    progress: quizProgressSchema,
+  }),
+  execute: async (inputData, context) => {
+    const { questions = [], bankQuestionIds = [], startDifficulty = 'medium' } = inputData;
+
+    // The answer key is stored per thread, so answers can only be graded in the conversation that started the quiz
+    const threadId = context?.agent?.threadId;
+    if (!threadId) {
+      throw new Error('Taking a quiz requires a memory thread; call the agent with a threadId');
+    }
+
+    const tenantId = getTenantId(context?.requestContext);
+    const bankQuestions = await getBankQuestions(bankQuestionIds, tenantId);
+    const missing = bankQuestionIds.filter(id => !bankQuestions.some(entry => entry.id === id));
+    if (missing.length > 0) {
+      throw new Error(`Not in the question bank: ${missing.join(', ')}`);
+    }
+
+    const session: QuizSession = {
+      threadId,
+      questions: [
+        ...questions.map(question => ({ ...question, topic: topicOf(question) })),
+        ...bankQuestions.map(entry => ({ ...entry.question, topic: topicOf(entry.question, entry.tags) })),
+      ],
+      answers: [],
+      currentIndex: null,
+      difficulty: startDifficulty,
+      startedAt: Date.now(),
+    };
+    if (session.questions.length === 0) {
+      throw new Error('A quiz needs at least one question');
+    }
+
+    console.log(`📝 Starting a ${session.questions.length}-question quiz`);
+
+    await saveQuizSession(session, tenantId);
+    const progress = summarizeQuizProgress(session);
+    await writeQuizProgress(context, progress);
+
+    return {
+      totalQuestions: session.questions.length,
+      topics: [...new Set(session.questions.map(question => question.topic))],
+      progress,
+    };
+  },
+});
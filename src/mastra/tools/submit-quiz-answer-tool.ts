@@ -0,0 +1,129 @@
+import type { Agent } from '@mastra/core/agent';
+import type { RequestContext } from '@mastra/core/di';
+import { createTool } from '@mastra/core/tools';
+import { z } from 'zod';
+import {
+  gradeMultipleChoice,
+  nextDifficulty,
+  quizGradeSchema,
+  quizProgressSchema,
+  summarizeQuizProgress,
+  verdictFor,
+  type QuizGrade,
+  type QuizQuestion,
+} from '../lib/quiz';
+import { getQuizSession, saveQuizSession } from '../lib/quiz-store';
+import { getTenantId } from '../lib/tenants';
+import { writeQuizProgress } from './start-quiz-tool';
+
+export const submitQuizAnswerTool = createTool({
+  id: 'submit-quiz-answer-tool',
+  description:
+    "Grades the student's answer to the current quiz question: multiple choice exactly, free-text answers against the reference answer with a rubric",
+  inputSchema: z.object({
+    answer: z.string().describe("The student's answer exactly as they wrote it; empty if they skipped the question"),
+  }),
+  outputSchema: z.object({
+    grade: quizGradeSchema,
+    correctAnswer: z.string(),
+    referenceAnswer: z.string(),
+    progress: quizProgressSchema,
+  }),
+  execute: async (inputData, context) => {
+    const { answer } = inputData;
+
+    const threadId = context?.agent?.threadId;
+    const tenantId = getTenantId(context?.requestContext);
+    const session = threadId ? await getQuizSession(threadId, tenantId) : null;
+    if (!session) {
+      throw new Error('No quiz in progress in this conversation; start one first');
+    }
+    if (session.currentIndex === null) {
+      throw new Error('No question is waiting for an answer; ask the next question first');
+    }
+
+    const question = session.questions[session.currentIndex];
+    console.log(`🧮 Grading the answer to quiz question ${session.answers.length + 1}`);
+
+    let grade: QuizGrade;
+    if (question.type === 'multiple_choice') {
+      grade = gradeMultipleChoice(question, answer);
+    } else if (answer.trim() === '') {
+      grade = {
+        score: 0,
+        verdict: 'incorrect',
+        feedback: `No answer given. ${question.referenceAnswer}`,
+        rubric: [],
+      };
+    } else {
+      const agent = context?.mastra?.getAgent('quizGraderAgent');
+      if (!agent) {
+        throw new Error('Quiz grader agent not found');
+      }
+      grade = await gradeFreeTextAnswer(agent, question, answer, {
+        abortSignal: context?.abortSignal,
+        requestContext: context?.requestContext,
+      });
+    }
+
+    const updated = {
+      ...session,
+      answers: [...session.answers, { index: session.currentIndex, answer, grade }],
+      currentIndex: null,
+      difficulty: nextDifficulty(session.difficulty, grade),
+    };
+    await saveQuizSession(updated, tenantId);
+
+    const progress = summarizeQuizProgress(updated);
+    await writeQuizProgress(context, progress);
+
+    console.log(`✅ Graded ${grade.verdict} (${grade.score}); score so far ${progress.score}`);
+
+    return {
+      grade,
+      correctAnswer: question.correctAnswer,
+      referenceAnswer: question.referenceAnswer,
+      progress,
+    };
+  },
+});
+
+async function gradeFreeTextAnswer(
+  agent: Agent,
+  question: QuizQuestion,
+  answer: string,
+  options: { abortSignal?: AbortSignal; requestContext?: RequestContext } = {},
+): Promise<QuizGrade> {
+  const sources = question.citations.map(citation => `- (p. ${citation.page}) "${citation.quote}"`).join('\n');
+
+  const response = await agent.generate(
+    [
+      {
+        role: 'user',
+        content: `Grade the student's answer to this ${question.type.replace('_', ' ')} question.
+
+Question: ${question.stem}
+
+Reference answer: ${question.referenceAnswer}
+Key answer: ${question.correctAnswer}
+${sources ? `\nSource passages:\n${sources}\n` : ''}
+Student's answer:
+${answer}`,
+      },
+    ],
+    {
+      structuredOutput: {
+        schema: quizGradeSchema,
+      },
+      ...options,
+    },
+  );
+
+  if (!response.object) {
+    throw new Error('The grader returned no grade');
+  }
+
+  // The verdict follows from the score, whatever the model labelled it
+  const score = Math.round(Math.min(1, Math.max(0, response.object.score)) * 100) / 100;
+  return { ...response.object, score, verdict: verdictFor(score) };
+}
@@ -0,0 +1,38 @@
+import { createTool } from '@mastra/core/tools';
+import { z } from 'zod';
+import { getEmbedder } from '../lib/embedder';
+import { getBankQuestionHistory, updateBankQuestion } from '../lib/question-bank';
+import { getTenantId } from '../lib/tenants';
+import { questionSchema } from './generate-questions-from-text-tool';
+import { bankQuestionSchema } from './search-question-bank-tool';
+
+export const updateBankQuestionTool = createTool({
+  id: 'update-bank-question-tool',
+  description: 'Edits a question in the question bank; the previous version stays in its history',
+  inputSchema: z.object({
+    id: z.string().describe('Question bank id'),
+    edits: questionSchema
+      .omit({ citations: true })
+      .partial()
+      .optional()
+      .describe('Fields to change; everything else is kept'),
+    tags: z.array(z.string()).optional().describe('New tag list, replacing the current one'),
+    editedBy: z.string().optional().describe('Who requested the edit'),
+    note: z.string().optional().describe('Why the question was changed'),
+  }),
+  outputSchema: z.object({
+    question: bankQuestionSchema,
+    versions: z.number().describe('Number of versions in the history, including this one'),
+  }),
+  execute: async (inputData, context) => {
+    const { id, ...update } = inputData;
+    const tenantId = getTenantId(context?.requestContext);
+    console.log(`✏️ Updating bank question ${id}`);
+
+    const question = await updateBankQuestion(getEmbedder(), id, update, tenantId);
+    const history = await getBankQuestionHistory(id, tenantId);
+
+    console.log(`✅ Saved version ${question.version}`);
+    return { question, versions: history.length };
+  },
+});
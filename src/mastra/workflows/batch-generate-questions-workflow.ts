@@ -0,0 +1,244 @@
+import { randomUUID } from 'node:crypto';
+import { createStep, createWorkflow } from '@mastra/core/workflows';
+import { z } from 'zod';
+import { cacheModeSchema } from '../tools/download-pdf-tool';
+import { questionSchema } from '../tools/generate-questions-from-text-tool';
+import { describePdfSource, listPdfFilesInFolder, pdfSourceSchema } from '../lib/pdf-source';
+import { batchDocumentKey, getBatchDocuments, saveBatchDocument } from '../lib/batch-store';
+import { mapWithConcurrency } from '../lib/util';
+import { progressToWriter } from '../lib/progress';
+import { getTenantId } from '../lib/tenants';
+
+const DEFAULT_DOCUMENT_CONCURRENCY = 2;
+
+const batchOptionsSchema = z.object({
+  batchId: z.string().describe('Identifies the batch; documents already completed under this id are skipped on resume'),
+  documentConcurrency: z
+    .number()
+    .int()
+    .positive()
+    .optional()
+    .describe('Maximum number of documents processed in parallel'),
+  maxChunkTokens: z.number().int().positive().optional().describe('Token budget per summarization chunk'),
+  concurrency: z
+    .number()
+    .int()
+    .positive()
+    .optional()
+    .describe('Maximum number of chunks summarized in parallel, per document'),
+  cacheMode: cacheModeSchema.optional().describe('How to use the extraction/summary cache (default: read-write)'),
+});
+
+const batchInputSchema = batchOptionsSchema.partial({ batchId: true }).extend({
+  sources: z.array(pdfSourceSchema).optional().describe('The PDFs to process'),
+  folder: z.string().optional().describe('A local folder whose *.pdf files are added to the batch'),
+});
+
+const preparedBatchSchema = batchOptionsSchema.extend({
+  sources: z.array(pdfSourceSchema),
+});
+
+const batchDocumentResultSchema = z.object({
+  index: z.number().describe('Position of the document in the batch'),
+  source: z.string().describe('Human-readable description of the document source'),
+  status: z.enum(['success', 'error']),
+  resumed: z.boolean().describe('True when the result was reused from an earlier run of the same batch'),
+  pagesCount: z.number().describe('Number of pages in the PDF (0 if it could not be loaded)'),
+  questionCount: z.number(),
+  questions: z.array(questionSchema),
+  error: z
+    .object({
+      code: z.string().optional().describe('Download error code, when the PDF could not be loaded'),
+      message: z.string(),
+    })
+    .optional(),
+});
+
+type BatchDocumentResult = z.infer<typeof batchDocumentResultSchema>;
+
+const processedBatchSchema = z.object({
+  batchId: z.string(),
+  documents: z.array(batchDocumentResultSchema),
+});
+
+const batchReportSchema = z.object({
+  batchId: z.string().describe('Pass this id again to resume the batch'),
+  totalDocuments: z.number(),
+  succeeded: z.number(),
+  failed: z.number(),
+  resumed: z.number().describe('Documents whose results were reused from an earlier run'),
+  totalPages: z.number(),
+  totalQuestions: z.number(),
+  documents: z.array(batchDocumentResultSchema).describe('Per-document outcome, in input order'),
+});
+
+// Step 1: Resolve the list of documents and the batch id
+const prepareBatchStep = createStep({
+  id: 'prepare-batch-documents',
+  description: 'Collects the PDF sources from the input list and folder, and assigns a batch id',
+  inputSchema: batchInputSchema,
+  outputSchema: preparedBatchSchema,
+  execute: async ({ inputData, writer }) => {
+    console.log('Executing Step: prepare-batch-documents');
+    const { sources = [], folder, batchId = randomUUID(), ...options } = inputData;
+
+    const folderSources = folder ? await listPdfFilesInFolder(folder) : [];
+    const allSources = [...sources, ...folderSources];
+
+    if (allSources.length === 0) {
+      throw new Error('The batch has no documents: provide sources or a folder containing PDF files');
+    }
+
+    progressToWriter(writer)?.({ type: 'batch-started', batchId, totalDocuments: allSources.length });
+    console.log(`Step prepare-batch-documents: Succeeded - Batch ${batchId} has ${allSources.length} document(s)`);
+
+    return { ...options, batchId, sources: allSources };
+  },
+});
+
+// Step 2: Run the single-document workflow for every document, recording each outcome as it finishes
+const processBatchStep = createStep({
+  id: 'process-batch-documents',
+  description: 'Downloads, summarizes and generates questions for each document, isolating failures',
+  inputSchema: preparedBatchSchema,
+  outputSchema: processedBatchSchema,
+  execute: async ({ inputData, mastra, requestContext }) => {
+    console.log('Executing Step: process-batch-documents');
+    const { batchId, sources, documentConcurrency, maxChunkTokens, concurrency, cacheMode } = inputData;
+
+    const tenantId = getTenantId(requestContext);
+    const completed = await getBatchDocuments<BatchDocumentResult>(batchId, tenantId);
+    const workflow = mastra.getWorkflow('pdfToQuestionsWorkflow');
+
+    const documents = await mapWithConcurrency(
+      sources,
+      documentConcurrency ?? DEFAULT_DOCUMENT_CONCURRENCY,
+      async (source, index): Promise<BatchDocumentResult> => {
+        const label = describePdfSource(source);
+        const documentKey = batchDocumentKey(source);
+
+        // Only successes are reused; failed documents are retried when the batch is resumed
+        const previous = completed.get(documentKey);
+        if (previous?.status === 'success') {
+          console.log(`⏭️ [${index + 1}/${sources.length}] Already completed: ${label}`);
+          return { ...previous.result, index, resumed: true };
+        }
+
+        console.log(`📄 [${index + 1}/${sources.length}] Processing: ${label}`);
+
+        let document: BatchDocumentResult;
+        try {
+          const run = await workflow.createRun({ resourceId: tenantId });
+          const result = await run.start({
+            inputData: { source, maxChunkTokens, concurrency, cacheMode },
+            requestContext,
+          });
+
+          const summaryStep = result.steps['download-and-summarize-pdf'];
+          const pagesCount = summaryStep?.status === 'success' ? summaryStep.output.pagesCount : 0;
+
+          if (result.status !== 'success') {
+            const message = result.status === 'failed' ? result.error.message : `Workflow ended as ${result.status}`;
+            document = errorResult(index, label, pagesCount, message);
+          } else if (result.result.downloadError) {
+            const { code, message } = result.result.downloadError;
+            document = errorResult(index, label, pagesCount, message, code);
+          } else if (!result.result.success) {
+            document = errorResult(index, label, pagesCount, 'Question generation failed');
+          } else {
+            document = {
+              index,
+              source: label,
+              status: 'success',
+              resumed: false,
+              pagesCount,
+              questionCount: result.result.questions.length,
+              questions: result.result.questions,
+            };
+          }
+        } catch (error) {
+          document = errorResult(index, label, 0, error instanceof Error ? error.message : 'Unknown error');
+        }
+
+        try {
+          await saveBatchDocument(batchId, documentKey, index, document.status, document, tenantId);
+        } catch (error) {
+          // Losing the checkpoint only means the document is reprocessed on resume
+          console.warn(
+            `⚠️ Could not record batch progress for ${label}:`,
+            error instanceof Error ? error.message : error,
+          );
+        }
+
+        console.log(
+          document.status === 'success'
+            ? `✅ [${index + 1}/${sources.length}] ${label}: ${document.questionCount} questions from ${document.pagesCount} pages`
+            : `❌ [${index + 1}/${sources.length}] ${label}: ${document.error?.message}`,
+        );
+
+        return document;
+      },
+    );
+
+    return { batchId, documents };
+  },
+});
+
+function errorResult(
+  index: number,
+  source: string,
+  pagesCount: number,
+  message: string,
+  code?: string,
+): BatchDocumentResult {
+  return {
+    index,
+    source,
+    status: 'error',
+    resumed: false,
+    pagesCount,
+    questionCount: 0,
+    questions: [],
+    error: { code, message },
+  };
+}
+
+// Step 3: Aggregate the per-document outcomes
+const buildBatchReportStep = createStep({
+  id: 'build-batch-report',
+  description: 'Summarizes successes, failures, page counts and questions across the batch',
+  inputSchema: processedBatchSchema,
+  outputSchema: batchReportSchema,
+  execute: async ({ inputData }) => {
+    const { batchId, documents } = inputData;
+
+    const report = {
+      batchId,
+      totalDocuments: documents.length,
+      succeeded: documents.filter(document => document.status === 'success').length,
+      failed: documents.filter(document => document.status === 'error').length,
+      resumed: documents.filter(document => document.resumed).length,
+      totalPages: documents.reduce((sum, document) => sum + document.pagesCount, 0),
+      totalQuestions: documents.reduce((sum, document) => sum + document.questionCount, 0),
+      documents,
+    };
+
+    console.log(
+      `Step build-batch-report: Batch ${batchId} - ${report.succeeded} succeeded, ${report.failed} failed (${report.resumed} resumed), ${report.totalQuestions} questions`,
+    );
+
+    return report;
+  },
+});
+
+export const batchPdfToQuestionsWorkflow = createWorkflow({
+  id: 'batch-generate-questions-from-pdfs-workflow',
+  description:
+    'Generates questions for a list or folder of PDFs with bounded concurrency, per-document failure isolation and resume',
+  inputSchema: batchInputSchema,
+  outputSchema: batchReportSchema,
+})
+  .then(prepareBatchStep)
+  .then(processBatchStep)
+  .then(buildBatchReportStep)
+  .commit();
@@ -0,0 +1,212 @@
+import { createStep, createWorkflow } from '@mastra/core/workflows';
+import { z } from 'zod';
+import { RequestContext } from '@mastra/core/di';
+import { cacheModeSchema, documentSectionSchema, readOutline, sectionSourceSchema } from '../tools/download-pdf-tool';
+import {
+  generateQuestionsFromTextTool,
+  generationProfileSchema,
+  MAX_QUESTIONS,
+  questionSchema,
+} from '../tools/generate-questions-from-text-tool';
+import { describePdfSource, pdfSourceSchema, type PdfSource } from '../lib/pdf-source';
+import { PdfDownloadError, pdfDownloadErrorSchema } from '../lib/download';
+import { loadAndExtractPdf } from '../lib/extraction';
+import { getTenantId } from '../lib/tenants';
+import { splitIntoSections } from '../lib/sections';
+import { changedMaterial, compareDocumentSections, documentChangesSchema } from '../lib/document-diff';
+import { modelUsageSchema } from '../lib/usage';
+import type { CacheMode } from '../lib/cache';
+import { callTool } from '../lib/tool-call';
+
+const DEFAULT_MAX_CHANGE_QUESTIONS = 5;
+
+const compareInputSchema = z.object({
+  previousSource: pdfSourceSchema.describe('The earlier version of the document'),
+  revisedSource: pdfSourceSchema.describe('The revised version of the document'),
+  cacheMode: cacheModeSchema.optional().describe('How to use the extraction cache (default: read-write)'),
+  maxQuestions: z
+    .number()
+    .int()
+    .positive()
+    .max(MAX_QUESTIONS)
+    .optional()
+    .describe(
+      `Number of questions to generate about the changes (default: ${DEFAULT_MAX_CHANGE_QUESTIONS}, at most ${MAX_QUESTIONS})`,
+    ),
+  profile: generationProfileSchema
+    .optional()
+    .describe('Audience, difficulty mix, allowed question types, output language and style of the questions'),
+});
+
+const documentVersionSchema = z.object({
+  source: z.string().describe('Human-readable description of the document source'),
+  pagesCount: z.number(),
+  sectionSource: sectionSourceSchema,
+  sections: z.array(documentSectionSchema),
+});
+
+const versionDownloadErrorSchema = pdfDownloadErrorSchema.extend({
+  version: z.enum(['previous', 'revised']).describe('Which of the two documents could not be loaded'),
+});
+
+const extractedVersionsSchema = z.object({
+  previous: documentVersionSchema.optional(),
+  revised: documentVersionSchema.optional(),
+  downloadError: versionDownloadErrorSchema.optional().describe('Set when either PDF could not be loaded'),
+});
+
+const comparedVersionsSchema = z.object({
+  previousPagesCount: z.number(),
+  revisedPagesCount: z.number(),
+  comparison: documentChangesSchema.optional().describe('What changed between the versions, section by section'),
+  downloadError: versionDownloadErrorSchema.optional(),
+});
+
+const changeQuestionsSchema = comparedVersionsSchema.extend({
+  questions: z.array(questionSchema).describe('Questions about the changed material only, citing the revised version'),
+  success: z
+    .boolean()
+    .describe('False when a document could not be loaded or question generation failed; true when nothing changed'),
+  usage: z.array(modelUsageSchema).describe('Tokens used per model'),
+});
+
+type DocumentVersion = z.infer<typeof documentVersionSchema>;
+type VersionDownloadError = z.infer<typeof versionDownloadErrorSchema>;
+
+// Download failures carry a typed code; they are reported instead of failing the run, like in the single-PDF workflow
+async function extractVersion(
+  source: PdfSource,
+  version: VersionDownloadError['version'],
+  cacheMode: CacheMode | undefined,
+  tenantId: string | undefined,
+): Promise<{ document?: DocumentVersion; downloadError?: VersionDownloadError }> {
+  try {
+    const { pdfBuffer, extraction } = await loadAndExtractPdf(source, cacheMode, undefined, tenantId);
+    const { source: sectionSource, sections } = splitIntoSections(extraction.document, await readOutline(pdfBuffer));
+    return {
+      document: { source: describePdfSource(source), pagesCount: extraction.pagesCount, sectionSource, sections },
+    };
+  } catch (error) {
+    if (error instanceof PdfDownloadError) {
+      return { downloadError: { ...error.toJSON(), version } };
+    }
+    throw error;
+  }
+}
+
+// Step 1: Extract both versions and split each into sections
+const extractVersionsStep = createStep({
+  id: 'extract-both-versions',
+  description: 'Loads both PDFs, extracts their text and splits each into sections by its outline or headings',
+  inputSchema: compareInputSchema,
+  outputSchema: extractedVersionsSchema,
+  execute: async ({ inputData, requestContext }) => {
+    console.log('Executing Step: extract-both-versions');
+    const { previousSource, revisedSource, cacheMode } = inputData;
+    const tenantId = getTenantId(requestContext);
+
+    const [previous, revised] = await Promise.all([
+      extractVersion(previousSource, 'previous', cacheMode, tenantId),
+      extractVersion(revisedSource, 'revised', cacheMode, tenantId),
+    ]);
+
+    const downloadError = previous.downloadError ?? revised.downloadError;
+    if (downloadError) {
+      console.error(
+        `Step extract-both-versions: Failed - ${downloadError.version} version: ${downloadError.code}: ${downloadError.message}`,
+      );
+      return { downloadError };
+    }
+
+    console.log(
+      `Step extract-both-versions: Succeeded - ${previous.document?.sections.length} section(s) in the previous version, ${revised.document?.sections.length} in the revised version`,
+    );
+    return { previous: previous.document, revised: revised.document };
+  },
+});
+
+// Step 2: Align the sections of both versions and list what was added, removed and reworded
+const compareVersionsStep = createStep({
+  id: 'compare-versions',
+  description: 'Aligns the sections of both versions and lists added, removed and modified content with page numbers',
+  inputSchema: extractedVersionsSchema,
+  outputSchema: comparedVersionsSchema,
+  execute: async ({ inputData }) => {
+    console.log('Executing Step: compare-versions');
+    const { previous, revised, downloadError } = inputData;
+
+    if (!previous || !revised) {
+      return {
+        previousPagesCount: previous?.pagesCount ?? 0,
+        revisedPagesCount: revised?.pagesCount ?? 0,
+        downloadError,
+      };
+    }
+
+    const comparison = compareDocumentSections(previous.sections, revised.sections);
+    console.log(
+      `Step compare-versions: Succeeded - ${comparison.sectionsModified} modified, ${comparison.sectionsAdded} added, ${comparison.sectionsRemoved} removed, ${comparison.sectionsUnchanged} unchanged section(s)`,
+    );
+    return { previousPagesCount: previous.pagesCount, revisedPagesCount: revised.pagesCount, comparison };
+  },
+});
+
+// Step 3: Generate questions from the changed material only
+const generateChangeQuestionsStep = createStep({
+  id: 'generate-change-questions',
+  description: 'Generates questions about what changed, citing the revised version',
+  inputSchema: comparedVersionsSchema,
+  outputSchema: changeQuestionsSchema,
+  execute: async ({ inputData, mastra, requestContext, getInitData, writer, abortSignal, tracingContext }) => {
+    console.log('Executing Step: generate-change-questions');
+    const { comparison } = inputData;
+    const { maxQuestions = DEFAULT_MAX_CHANGE_QUESTIONS, profile } = getInitData<z.infer<typeof compareInputSchema>>();
+
+    if (!comparison) {
+      return { ...inputData, questions: [], success: false, usage: [] };
+    }
+    if (comparison.changes.length === 0) {
+      console.log('Step generate-change-questions: Skipped - nothing changed between the versions');
+      return { ...inputData, questions: [], success: true, usage: [] };
+    }
+
+    const material = changedMaterial(comparison);
+    try {
+      const result = await callTool(
+        generateQuestionsFromTextTool,
+        { extractedText: material.text, pages: material.pages, maxQuestions, profile },
+        {
+          mastra,
+          requestContext: requestContext || new RequestContext(),
+          writer,
+          abortSignal,
+        },
+      );
+
+      if ('error' in result) {
+        return { ...inputData, questions: [], success: false, usage: [] };
+      }
+
+      tracingContext?.currentSpan?.update({ metadata: { usage: result.usage } });
+      console.log(
+        `Step generate-change-questions: Succeeded - Generated ${result.questions.length} questions about the changes`,
+      );
+      return { ...inputData, questions: result.questions, success: result.success, usage: result.usage };
+    } catch (error) {
+      console.error('Step generate-change-questions: Failed - Error during generation:', error);
+      return { ...inputData, questions: [], success: false, usage: [] };
+    }
+  },
+});
+
+export const comparePdfVersionsWorkflow = createWorkflow({
+  id: 'compare-pdf-versions-workflow',
+  description:
+    'Compares two versions of a PDF section by section, summarizes what was added, removed and modified, and generates questions about the changes',
+  inputSchema: compareInputSchema,
+  outputSchema: changeQuestionsSchema,
+})
+  .then(extractVersionsStep)
+  .then(compareVersionsStep)
+  .then(generateChangeQuestionsStep)
+  .commit();
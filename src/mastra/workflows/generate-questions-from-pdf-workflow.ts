@@ -1,103 +1,926 @@
 import { createStep, createWorkflow } from '@mastra/core/workflows';
 import { z } from 'zod';
 import { RequestContext } from '@mastra/core/di';
-import { pdfFetcherTool } from '../tools/download-pdf-tool';
-import { generateQuestionsFromTextTool } from '../tools/generate-questions-from-text-tool';
+import {
+  cacheModeSchema,
+  documentSectionSchema,
+  pdfFetcherTool,
+  pdfPageSchema,
+  sectionSourceSchema,
+} from '../tools/download-pdf-tool';
+import {
+  generateQuestionsFromTextTool,
+  generationProfileSchema,
+  MAX_QUESTIONS,
+  questionMixSchema,
+  questionSchema,
+  type GenerationProfile,
+  type Question,
+} from '../tools/generate-questions-from-text-tool';
+import { describePdfSource, pdfSourceSchema } from '../lib/pdf-source';
+import { PdfDownloadError, pdfDownloadErrorSchema } from '../lib/download';
+import { exportedFileSchema, exportFormatSchema, exportQuestions } from '../lib/exporters';
+import {
+  DEFAULT_MAX_REGENERATION_ROUNDS,
+  DEFAULT_QUALITY_THRESHOLD,
+  evaluateQuestionQuality,
+} from '../lib/question-quality';
+import { questionQualityScoreSchema } from '../scorers/question-quality-scorer';
+import { allocateSectionQuotas, buildCoverageReport, type DocumentSection } from '../lib/sections';
+import { mapWithConcurrency } from '../lib/util';
+import { progressToWriter } from '../lib/progress';
+import {
+  applyReviewDecisions,
+  createReviewDraft,
+  reviewDraftSchema,
+  reviewResumeSchema,
+  reviewSummarySchema,
+  validateReviewDecisions,
+  type ReviewDraftQuestion,
+} from '../lib/review';
+import { saveReviewRecords } from '../lib/review-store';
+import {
+  checkQuestionMix,
+  mixOf,
+  profileForMix,
+  resolveQuestionMix,
+  splitQuestionMix,
+} from '../lib/generation-profile';
+import { addQuestionsToBank } from '../lib/question-bank';
+import { getTenantId } from '../lib/tenants';
+import { REDACT_PII_KEY, guardrailReportSchema } from '../lib/guardrails';
+import { getEmbedder } from '../lib/embedder';
+import {
+  buildUsageReport,
+  compressionSchema,
+  mergeModelUsage,
+  modelUsageSchema,
+  stepUsageSchema,
+  usageReportSchema,
+  type ModelUsage,
+  type StepUsage,
+} from '../lib/usage';
+import { callTool, type ToolCallContext } from '../lib/tool-call';
+
+const DEFAULT_MAX_QUESTIONS = 10;
+const DEFAULT_SECTION_CONCURRENCY = 3;
 
 // Define schemas for input and outputs
 const pdfInputSchema = z.object({
-  pdfUrl: z.string().describe('URL to a PDF file to download and process'),
+  source: pdfSourceSchema.describe(
+    'The PDF to process: a URL (with optional headers), a local file path, or base64 data',
+  ),
+  maxChunkTokens: z.number().int().positive().optional().describe('Token budget per summarization chunk'),
+  concurrency: z.number().int().positive().optional().describe('Maximum number of chunks summarized in parallel'),
+  cacheMode: cacheModeSchema.optional().describe('How to use the extraction/summary cache (default: read-write)'),
+  generationMode: z
+    .enum(['summary', 'sections'])
+    .optional()
+    .describe(
+      'summary: generate from the whole-document summary; sections: generate per section of the outline or headings (default: summary)',
+    ),
+  maxQuestions: z
+    .number()
+    .int()
+    .positive()
+    .max(MAX_QUESTIONS)
+    .optional()
+    .describe(`Total number of questions to generate (default: ${DEFAULT_MAX_QUESTIONS}, at most ${MAX_QUESTIONS})`),
+  questionsPerSection: z
+    .number()
+    .int()
+    .positive()
+    .max(MAX_QUESTIONS)
+    .optional()
+    .describe('In sections mode, the most questions any one section may get (default: no limit)'),
+  profile: generationProfileSchema
+    .optional()
+    .describe('Audience, difficulty mix, allowed question types, output language and style of the questions'),
+  evaluateQuality: z
+    .boolean()
+    .optional()
+    .describe('Score each question with an LLM judge and regenerate weak ones (default: false)'),
+  qualityThreshold: z
+    .number()
+    .min(0)
+    .max(1)
+    .optional()
+    .describe(`Questions scoring below this (0-1) are regenerated (default: ${DEFAULT_QUALITY_THRESHOLD})`),
+  maxRegenerationRounds: z
+    .number()
+    .int()
+    .nonnegative()
+    .optional()
+    .describe(`Maximum number of regeneration rounds (default: ${DEFAULT_MAX_REGENERATION_ROUNDS})`),
+  review: z
+    .boolean()
+    .optional()
+    .describe(
+      'Suspend before export so an instructor can approve, edit, reject or regenerate each question (default: false)',
+    ),
+  exportFormats: z
+    .array(exportFormatSchema)
+    .optional()
+    .describe('Formats to export the generated questions to (qti, gift, csv, anki)'),
+  exportTitle: z.string().optional().describe('Quiz title used in the exported files'),
+  saveToBank: z
+    .boolean()
+    .optional()
+    .describe('Store the final questions in the question bank, skipping near-duplicates (default: false)'),
+  bankTags: z.array(z.string()).optional().describe('Tags to store the questions under in the question bank'),
+  redactPii: z
+    .boolean()
+    .optional()
+    .describe(
+      'Replace emails, phone numbers and national IDs with placeholders before any model sees them (default: PDF_REDACT_PII)',
+    ),
 });
 
 const pdfSummarySchema = z.object({
   summary: z.string().describe('The AI-generated summary of the PDF content'),
-  fileSize: z.number().describe('Size of the downloaded file in bytes'),
+  fileSize: z.number().describe('Size of the PDF file in bytes'),
   pagesCount: z.number().describe('Number of pages in the PDF'),
   characterCount: z.number().describe('Number of characters extracted from the PDF'),
+  chunkCount: z.number().describe('Number of chunks the extracted text was split into for summarization'),
+  summaryUsage: z
+    .array(
+      z.object({
+        level: z.number(),
+        calls: z.number(),
+        inputTokens: z.number(),
+        outputTokens: z.number(),
+        totalTokens: z.number(),
+      }),
+    )
+    .describe('Token usage for each summarization level'),
+  usage: z.array(modelUsageSchema).describe('Tokens used per model for the summary'),
+  compression: compressionSchema
+    .nullable()
+    .describe('Size of the summary compared with the full extracted text; null when there is no summary'),
+  pages: z.array(pdfPageSchema).describe('Per-page extracted text, used to cite sources for each question'),
+  sections: z.array(documentSectionSchema).optional().describe('Document sections, in sections mode'),
+  sectionSource: sectionSourceSchema.optional(),
+  ocrPages: z
+    .array(z.object({ pageNumber: z.number(), confidence: z.number() }))
+    .optional()
+    .describe('Pages whose text was recognized with OCR, with the OCR confidence (0-1)'),
+  downloadError: pdfDownloadErrorSchema.optional().describe('Set when the PDF could not be loaded'),
+  cache: z
+    .object({
+      contentHash: z.string(),
+      extractionHit: z.boolean(),
+      summaryHit: z.boolean(),
+    })
+    .optional()
+    .describe('Whether extraction and summary were served from the cache'),
+  guardrails: guardrailReportSchema.optional().describe('Injected instructions and PII found in the document'),
+});
+
+const coverageSchema = z.object({
+  source: sectionSourceSchema,
+  sectionsTotal: z.number().describe('Number of sections the document was split into'),
+  sectionsCovered: z.number().describe('Number of sections with at least one question'),
+  sections: z.array(
+    z.object({
+      title: z.string(),
+      startPage: z.number(),
+      endPage: z.number(),
+      characterCount: z.number(),
+      quota: z.number().describe('Questions allotted to the section; 0 for sections too short to ask about'),
+      questionCount: z.number().describe('Questions actually generated for the section'),
+      questionIndexes: z.array(z.number()).describe("Positions of the section's questions in `questions`"),
+    }),
+  ),
 });
 
 const questionsSchema = z.object({
-  questions: z.array(z.string()).describe('The generated questions from the PDF content'),
+  questions: z.array(questionSchema).describe('The generated questions from the PDF content'),
   success: z.boolean().describe('Indicates if the question generation was successful'),
+  downloadError: pdfDownloadErrorSchema.optional().describe('Why the PDF could not be loaded, if it could not'),
+  coverage: coverageSchema.optional().describe('Which sections got which questions, in sections mode'),
+  mix: questionMixSchema
+    .optional()
+    .describe('How the questions compare to the requested profile mix, when a profile was given'),
+  stepUsage: z.array(stepUsageSchema).describe('Tokens used so far by each step that called a model, per model'),
+});
+
+const evaluatedQuestionsSchema = questionsSchema.extend({
+  evaluation: z
+    .object({
+      threshold: z.number().describe('Quality threshold that was applied'),
+      rounds: z.number().describe('Number of regeneration rounds that ran'),
+      averageScore: z
+        .number()
+        .nullable()
+        .describe('Mean overall score of the scored questions; null when the judge could not score any'),
+      belowThreshold: z.number().describe('Questions still below the threshold after the last round'),
+      unscored: z.number().describe('Questions the judge failed to score; they are kept and not regenerated'),
+      scores: z
+        .array(questionQualityScoreSchema.extend({ passed: z.boolean() }).nullable())
+        .describe('Quality score for each returned question, in the same order; null when it could not be scored'),
+    })
+    .optional()
+    .describe('Question quality evaluation; absent when evaluation was disabled or no questions were generated'),
 });
 
+const reviewedQuestionsSchema = evaluatedQuestionsSchema.extend({
+  review: reviewSummarySchema
+    .optional()
+    .describe('Who approved the questions and every decision made; set when review was requested'),
+});
+
+const exportedQuestionsSchema = reviewedQuestionsSchema.extend({
+  exports: z
+    .array(
+      z.object({
+        format: exportFormatSchema,
+        files: z.array(exportedFileSchema),
+      }),
+    )
+    .describe('Exported files for each requested format; empty when no formats were requested'),
+});
+
+const bankedQuestionsSchema = exportedQuestionsSchema.extend({
+  bank: z
+    .object({
+      added: z.number().describe('Questions stored as new bank entries'),
+      duplicates: z.number().describe('Questions skipped because the bank already had a near-identical one'),
+      questionIds: z
+        .array(z.string())
+        .describe('Bank id of each question, in order; duplicates get the id of the existing question'),
+    })
+    .optional()
+    .describe('Result of saving to the question bank, when requested'),
+});
+
+const usageReportedQuestionsSchema = bankedQuestionsSchema.omit({ stepUsage: true }).extend({
+  usage: usageReportSchema.describe('Tokens and estimated cost per step and per model, and the summary compression'),
+  guardrails: guardrailReportSchema
+    .optional()
+    .describe('Injected instructions neutralized and PII found in the document; absent when it could not be loaded'),
+});
+
+// Append a step's model usage to the running per-step list; steps that made no model calls are left out
+function addStepUsage(stepUsage: StepUsage[], step: string, models: ModelUsage[]): StepUsage[] {
+  return models.length > 0 ? [...stepUsage, { step, models }] : stepUsage;
+}
+
 // Step 1: Download PDF and generate summary
 const downloadAndSummarizePdfStep = createStep({
   id: 'download-and-summarize-pdf',
-  description: 'Downloads PDF from URL and generates an AI summary',
+  description: 'Loads the PDF from its source and generates an AI summary',
   inputSchema: pdfInputSchema,
   outputSchema: pdfSummarySchema,
-  execute: async ({ inputData, mastra, requestContext }) => {
+  execute: async ({ inputData, mastra, requestContext, writer, abortSignal, tracingContext }) => {
     console.log('Executing Step: download-and-summarize-pdf');
-    const { pdfUrl } = inputData;
+    const { source, maxChunkTokens, concurrency, cacheMode, generationMode, redactPii } = inputData;
+    const runContext = requestContext || new RequestContext();
+    // Stored on the run's context so the agents of later steps redact the same way
+    if (redactPii !== undefined) {
+      runContext.set(REDACT_PII_KEY, redactPii);
+    }
 
-    const result = await pdfFetcherTool.execute!(
-      { pdfUrl },
-      {
-        mastra,
-        requestContext: requestContext || new RequestContext(),
-      },
-    );
+    let result: Awaited<ReturnType<NonNullable<typeof pdfFetcherTool.execute>>>;
+    try {
+      result = await callTool(
+        pdfFetcherTool,
+        {
+          source,
+          maxChunkTokens,
+          concurrency,
+          cacheMode,
+          includePages: true,
+          includeSections: generationMode === 'sections',
+        },
+        {
+          mastra,
+          requestContext: runContext,
+          // Progress events go out through this step's writer
+          writer,
+          abortSignal,
+        },
+      );
+    } catch (error) {
+      // Download failures carry a typed code; hand them to the next step instead of failing the run
+      if (error instanceof PdfDownloadError) {
+        console.error(`Step download-and-summarize-pdf: Failed - ${error.code}: ${error.message}`);
+        return {
+          summary: '',
+          fileSize: 0,
+          pagesCount: 0,
+          characterCount: 0,
+          chunkCount: 0,
+          summaryUsage: [],
+          usage: [],
+          compression: null,
+          pages: [],
+          downloadError: error.toJSON(),
+        };
+      }
+      throw error;
+    }
 
     if ('error' in result) {
       throw new Error('Failed to download and summarize PDF: ' + result.error);
     }
 
+    tracingContext?.currentSpan?.update({ metadata: { usage: result.usage, compression: result.compression } });
     console.log(
-      `Step download-and-summarize-pdf: Succeeded - Downloaded ${result.fileSize} bytes, extracted ${result.characterCount} characters from ${result.pagesCount} pages, generated ${result.summary.length} character summary`,
+      `Step download-and-summarize-pdf: Succeeded - Loaded ${result.fileSize} bytes, extracted ${result.characterCount} characters from ${result.pagesCount} pages, generated ${result.summary.length} character summary from ${result.chunkCount} chunk(s)`,
     );
 
-    return result;
+    return { ...result, pages: result.pages ?? [] };
   },
 });
 
-// Step 2: Generate Questions from Summary
+// Generate each section's share of the questions from that section's own text, tagged with its title
+async function generateSectionQuestions(
+  sections: DocumentSection[],
+  quotas: number[],
+  profiles: (GenerationProfile | undefined)[],
+  concurrency: number,
+  context: ToolCallContext,
+): Promise<{ questions: Question[]; usage: ModelUsage[] }[]> {
+  return mapWithConcurrency(sections, concurrency, async (section, index) => {
+    if (quotas[index] === 0) {
+      return { questions: [], usage: [] };
+    }
+
+    try {
+      const result = await callTool(
+        generateQuestionsFromTextTool,
+        {
+          extractedText: section.pages.map(page => page.text).join('\n\n'),
+          pages: section.pages,
+          maxQuestions: quotas[index],
+          section: section.title,
+          profile: profiles[index],
+        },
+        context,
+      );
+      return 'error' in result ? { questions: [], usage: [] } : { questions: result.questions, usage: result.usage };
+    } catch (error) {
+      // One failing section should not cost the other sections their questions
+      console.warn(`⚠️ Question generation failed for section "${section.title}":`, error);
+      return { questions: [], usage: [] };
+    }
+  });
+}
+
+// Step 2: Generate Questions from Summary, or per section in sections mode
 const generateQuestionsFromSummaryStep = createStep({
   id: 'generate-questions-from-summary',
-  description: 'Generates questions from the AI-generated PDF summary',
+  description:
+    'Generates questions with answer keys and page citations from the AI-generated PDF summary, or from each document section',
   inputSchema: pdfSummarySchema,
   outputSchema: questionsSchema,
-  execute: async ({ inputData, mastra, requestContext }) => {
+  execute: async ({ inputData, mastra, requestContext, getInitData, writer, abortSignal, tracingContext }) => {
     console.log('Executing Step: generate-questions-from-summary');
 
-    const { summary } = inputData;
+    const { summary, pages, sections, sectionSource, downloadError } = inputData;
+    const stepUsage = addStepUsage([], 'download-and-summarize-pdf', inputData.usage);
+    const withUsage = (usage: ModelUsage[]) => {
+      tracingContext?.currentSpan?.update({ metadata: { usage } });
+      return addStepUsage(stepUsage, 'generate-questions-from-summary', usage);
+    };
+    const {
+      maxQuestions = DEFAULT_MAX_QUESTIONS,
+      questionsPerSection,
+      profile,
+    } = getInitData<z.infer<typeof pdfInputSchema>>();
+
+    if (downloadError) {
+      return { questions: [], success: false, downloadError, stepUsage };
+    }
+
+    if (sections && sectionSource) {
+      const quotas = allocateSectionQuotas(sections, maxQuestions, questionsPerSection);
+      // The document-wide mix is dealt out so that every section asks for exact counts of its share
+      const mix = profile
+        ? resolveQuestionMix(
+            profile,
+            quotas.reduce((sum, quota) => sum + quota, 0),
+          )
+        : undefined;
+      const profiles = mix ? splitQuestionMix(mix, quotas).map(sectionMix => profileForMix(profile, sectionMix)) : [];
+      const perSection = await generateSectionQuestions(sections, quotas, profiles, DEFAULT_SECTION_CONCURRENCY, {
+        mastra,
+        requestContext: requestContext || new RequestContext(),
+        writer,
+        abortSignal,
+      });
+
+      const questions: Question[] = [];
+      const questionIndexes = perSection.map(result => result.questions.map(question => questions.push(question) - 1));
+      const coverage = buildCoverageReport(sectionSource, sections, quotas, questionIndexes);
+
+      console.log(
+        `Step generate-questions-from-summary: Succeeded - Generated ${questions.length} questions covering ${coverage.sectionsCovered} of ${coverage.sectionsTotal} sections`,
+      );
+      return {
+        questions,
+        success: questions.length > 0,
+        coverage,
+        ...(mix && { mix: checkQuestionMix(questions, mix) }),
+        stepUsage: withUsage(mergeModelUsage(perSection.map(result => result.usage))),
+      };
+    }
 
     if (!summary) {
       console.error('Missing summary in question generation step');
-      return { questions: [], success: false };
+      return { questions: [], success: false, stepUsage };
     }
 
     try {
-      const result = await generateQuestionsFromTextTool.execute!(
-        { extractedText: summary }, // Use summary as the text input
+      const result = await callTool(
+        generateQuestionsFromTextTool,
+        { extractedText: summary, pages, maxQuestions, profile }, // Use summary as the text input, pages for citations
         {
           mastra,
           requestContext: requestContext || new RequestContext(),
+          writer,
+          abortSignal,
         },
       );
 
       if ('error' in result) {
-        return { questions: [], success: false };
+        return { questions: [], success: false, stepUsage };
       }
 
       console.log(
         `Step generate-questions-from-summary: Succeeded - Generated ${result.questions.length} questions from summary`,
       );
-      return { questions: result.questions, success: result.success };
+      return {
+        questions: result.questions,
+        success: result.success,
+        ...(result.mix && { mix: result.mix }),
+        stepUsage: withUsage(result.usage),
+      };
     } catch (error) {
       console.error('Step generate-questions-from-summary: Failed - Error during generation:', error);
-      return { questions: [], success: false };
+      return { questions: [], success: false, stepUsage };
     }
   },
 });
 
+// The judge checks answerability against the page-tagged source, or the summary when pages are missing
+function judgeSourceText(summary: string, pages: z.infer<typeof pdfPageSchema>[]): string {
+  return pages.length > 0 ? pages.map(page => `[Page ${page.pageNumber}]\n${page.text}`).join('\n\n') : summary;
+}
+
+interface RegenerationGroup {
+  indexes: number[];
+  source: { extractedText: string; pages: z.infer<typeof pdfPageSchema>[]; section?: string };
+}
+
+// Rejected questions from the summary are regenerated together; tagged ones are regenerated per section
+function groupForRegeneration(
+  rejected: number[],
+  questions: Question[],
+  sections: DocumentSection[],
+  summarySource: RegenerationGroup['source'],
+): RegenerationGroup[] {
+  const groups = new Map<string, RegenerationGroup>();
+
+  for (const index of rejected) {
+    const section = sections.find(candidate => candidate.title === questions[index].section);
+    const key = section ? `section:${section.title}` : 'summary';
+    const group: RegenerationGroup = groups.get(key) ?? {
+      indexes: [],
+      source: section
+        ? {
+            extractedText: section.pages.map(page => page.text).join('\n\n'),
+            pages: section.pages,
+            section: section.title,
+          }
+        : summarySource,
+    };
+    group.indexes.push(index);
+    groups.set(key, group);
+  }
+
+  return [...groups.values()];
+}
+
+// Generate replacements for the questions at `indexes`, each with its own feedback. In sections mode a question is
+// replaced from its own section, so coverage is preserved, and replacements are asked for with the replaced
+// questions' types and difficulties, so the mix holds. Each replacement is matched to a question of the same type.
+async function generateReplacements(
+  indexes: number[],
+  questions: Question[],
+  feedback: (string | undefined)[],
+  source: { sections: DocumentSection[]; summarySource: RegenerationGroup['source']; profile?: GenerationProfile },
+  context: ToolCallContext,
+): Promise<{ replacements: { index: number; replacement: Question }[]; usage: ModelUsage[] }> {
+  const feedbackByIndex = new Map(indexes.map((index, position) => [index, feedback[position]]));
+  const replacements: { index: number; replacement: Question }[] = [];
+  const usage: ModelUsage[][] = [];
+
+  for (const group of groupForRegeneration(indexes, questions, source.sections, source.summarySource)) {
+    const result = await callTool(
+      generateQuestionsFromTextTool,
+      {
+        ...group.source,
+        maxQuestions: group.indexes.length,
+        avoidQuestions: questions.map(question => question.stem),
+        feedback: group.indexes.flatMap(index => feedbackByIndex.get(index) ?? []),
+        profile: source.profile && profileForMix(source.profile, mixOf(group.indexes.map(index => questions[index]))),
+      },
+      context,
+    );
+    if ('error' in result) {
+      continue;
+    }
+    usage.push(result.usage);
+
+    const open = [...group.indexes];
+    for (const replacement of result.questions) {
+      const slot = open.findIndex(index => questions[index].type === replacement.type);
+      const index = open.splice(slot === -1 ? 0 : slot, 1)[0];
+      if (index !== undefined) {
+        replacements.push({ index, replacement });
+      }
+    }
+  }
+
+  return { replacements, usage: mergeModelUsage(usage) };
+}
+
+// Step 3: Score the questions and regenerate the ones below the quality threshold
+const evaluateQuestionsStep = createStep({
+  id: 'evaluate-questions',
+  description:
+    'Scores each question for answerability, clarity, distractor plausibility and duplication, regenerating weak ones',
+  inputSchema: questionsSchema,
+  outputSchema: evaluatedQuestionsSchema,
+  execute: async ({
+    inputData,
+    mastra,
+    requestContext,
+    runId,
+    getInitData,
+    getStepResult,
+    writer,
+    abortSignal,
+    tracingContext,
+  }) => {
+    const {
+      evaluateQuality = false,
+      qualityThreshold = DEFAULT_QUALITY_THRESHOLD,
+      maxRegenerationRounds = DEFAULT_MAX_REGENERATION_ROUNDS,
+      profile,
+    } = getInitData<z.infer<typeof pdfInputSchema>>();
+
+    if (!evaluateQuality || !inputData.success || inputData.questions.length === 0) {
+      return inputData;
+    }
+
+    console.log('Executing Step: evaluate-questions');
+
+    const { summary, pages, sections = [] } = getStepResult(downloadAndSummarizePdfStep);
+    const sourceText = judgeSourceText(summary, pages);
+
+    const onProgress = progressToWriter(writer);
+    const questions = [...inputData.questions];
+    const tenantId = getTenantId(requestContext);
+    const scores = await evaluateQuestionQuality(mastra, { sourceText }, questions, {
+      runId,
+      entityId: 'evaluate-questions',
+      iteration: 0,
+      tenantId,
+    });
+
+    const usage: ModelUsage[][] = [];
+    let rounds = 0;
+    while (rounds < maxRegenerationRounds) {
+      const rejected = questions
+        .map((_question, index) => index)
+        // The judge could not score some questions; those are kept as they are
+        .filter(index => scores[index] !== null && scores[index].overall < qualityThreshold);
+      if (rejected.length === 0) {
+        break;
+      }
+
+      rounds += 1;
+      console.log(
+        `🔁 Regenerating ${rejected.length} question(s) scoring below ${qualityThreshold} (round ${rounds}/${maxRegenerationRounds})`,
+      );
+
+      const accepted = questions.filter((_question, index) => !rejected.includes(index));
+      const { replacements, usage: roundUsage } = await generateReplacements(
+        rejected,
+        questions,
+        rejected.map(index => scores[index]!.reason),
+        { sections, summarySource: { extractedText: summary, pages }, profile },
+        // No writer: candidates are only reported once they actually replace a question
+        { mastra, requestContext: requestContext || new RequestContext(), abortSignal },
+      );
+      const regenerated = replacements.length;
+      usage.push(roundUsage);
+
+      const replacementScores = await evaluateQuestionQuality(
+        mastra,
+        { sourceText, existingQuestions: accepted },
+        replacements.map(({ replacement }) => replacement),
+        { runId, entityId: 'evaluate-questions', iteration: rounds, tenantId },
+      );
+
+      // A replacement only takes a rejected question's place if it scores better
+      replacements.forEach(({ index, replacement }, replacementIndex) => {
+        const replacementScore = replacementScores[replacementIndex];
+        if (replacementScore && replacementScore.overall > scores[index]!.overall) {
+          onProgress?.({
+            type: 'question-replaced',
+            index,
+            replacedStem: questions[index].stem,
+            question: replacement,
+          });
+          questions[index] = replacement;
+          scores[index] = replacementScore;
+        }
+      });
+
+      if (regenerated === 0) {
+        console.warn('⚠️ Regeneration produced no questions; keeping the current set');
+        break;
+      }
+    }
+
+    const evaluation = summarizeScores(
+      scores.map(score => score && { ...score, passed: score.overall >= qualityThreshold }),
+    );
+
+    const regenerationUsage = mergeModelUsage(usage);
+    tracingContext?.currentSpan?.update({ metadata: { usage: regenerationUsage } });
+
+    console.log(
+      `Step evaluate-questions: Succeeded - Average quality ${evaluation.averageScore ?? 'n/a'}, ${evaluation.belowThreshold} question(s) below ${qualityThreshold}, ${evaluation.unscored} unscored after ${rounds} regeneration round(s)`,
+    );
+
+    return {
+      ...inputData,
+      questions,
+      ...(inputData.mix && { mix: checkQuestionMix(questions, inputData.mix.requested) }),
+      evaluation: { threshold: qualityThreshold, rounds, ...evaluation },
+      stepUsage: addStepUsage(inputData.stepUsage, 'evaluate-questions', regenerationUsage),
+    };
+  },
+});
+
+type EvaluatedQuestions = z.infer<typeof evaluatedQuestionsSchema>;
+type EvaluationScores = NonNullable<EvaluatedQuestions['evaluation']>['scores'];
+
+// Unscored questions are neither counted as passing nor as failing
+function summarizeScores(scores: EvaluationScores) {
+  const scored = scores.filter(score => score !== null);
+  return {
+    averageScore:
+      scored.length > 0
+        ? Math.round((scored.reduce((sum, score) => sum + score.overall, 0) / scored.length) * 100) / 100
+        : null,
+    belowThreshold: scored.filter(score => !score.passed).length,
+    unscored: scores.length - scored.length,
+    scores,
+  };
+}
+
+// Bring the evaluation, coverage and mix in line with the reviewed question list
+function applyReviewedQuestions(
+  inputData: EvaluatedQuestions,
+  draftQuestions: ReviewDraftQuestion[],
+): EvaluatedQuestions {
+  const questions: Question[] = draftQuestions.map(({ pending: _pending, score: _score, ...question }) => question);
+
+  return {
+    ...inputData,
+    questions,
+    success: questions.length > 0,
+    ...(inputData.coverage && {
+      coverage: {
+        ...inputData.coverage,
+        sections: inputData.coverage.sections.map(section => {
+          const questionIndexes = questions.flatMap((question, index) =>
+            question.section === section.title ? [index] : [],
+          );
+          return { ...section, questionCount: questionIndexes.length, questionIndexes };
+        }),
+      },
+    }),
+    ...(inputData.mix && { mix: checkQuestionMix(questions, inputData.mix.requested) }),
+    evaluation: inputData.evaluation && {
+      ...inputData.evaluation,
+      ...summarizeScores(draftQuestions.map(question => question.score)),
+    },
+  };
+}
+
+// Step 4: Optionally suspend for an instructor to review the draft, as many rounds as regeneration requests need
+const reviewQuestionsStep = createStep({
+  id: 'review-questions',
+  description:
+    'Suspends with the draft questions until a reviewer approves, edits, rejects or asks to regenerate each of them',
+  inputSchema: evaluatedQuestionsSchema,
+  outputSchema: reviewedQuestionsSchema,
+  suspendSchema: reviewDraftSchema,
+  resumeSchema: reviewResumeSchema,
+  execute: async ({
+    inputData,
+    resumeData,
+    suspendData,
+    suspend,
+    mastra,
+    requestContext,
+    runId,
+    getInitData,
+    getStepResult,
+    abortSignal,
+    tracingContext,
+  }) => {
+    const {
+      review = false,
+      qualityThreshold = DEFAULT_QUALITY_THRESHOLD,
+      profile,
+    } = getInitData<z.infer<typeof pdfInputSchema>>();
+
+    if (!review || !inputData.success || inputData.questions.length === 0) {
+      return inputData;
+    }
+
+    if (!resumeData || !suspendData) {
+      console.log(`⏸️ Waiting for review of ${inputData.questions.length} question(s)`);
+      return await suspend(createReviewDraft(inputData.questions, inputData.evaluation?.scores ?? []));
+    }
+
+    const draft = suspendData;
+    const errors = validateReviewDecisions(draft, resumeData.decisions);
+    if (errors.length > 0) {
+      console.warn(`⚠️ Review decisions rejected: ${errors.join('; ')}`);
+      return await suspend({ ...draft, errors });
+    }
+
+    const outcome = applyReviewDecisions(draft, resumeData, new Date());
+    await saveReviewRecords(runId, outcome.records, getTenantId(requestContext));
+    const history = [...draft.history, ...outcome.records];
+
+    if (outcome.regenerate.length > 0) {
+      console.log(`🔁 Regenerating ${outcome.regenerate.length} question(s) at the reviewer's request`);
+
+      const { summary, pages, sections = [] } = getStepResult(downloadAndSummarizePdfStep);
+      const indexes = outcome.regenerate.map(request => request.index);
+      const { replacements, usage } = await generateReplacements(
+        indexes,
+        outcome.questions,
+        outcome.regenerate.map(request => request.comment ?? 'The reviewer asked for a different question'),
+        { sections, summarySource: { extractedText: summary, pages }, profile },
+        { mastra, requestContext: requestContext || new RequestContext(), abortSignal },
+      );
+
+      // Keep the evaluation meaningful for questions the judge has not seen yet
+      const replacementScores = inputData.evaluation
+        ? await evaluateQuestionQuality(
+            mastra,
+            {
+              sourceText: judgeSourceText(summary, pages),
+              existingQuestions: outcome.questions.filter((_question, index) => !indexes.includes(index)),
+            },
+            replacements.map(({ replacement }) => replacement),
+            { runId, entityId: 'review-questions', iteration: draft.round, tenantId: getTenantId(requestContext) },
+          )
+        : [];
+
+      // A question that could not be regenerated stays in the draft, pending, for the reviewer to decide again
+      const questions = outcome.questions.map(question => ({ ...question }));
+      indexes.forEach(index => (questions[index].pending = true));
+      replacements.forEach(({ index, replacement }, replacementIndex) => {
+        const score = replacementScores[replacementIndex];
+        questions[index] = {
+          ...replacement,
+          pending: true,
+          score: score ? { ...score, passed: score.overall >= qualityThreshold } : null,
+        };
+      });
+
+      // Regeneration tokens are carried through the rounds and added to the step's usage once review completes
+      return await suspend({
+        round: draft.round + 1,
+        questions,
+        history,
+        usage: mergeModelUsage([draft.usage ?? [], usage]),
+      });
+    }
+
+    console.log(`✅ Review complete: ${outcome.questions.length} question(s) approved by ${resumeData.reviewer}`);
+    tracingContext?.currentSpan?.update({ metadata: { usage: draft.usage ?? [] } });
+
+    return {
+      ...applyReviewedQuestions(inputData, outcome.questions),
+      stepUsage: addStepUsage(inputData.stepUsage, 'review-questions', draft.usage ?? []),
+      review: {
+        approvedBy: resumeData.reviewer,
+        approvedAt: new Date().toISOString(),
+        rounds: draft.round,
+        decisions: history,
+      },
+    };
+  },
+});
+
+// Step 5: Export the questions to LMS formats, when requested
+const exportQuestionsStep = createStep({
+  id: 'export-questions',
+  description: 'Exports the generated questions to the requested QTI, GIFT, CSV or Anki formats',
+  inputSchema: reviewedQuestionsSchema,
+  outputSchema: exportedQuestionsSchema,
+  execute: async ({ inputData, getInitData }) => {
+    const { exportFormats = [], exportTitle } = getInitData<z.infer<typeof pdfInputSchema>>();
+
+    if (exportFormats.length === 0 || inputData.questions.length === 0) {
+      return { ...inputData, exports: [] };
+    }
+
+    console.log('Executing Step: export-questions');
+
+    const exports = exportFormats.map(format => ({
+      format,
+      files: exportQuestions(inputData.questions, format, { title: exportTitle }),
+    }));
+
+    console.log(
+      `Step export-questions: Succeeded - Exported ${inputData.questions.length} questions as ${exportFormats.join(', ')}`,
+    );
+
+    return { ...inputData, exports };
+  },
+});
+
+// Step 6: Keep the final questions in the question bank, when requested
+const saveToBankStep = createStep({
+  id: 'save-to-bank',
+  description: 'Stores the final questions in the persistent question bank, skipping near-duplicates',
+  inputSchema: exportedQuestionsSchema,
+  outputSchema: bankedQuestionsSchema,
+  execute: async ({ inputData, requestContext, getInitData, getStepResult }) => {
+    const { saveToBank = false, bankTags, source, profile } = getInitData<z.infer<typeof pdfInputSchema>>();
+    const documentHash = getStepResult(downloadAndSummarizePdfStep).cache?.contentHash;
+
+    if (!saveToBank || !documentHash || inputData.questions.length === 0) {
+      return inputData;
+    }
+
+    console.log('Executing Step: save-to-bank');
+
+    const result = await addQuestionsToBank(getEmbedder(), {
+      tenantId: getTenantId(requestContext),
+      documentHash,
+      source: describePdfSource(source),
+      questions: inputData.questions,
+      tags: bankTags,
+      profile,
+    });
+
+    console.log(
+      `Step save-to-bank: Succeeded - Added ${result.added.length} questions, skipped ${result.duplicates.length} duplicates`,
+    );
+
+    return {
+      ...inputData,
+      bank: { added: result.added.length, duplicates: result.duplicates.length, questionIds: result.questionIds },
+    };
+  },
+});
+
+// Step 7: Price the tokens every step used and measure how much the summary saved
+const reportUsageStep = createStep({
+  id: 'report-usage',
+  description: 'Reports tokens and estimated cost per step and per model, and the summary compression ratio',
+  inputSchema: bankedQuestionsSchema,
+  outputSchema: usageReportedQuestionsSchema,
+  execute: async ({ inputData, getStepResult, tracingContext }) => {
+    const { stepUsage, ...result } = inputData;
+    const { compression, guardrails } = getStepResult(downloadAndSummarizePdfStep);
+    const usage = buildUsageReport(stepUsage, compression);
+    tracingContext?.currentSpan?.update({ metadata: { usage } });
+
+    console.log(
+      `Step report-usage: ${usage.total.inputTokens} prompt and ${usage.total.outputTokens} completion tokens in ${usage.total.calls} call(s), ~$${usage.total.estimatedCost.toFixed(4)}${usage.compression ? `, summary ${Math.round(usage.compression.reduction * 100)}% smaller than the full text` : ''}`,
+    );
+
+    return { ...result, usage, ...(guardrails ? { guardrails } : {}) };
+  },
+});
+
 // Define the workflow with simplified steps
 export const pdfToQuestionsWorkflow = createWorkflow({
   id: 'generate-questions-from-pdf-workflow',
-  description: 'Downloads PDF from URL, generates an AI summary, and creates questions from the summary',
+  description: 'Loads a PDF (URL, file or upload), generates an AI summary, and creates questions from the summary',
   inputSchema: pdfInputSchema,
-  outputSchema: questionsSchema,
+  outputSchema: usageReportedQuestionsSchema,
 })
   .then(downloadAndSummarizePdfStep)
   .then(generateQuestionsFromSummaryStep)
+  .then(evaluateQuestionsStep)
+  .then(reviewQuestionsStep)
+  .then(exportQuestionsStep)
+  .then(saveToBankStep)
+  .then(reportUsageStep)
   .commit();
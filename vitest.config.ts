@@ -0,0 +1,26 @@
+import { mkdtempSync } from 'node:fs';
+import { tmpdir } from 'node:os';
+import { join } from 'node:path';
+import { defineConfig } from 'vitest/config';
+
+// Each run gets a fresh database, so cached extractions and summaries from earlier runs never leak into snapshots
+const dataDir = mkdtempSync(join(tmpdir(), 'pdf-questions-test-'));
+
+export default defineConfig({
+  test: {
+    include: ['src/**/*.test.ts'],
+    setupFiles: ['src/mastra/__tests__/setup.ts'],
+    // The test files share one database file
+    fileParallelism: false,
+    testTimeout: 30_000,
+    env: {
+      MODEL: 'test/scripted',
+      MASTRA_DB_URL: `file:${join(dataDir, 'mastra.db')}`,
+      PDF_DOWNLOAD_ALLOWED_HOSTS: '127.0.0.1',
+      PDF_DOWNLOAD_RETRIES: '0',
+      PDF_OCR_ENGINE: 'none',
+      PDF_EMBEDDER: 'local',
+      MODEL_PRICES: '{"test/scripted":{"input":1,"output":2}}',
+    },
+  },
+});